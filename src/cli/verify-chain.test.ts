@@ -0,0 +1,210 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createChainBundle } from '@/lib/bundle';
+import { createAuditExport } from '@/lib/audit';
+import { createAdminLogExport, recordAdminEvent } from '@/lib/admin-log';
+import { loadAdminLog } from '@/lib/storage';
+import { provisionDevice } from '@/lib/devices';
+import { createTestDefinition, createTestElection, voterHash, type TestElection } from '@/test/election-fixture';
+
+// Runs the verifier from source, as `npm run verify-chain` runs the build
+function verifyChain(...args: string[]): { status: number | null; output: string } {
+  const result = spawnSync('npx', ['--no-install', 'vite-node', 'src/cli/verify-chain.ts', '--', ...args], {
+    encoding: 'utf8',
+    timeout: 60_000
+  });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+describe('verify-chain CLI: chain bundles', { timeout: 90_000 }, () => {
+  let dir: string;
+  let election: TestElection;
+  let bundlePath: string;
+  let definitionPath: string;
+  let devicesPath: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'svs-verify-'));
+    election = await createTestElection('elgamal');
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'alice');
+    await election.castVote(voterHash(2), 'south', 'erin');
+
+    bundlePath = join(dir, 'bundle.json');
+    writeFileSync(bundlePath, await createChainBundle(election.state, election.device));
+    definitionPath = join(dir, 'election.json');
+    writeFileSync(definitionPath, JSON.stringify(election.definition, null, 2));
+    devicesPath = join(dir, 'devices.json');
+    writeFileSync(devicesPath, JSON.stringify(election.devices, null, 2));
+  }, 60_000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('verifies the ElGamal ballot proofs of a bundle given its election definition', () => {
+    const { status, output } = verifyChain(bundlePath, '--definition', definitionPath, '--devices', devicesPath);
+
+    expect(output).toContain(`Definition: ${election.definitionHash}`);
+    expect(output).toContain('Bundle sig: VALID');
+    expect(output).toContain('RESULT: VERIFIED');
+    expect(status).toBe(0);
+  });
+
+  it('cannot check ballot proofs without the election definition', () => {
+    const { status, output } = verifyChain(bundlePath, '--devices', devicesPath);
+
+    expect(output).toContain('Ballot proof cannot be checked without the election key and ballot definitions at block 2');
+    expect(status).toBe(1);
+  });
+
+  it('rejects a definition the genesis block does not commit to', () => {
+    const other = createTestDefinition();
+    other.election.name = 'Another Election';
+    const otherPath = join(dir, 'other.json');
+    writeFileSync(otherPath, JSON.stringify(other));
+
+    const { status, output } = verifyChain(bundlePath, '--definition', otherPath, '--devices', devicesPath);
+
+    expect(output).toContain('Genesis block does not commit to this election definition');
+    expect(status).toBe(1);
+  });
+
+  it('refuses to verify a bundle without the device registry', () => {
+    const { status, output } = verifyChain(bundlePath, '--definition', definitionPath);
+
+    expect(output).toContain('A chain bundle is verified against the published device registry; pass --devices <registry.json>');
+    expect(status).toBe(2);
+  });
+
+  it('fails a bundle from a kiosk missing from the registry', async () => {
+    const { registration } = await provisionDevice('KIOSK-99', ['north']);
+    const otherPath = join(dir, 'other-devices.json');
+    writeFileSync(otherPath, JSON.stringify(registration));
+
+    const { status, output } = verifyChain(bundlePath, '--definition', definitionPath, '--devices', otherPath);
+
+    expect(output).toContain('Bundle sig: INVALID (Bundle signed by unregistered device KIOSK-01)');
+    expect(output).toContain('Chain:      INVALID (Unregistered device KIOSK-01 at block 1)');
+    expect(status).toBe(1);
+  });
+});
+
+describe('verify-chain CLI: audit exports', { timeout: 90_000 }, () => {
+  let dir: string;
+  let auditPath: string;
+  let signaturePath: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'svs-verify-'));
+    const election = await createTestElection('rsa-oaep');
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'bob');
+
+    const exported = await createAuditExport(election.state, {
+      electionKey: election.electionKey,
+      electionDefinition: election.definition,
+      devices: election.devices,
+      validators: election.validators
+    }, election.admin);
+    file = exported.file;
+    auditPath = join(dir, 'audit.json');
+    signaturePath = join(dir, 'audit.json.sig');
+    writeFileSync(auditPath, file);
+    writeFileSync(signaturePath, exported.signature);
+  }, 60_000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('verifies a signed audit export', () => {
+    const { status, output } = verifyChain(auditPath, '--signature', signaturePath);
+
+    expect(output).toContain('Signature:  VALID, signed by returning-officer');
+    expect(output).toContain('Chain:      VALID');
+    expect(output).toContain('RESULT: VERIFIED');
+    expect(status).toBe(0);
+  });
+
+  it('fails an export edited after it was signed', () => {
+    const editedPath = join(dir, 'edited.json');
+    writeFileSync(editedPath, file.replace('"exportedBy": "returning-officer"', '"exportedBy": "someone-else"'));
+
+    const { status, output } = verifyChain(editedPath, '--signature', signaturePath);
+
+    expect(output).toContain('Signature:  INVALID');
+    expect(output).toContain('RESULT: VERIFICATION FAILED');
+    expect(status).toBe(1);
+  });
+});
+
+describe('verify-chain CLI: admin logs', { timeout: 90_000 }, () => {
+  let dir: string;
+  let election: TestElection;
+  let auditPath: string;
+  let logPath: string;
+  let signaturePath: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'svs-verify-'));
+    election = await createTestElection('rsa-oaep');
+    const tip = await recordAdminEvent('login', election.admin.adminId);
+    await election.recordPhase('open', { index: tip.index, hash: tip.hash });
+    await recordAdminEvent('export', election.admin.adminId, { kind: 'admin log' });
+
+    const audit = await createAuditExport(election.state, {
+      electionKey: election.electionKey,
+      electionDefinition: election.definition,
+      devices: election.devices,
+      validators: election.validators
+    }, election.admin);
+    auditPath = join(dir, 'audit.json');
+    writeFileSync(auditPath, audit.file);
+
+    const exported = await createAdminLogExport(await loadAdminLog(), election.device.deviceId, election.admin);
+    file = exported.file;
+    logPath = join(dir, 'admin-log.json');
+    signaturePath = join(dir, 'admin-log.json.sig');
+    writeFileSync(logPath, file);
+    writeFileSync(signaturePath, exported.signature);
+  }, 60_000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('verifies a signed admin log against the tip committed on chain', () => {
+    const { status, output } = verifyChain(logPath, '--signature', signaturePath, '--chain', auditPath);
+
+    expect(output).toContain('Signature:  VALID, signed by returning-officer');
+    expect(output).toContain('Anchors:    1 log tip(s) committed by this kiosk\'s phase blocks');
+    expect(output).toContain('Admin log:  VALID');
+    expect(output).toContain('RESULT: VERIFIED');
+    expect(status).toBe(0);
+  });
+
+  it('fails a log that lost an entry committed on chain', () => {
+    const truncatedPath = join(dir, 'truncated.json');
+    const log = JSON.parse(file);
+    writeFileSync(truncatedPath, JSON.stringify({ ...log, entries: [], entryCount: 0, tipHash: '0'.repeat(64) }));
+
+    const { status, output } = verifyChain(truncatedPath, '--chain', auditPath);
+
+    expect(output).toContain('Admin log:  INVALID (Admin log entry 0 committed on chain is missing)');
+    expect(status).toBe(1);
+  });
+
+  it('refuses to verify an admin log without the chain', () => {
+    const { status, output } = verifyChain(logPath, '--signature', signaturePath);
+
+    expect(output).toContain('pass --chain <audit export or bundle>');
+    expect(status).toBe(2);
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * STANDALONE CHAIN VERIFIER (COMMAND LINE)
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Independent observers can verify an exported chain without the kiosk
+ * or the admin console. This tool runs under Node.js with no network and
+ * no browser, using the same validation code as the kiosk (validateChain,
+ * verifyProofOfWork, sha256) so there is exactly one definition of a
+ * valid chain.
+ *
+ * Accepts a verifiable audit export (optionally with its detached .sig
+ * file) or a full chain bundle. An audit export carries its election
+ * definition; a bundle does not, so the published definition file is
+ * passed with --definition and checked against the hash committed in the
+ * genesis block. The election key always comes from the genesis block.
+ * Every block must carry a registered kiosk's signature: an audit export
+ * carries its device registry, and a bundle is verified against the
+ * published registry (or the kiosk's exported registration) given with
+ * --devices, which also checks the bundle signature.
+ * An exported admin log (SVS-ADMIN-LOG) is
+ * checked the same way: detached signature, then every entry's hash and
+ * link, using the kiosk's verifyAdminLog. The chain its kiosk recorded
+ * phase changes on is passed with --chain, and every log tip committed in
+ * those phase blocks must still be in the log.
+ *
+ * Usage:
+ *   npm run build:cli
+ *   npm run verify-chain -- <file> [--signature <file.sig>] [--trusted-key <spki-hex>]
+ *                             [--definition <election.json>] [--devices <registry.json>]
+ *                             [--chain <audit-export.json | bundle.json>]
+ *
+ * Exit codes: 0 valid, 1 verification failed, 2 usage or input error
+ */
+
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { sha256, verifyProofOfWork, parseElGamalBallot } from '@/lib/crypto';
+import {
+  validateChain,
+  calculateBlockHash,
+  getGenesisConfig,
+  isVoteBlock,
+  type Block,
+  type ChainValidationOptions
+} from '@/lib/blockchain';
+import { parseElectionDefinition, hashElectionDefinition, getBallotLayouts } from '@/lib/election-definition';
+import {
+  verifyAuditExport,
+  verifyExportSignature,
+  getManifestValidationOptions,
+  type AuditFile
+} from '@/lib/audit';
+import {
+  getAdminLogAnchors,
+  hashAdminLogEntry,
+  parseAdminLogFile,
+  verifyAdminLog,
+  ADMIN_LOG_FORMAT,
+  ADMIN_LOG_GENESIS_HASH,
+  type AdminLogFile
+} from '@/lib/admin-log';
+import { parseChainBundle, verifyBundleSignature } from '@/lib/bundle';
+import { getCountedBallots, buildMerkleTree } from '@/lib/merkle';
+import { getRevokedDeviceIds, getVoidedBlocks, parseDeviceRegistry } from '@/lib/devices';
+import { getElectionStatus, parsePhaseBlock } from '@/lib/election';
+
+const EXIT_VALID = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+interface CliArguments {
+  file: string;
+  signature: string | null;
+  trustedKey: string | null;
+  definition: string | null;
+  devices: string | null;
+  chain: string | null;    // Admin logs only
+}
+
+interface LoadedChain {
+  format: string;
+  blocks: Block[];
+  options: ChainValidationOptions;
+  revokedDeviceIds: string[];
+  expectedTip: { index: number; hash: string } | null;
+  bundleSignatureError?: string | null; // Chain bundles only
+}
+
+function usage(message?: string): never {
+  if (message) console.error(`Error: ${message}\n`);
+  console.error(
+    'Usage: verify-chain <file> [--signature <file.sig>] [--trusted-key <spki-hex>] [--definition <election.json>] ' +
+    '[--devices <registry.json>] [--chain <audit-export.json | bundle.json>]'
+  );
+  process.exit(EXIT_USAGE);
+}
+
+function parseArguments(argv: string[]): CliArguments {
+  const args: CliArguments = { file: '', signature: null, trustedKey: null, definition: null, devices: null, chain: null };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (['--signature', '--trusted-key', '--definition', '--devices', '--chain'].includes(arg)) {
+      const value = argv[++i];
+      if (!value) usage(`${arg} requires a value`);
+      if (arg === '--signature') args.signature = value;
+      else if (arg === '--definition') args.definition = value;
+      else if (arg === '--devices') args.devices = value;
+      else if (arg === '--chain') args.chain = value;
+      else args.trustedKey = value.toLowerCase();
+    } else if (arg === '--help' || arg === '-h') {
+      usage();
+    } else if (arg.startsWith('--')) {
+      usage(`Unknown option ${arg}`);
+    } else if (!args.file) {
+      args.file = arg;
+    } else {
+      usage(`Unexpected argument ${arg}`);
+    }
+  }
+
+  if (!args.file) usage('No chain file given');
+  return args;
+}
+
+function readText(path: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch {
+    console.error(`Error: cannot read ${path}`);
+    process.exit(EXIT_USAGE);
+  }
+}
+
+/**
+ * Ballot layouts and hash of a published election definition file
+ */
+async function loadDefinitionOptions(path: string): Promise<Omit<ChainValidationOptions, 'devices'>> {
+  const definition = parseElectionDefinition(readText(path));
+  return {
+    constituencies: getBallotLayouts(definition),
+    definitionHash: await hashElectionDefinition(definition)
+  };
+}
+
+/**
+ * Recognise an audit export or a chain bundle and extract its validation context
+ * A --definition file must match the export's own definition, and is what
+ * lets a bundle's ElGamal ballot proofs be checked. A bundle carries no
+ * device registry, so it cannot be verified without --devices.
+ */
+async function loadChain(text: string, args: CliArguments): Promise<LoadedChain> {
+  const definition = args.definition ? await loadDefinitionOptions(args.definition) : null;
+
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (value?.manifest) {
+    const { manifest, blocks } = value as unknown as AuditFile;
+    const options = await getManifestValidationOptions(manifest);
+    if (definition && definition.definitionHash !== options.definitionHash) {
+      throw new Error('The --definition file does not match the election definition in the audit export');
+    }
+    if (args.devices) {
+      throw new Error('An audit export carries its own device registry; --devices is for chain bundles');
+    }
+    return {
+      format: `audit export v${manifest.version}, exported by ${manifest.exportedBy} at ${new Date(manifest.exportedAt).toISOString()}`,
+      blocks,
+      options,
+      revokedDeviceIds: getRevokedDeviceIds(manifest.devices),
+      expectedTip: { index: manifest.tipIndex, hash: manifest.tipHash }
+    };
+  }
+
+  const bundle = parseChainBundle(text);
+  if (bundle.fromIndex !== 0) {
+    throw new Error(`Bundle from ${bundle.deviceId} is incremental (starts at block ${bundle.fromIndex}); a full export is required`);
+  }
+  if (!args.devices) {
+    throw new Error('A chain bundle is verified against the published device registry; pass --devices <registry.json>');
+  }
+  const devices = parseDeviceRegistry(readText(args.devices));
+  return {
+    format: `chain bundle v${bundle.version} from ${bundle.deviceId}`,
+    blocks: bundle.blocks,
+    options: {
+      ...definition,
+      consensus: bundle.consensus,
+      devices
+    },
+    revokedDeviceIds: getRevokedDeviceIds(devices),
+    expectedTip: { index: bundle.tipIndex, hash: bundle.tipHash },
+    bundleSignatureError: await verifyBundleSignature(bundle, devices)
+  };
+}
+
+function pad(value: string | number, width: number): string {
+  return String(value).padEnd(width);
+}
+
+function isAdminLogExport(text: string): boolean {
+  try {
+    return JSON.parse(text)?.format === ADMIN_LOG_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Report on an exported admin log: signature, the chain holding its
+ * anchors, then every entry's hash, link and anchor
+ */
+async function verifyAdminLogFile(text: string, args: CliArguments): Promise<number> {
+  let log: AdminLogFile;
+  let loaded: LoadedChain;
+  try {
+    log = parseAdminLogFile(text);
+    if (!args.chain) {
+      throw new Error('An admin log is checked against the log tips committed on chain; pass --chain <audit export or bundle>');
+    }
+    loaded = await loadChain(readText(args.chain), args);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'unrecognised file'}`);
+    return EXIT_USAGE;
+  }
+
+  console.log(`Format:     admin log v${log.version}, exported by ${log.exportedBy} at ${log.exportedAt}`);
+  console.log(`Kiosk:      ${log.deviceId ?? 'not provisioned'}`);
+
+  let failed = false;
+
+  if (args.signature) {
+    const result = await verifyExportSignature(text, readText(args.signature), args.trustedKey ?? undefined);
+    console.log(
+      `Signature:  ${result.signatureValid ? 'VALID' : `INVALID (${result.error})`}` +
+      (result.signerId ? `, signed by ${result.signerId} (key ${result.signerFingerprint})` : '')
+    );
+    if (!result.signatureValid) failed = true;
+  } else {
+    console.log('Signature:  not checked (no --signature given)');
+  }
+
+  // Anchors only count from a chain that validates
+  const chainResult = await validateChain(loaded.blocks, loaded.options);
+  console.log(`Chain:      ${loaded.format}, ${chainResult.isValid ? 'VALID' : `INVALID (${chainResult.error})`}`);
+  if (!chainResult.isValid) failed = true;
+  const anchors = chainResult.isValid && log.deviceId ? getAdminLogAnchors(loaded.blocks, log.deviceId) : [];
+  console.log(`Anchors:    ${anchors.length} log tip(s) committed by this kiosk's phase blocks`);
+
+  const { entries } = log;
+  const verification = await verifyAdminLog(entries, anchors);
+  let failedAt: number | null = null;
+
+  // Per-entry report: the same checks, in the same order, as verifyAdminLog
+  console.log('');
+  console.log(`${pad('Entry', 8)}${pad('Hash', 20)}${pad('Recompute', 11)}${pad('Link', 6)}${pad('Anchor', 8)}${pad('Time', 26)}${pad('Event', 26)}${pad('Official', 28)}Result`);
+
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...unsigned } = entries[i];
+    const hashOk = await hashAdminLogEntry(unsigned).catch(() => null) === hash;
+    const linkOk = unsigned.index === i &&
+      unsigned.previousHash === (i === 0 ? ADMIN_LOG_GENESIS_HASH : entries[i - 1].hash);
+    const pinned = anchors.filter(anchor => anchor.index === i);
+    const anchorOk = pinned.every(anchor => anchor.hash === hash);
+    if (failedAt === null && (!hashOk || !linkOk || !anchorOk)) failedAt = i;
+
+    let verdict: string;
+    if (failedAt === null) verdict = 'OK';
+    else if (i === failedAt) verdict = `FAIL: ${verification.error}`;
+    else verdict = 'not verified (after failure)';
+
+    const official = unsigned.approver ? `${unsigned.actor} + ${unsigned.approver}` : unsigned.actor;
+    console.log(
+      `${pad(`#${unsigned.index}`, 8)}${pad(`${String(hash).substring(0, 16)}..`, 20)}` +
+      `${pad(hashOk ? 'ok' : 'BAD', 11)}${pad(linkOk ? 'ok' : 'BAD', 6)}${pad(pinned.length === 0 ? '-' : anchorOk ? 'ok' : 'BAD', 8)}` +
+      `${pad(new Date(unsigned.timestamp).toISOString(), 26)}${pad(unsigned.type, 26)}${pad(official, 28)}${verdict}`
+    );
+  }
+
+  const tipHash = entries.length > 0 ? entries[entries.length - 1].hash : ADMIN_LOG_GENESIS_HASH;
+  console.log('');
+  console.log(`Admin log:  ${verification.isValid ? 'VALID' : 'INVALID'}${verification.error ? ` (${verification.error})` : ''}`);
+  console.log(`Entries:    ${entries.length}`);
+  console.log(`Tip hash:   ${tipHash}`);
+
+  if (!verification.isValid) failed = true;
+
+  if (log.entryCount !== entries.length || log.tipHash !== tipHash) {
+    console.log('Header:     MISMATCH (declared entry count or tip does not match the entries)');
+    failed = true;
+  }
+
+  const perType = new Map<string, number>();
+  for (const entry of entries) {
+    perType.set(entry.type, (perType.get(entry.type) ?? 0) + 1);
+  }
+  console.log('');
+  console.log('Events');
+  console.log('------');
+  for (const [type, count] of [...perType].sort()) {
+    console.log(`  ${pad(type, 26)}${count}`);
+  }
+
+  console.log('');
+  console.log(failed ? 'RESULT: VERIFICATION FAILED' : 'RESULT: VERIFIED');
+  return failed ? EXIT_INVALID : EXIT_VALID;
+}
+
+async function main(): Promise<number> {
+  const args = parseArguments(process.argv.slice(2));
+  const text = readText(args.file);
+
+  console.log('SVS Chain Verifier');
+  console.log('==================');
+  console.log(`File:       ${basename(args.file)}`);
+  console.log(`SHA-256:    ${await sha256(text)}`);
+
+  if (isAdminLogExport(text)) {
+    return verifyAdminLogFile(text, args);
+  }
+
+  let loaded: LoadedChain;
+  try {
+    loaded = await loadChain(text, args);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'unrecognised file'}`);
+    return EXIT_USAGE;
+  }
+
+  const { blocks, options } = loaded;
+  console.log(`Format:     ${loaded.format}`);
+  console.log(`Consensus:  ${options.consensus ?? 'pow'}`);
+  console.log(`Definition: ${options.definitionHash ?? 'not checked (no election definition in file; pass --definition)'}`);
+
+  let failed = false;
+
+  // Detached signature (audit exports only)
+  if (args.signature) {
+    const result = await verifyAuditExport(text, readText(args.signature), args.trustedKey ?? undefined);
+    console.log(
+      `Signature:  ${result.signatureValid ? 'VALID' : 'INVALID'}` +
+      (result.signerId ? `, signed by ${result.signerId} (key ${result.signerFingerprint})` : '')
+    );
+    if (!result.signatureValid) failed = true;
+  } else {
+    console.log('Signature:  not checked (no --signature given)');
+  }
+
+  // Kiosk signature over a chain bundle
+  if (loaded.bundleSignatureError !== undefined) {
+    console.log(`Bundle sig: ${loaded.bundleSignatureError === null ? 'VALID' : `INVALID (${loaded.bundleSignatureError})`}`);
+    if (loaded.bundleSignatureError !== null) failed = true;
+  }
+
+  if (blocks.length === 0) {
+    console.error('Error: file contains no blocks');
+    return EXIT_INVALID;
+  }
+
+  // Election parameters the genesis block commits to
+  const genesis = getGenesisConfig(blocks[0]);
+  if (genesis) {
+    console.log(`Genesis:    election ${genesis.electionId}, definition ${genesis.definitionHash.substring(0, 16)}..`);
+    console.log(`            ${genesis.encryptionKey.scheme} key ${genesis.encryptionKey.privateKeyFingerprint.substring(0, 16)}.., ` +
+      `${genesis.trustees.threshold}-of-${genesis.trustees.shardFingerprints.length} trustees, ` +
+      `${genesis.consensus} with ${genesis.validators.length} validator${genesis.validators.length !== 1 ? 's' : ''}`);
+    if (genesis.consensus === 'pow') {
+      const policy = genesis.difficultyPolicy;
+      console.log(`            difficulty ${policy.initialDifficulty} (${policy.minDifficulty}-${policy.maxDifficulty}), ` +
+        `retarget every ${policy.retargetWindow} blocks to ${policy.targetBlockTimeMs / 1000}s`);
+    }
+  } else {
+    console.log('Genesis:    no election configuration');
+  }
+
+  const validation = await validateChain(blocks, options);
+  const failedAt = validation.invalidBlockIndex;
+
+  // Per-block report: integrity checks for every block, verdict from validateChain
+  console.log('');
+  console.log(`${pad('Block', 8)}${pad('Hash', 20)}${pad('Recompute', 11)}${pad('Link', 6)}${pad(options.consensus === 'poa' ? 'Seal' : 'PoW', 6)}${pad('Device', 14)}Result`);
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const recomputed = await calculateBlockHash(block).catch(() => null);
+    const hashOk = recomputed === block.hash;
+    const linkOk = i === 0 || block.previousHash === blocks[i - 1].hash;
+    const consensusOk = i === 0 || (options.consensus === 'poa'
+      ? !!block.signerId && !!block.signature
+      : verifyProofOfWork(block.hash, block.difficulty));
+
+    let verdict: string;
+    if (failedAt === null || i < failedAt) verdict = i === 0 ? 'OK (genesis)' : 'OK';
+    else if (i === failedAt) verdict = `FAIL: ${validation.error}`;
+    else verdict = 'not verified (after failure)';
+
+    const transition = parsePhaseBlock(block);
+    const mark = (ok: boolean) => (i === 0 ? '-' : ok ? 'ok' : 'BAD');
+    console.log(
+      `${pad(`#${block.index}`, 8)}${pad(`${block.hash.substring(0, 16)}..`, 20)}` +
+      `${pad(hashOk ? 'ok' : 'BAD', 11)}${pad(mark(linkOk), 6)}${pad(mark(consensusOk), 6)}` +
+      `${pad(block.deviceId ?? '-', 14)}${verdict}` +
+      (transition ? ` [phase -> ${transition.to}]` : '')
+    );
+  }
+
+  const tip = blocks[blocks.length - 1];
+  console.log('');
+  console.log(`Chain:      ${validation.isValid ? 'VALID' : 'INVALID'}${validation.error ? ` (${validation.error})` : ''}`);
+  console.log(`Blocks:     ${blocks.length} (including genesis)`);
+  console.log(`Tip hash:   ${tip.hash}`);
+
+  if (!validation.isValid) failed = true;
+
+  // Election lifecycle, from the signed phase blocks
+  const election = getElectionStatus(blocks);
+  console.log(`Election:   ${election.schedule?.electionId ?? '(not opened)'}, phase ${election.phase}`);
+  for (const transition of election.transitions) {
+    console.log(`  ${pad(`${transition.from} -> ${transition.to}`, 22)}${new Date(transition.signedAt).toISOString()} by ${transition.adminId}`);
+  }
+
+  if (loaded.expectedTip && (loaded.expectedTip.index !== tip.index || loaded.expectedTip.hash !== tip.hash)) {
+    console.log('Manifest:   MISMATCH (declared tip does not match the blocks)');
+    failed = true;
+  }
+
+  // Counted-ballot summary (no decryption: ballots stay secret)
+  const counted = getCountedBallots(blocks, loaded.revokedDeviceIds);
+  const voided = getVoidedBlocks(blocks, loaded.revokedDeviceIds);
+  const voteBlocks = blocks.filter(isVoteBlock).length;
+  const merkle = await buildMerkleTree(counted.map(block => block.hash));
+
+  console.log('');
+  console.log('Counted ballots');
+  console.log('---------------');
+  console.log(`Vote blocks:         ${voteBlocks}`);
+  console.log(`Voided (revoked):    ${voided.length}`);
+  console.log(`Superseded re-votes: ${voteBlocks - voided.length - counted.length}`);
+  console.log(`Counted ballots:     ${counted.length}`);
+  console.log(`Counted-set root:    ${merkle.root}`);
+
+  const perConstituency = new Map<string, number>();
+  for (const block of counted) {
+    const constituencyId = parseElGamalBallot(block.encryptedVote)?.constituencyId ?? '(encrypted)';
+    perConstituency.set(constituencyId, (perConstituency.get(constituencyId) ?? 0) + 1);
+  }
+  for (const [constituencyId, count] of [...perConstituency].sort()) {
+    console.log(`  ${pad(constituencyId, 20)}${count}`);
+  }
+
+  console.log('');
+  console.log(failed ? 'RESULT: VERIFICATION FAILED' : 'RESULT: VERIFIED');
+  return failed ? EXIT_INVALID : EXIT_VALID;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Verifier error:', error);
+    process.exit(EXIT_USAGE);
+  });
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { UserCog, UserPlus, AlertTriangle, Unlock, Trash2, RefreshCw } from 'lucide-react';
+import {
+  ADMIN_ROLES,
+  ADMIN_ROLE_LABELS,
+  MIN_ADMIN_PASSWORD_LENGTH,
+  createAdminAccount,
+  listAdminAccounts,
+  removeAdminAccount,
+  unlockAdminAccount,
+  type AdminAccount,
+  type AdminRole,
+  type AdminSession
+} from '@/lib/admin-accounts';
+
+interface AdminAccountsPanelProps {
+  admin: AdminSession;
+}
+
+type AccountSummary = Omit<AdminAccount, 'passwordHash' | 'passwordSalt'>;
+
+export function AdminAccountsPanel({ admin }: AdminAccountsPanelProps) {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<AdminRole>('technician');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setAccounts(await listAdminAccounts());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    await createAdminAccount(username, password, role, admin);
+    setUsername('');
+    setPassword('');
+  }, 'Account could not be created');
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <UserCog className="h-5 w-5 text-primary" />
+        Administrator Accounts
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      <div className="mb-4 space-y-2">
+        {accounts.map(account => {
+          const locked = !!account.lockedUntil && Date.now() < account.lockedUntil;
+          return (
+            <div
+              key={account.username}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border bg-secondary/30 p-3 text-sm"
+            >
+              <div>
+                <span className="font-mono text-foreground">{account.username}</span>
+                <span className="ml-2 text-muted-foreground">{ADMIN_ROLE_LABELS[account.role]}</span>
+                {account.username === admin.username && (
+                  <span className="ml-2 text-xs text-primary">(you)</span>
+                )}
+                {locked && <span className="ml-2 text-xs text-destructive">Locked</span>}
+              </div>
+              <div className="flex gap-2">
+                {(locked || account.failedAttempts > 0) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => run(() => unlockAdminAccount(account.username, admin), 'Unlock failed')}
+                    className="gap-1"
+                  >
+                    <Unlock className="h-4 w-4" />
+                    Unlock
+                  </Button>
+                )}
+                {account.username !== admin.username && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => run(() => removeAdminAccount(account.username, admin), 'Removal failed')}
+                    className="gap-1 text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 border-t border-border pt-4">
+        <div>
+          <label htmlFor="account-username" className="mb-1 block text-xs font-medium text-muted-foreground">
+            Username
+          </label>
+          <input
+            id="account-username"
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="secure-input w-48 text-sm"
+            autoComplete="off"
+          />
+        </div>
+        <div>
+          <label htmlFor="account-role" className="mb-1 block text-xs font-medium text-muted-foreground">
+            Role
+          </label>
+          <select
+            id="account-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as AdminRole)}
+            className="secure-input w-48 text-sm"
+          >
+            {ADMIN_ROLES.map(r => (
+              <option key={r} value={r}>{ADMIN_ROLE_LABELS[r]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="account-password" className="mb-1 block text-xs font-medium text-muted-foreground">
+            Initial Password
+          </label>
+          <input
+            id="account-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={`At least ${MIN_ADMIN_PASSWORD_LENGTH} characters`}
+            className="secure-input w-56 text-sm"
+            autoComplete="off"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleCreate}
+          disabled={isBusy || !username || !password}
+          className="gap-2"
+        >
+          {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+          Create Account
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -14,23 +14,89 @@ import {
   RefreshCw,
   Cpu,
   Hash,
-  Link2
+  Link2,
+  GitBranch
 } from 'lucide-react';
-import { validateChain, getVoteStatistics, exportChainForAudit, type BlockchainState } from '@/lib/blockchain';
-import { shamirSplit, encodeShare, bufferToHex, generateRandomBytes } from '@/lib/crypto';
+import {
+  validateChain,
+  getVoteStatistics,
+  exportChainForAudit,
+  type Block,
+  type BlockchainState,
+  type LedgerAuthorities
+} from '@/lib/blockchain';
+import { TallyPanel } from '@/components/TallyPanel';
+import { DevicePanel } from '@/components/DevicePanel';
+import { AggregationPanel } from '@/components/AggregationPanel';
+import { AuditPanel } from '@/components/AuditPanel';
+import { ElectionPanel } from '@/components/ElectionPanel';
+import { KeyCeremonyPanel } from '@/components/KeyCeremonyPanel';
+import { VoterRollPanel } from '@/components/VoterRollPanel';
+import { AdminAccountsPanel } from '@/components/AdminAccountsPanel';
+import { AdminLogPanel } from '@/components/AdminLogPanel';
+import { DualApprovalPrompt } from '@/components/DualApprovalPrompt';
+import { getAllConstituencies } from '@/lib/database';
+import type { RecoveryReport } from '@/lib/storage';
+import { publishBallotMerkleRoot, type MerklePublication } from '@/lib/merkle';
+import { getRevokedDeviceIds, type AuthorisedDevice, type DeviceIdentity } from '@/lib/devices';
+import { getElectionStatus } from '@/lib/election';
+import { getElectionSchedule, type ElectionDefinition } from '@/lib/election-definition';
+import type { PublishedElectionKey } from '@/lib/key-ceremony';
+import {
+  ADMIN_ROLE_LABELS,
+  hasCapability,
+  type AdminCapability,
+  type AdminSession
+} from '@/lib/admin-accounts';
+import { requestDualControl, type DualControlRequest } from '@/lib/dual-control';
+import { recordAdminEvent } from '@/lib/admin-log';
 
 interface AdminDashboardProps {
-  blockchainState: BlockchainState;
+  blockchainState: BlockchainState | null; // Null until the key ceremony mints the genesis block
+  electionKey: PublishedElectionKey | null;
+  onKeyPublished: (key: PublishedElectionKey, authorities: LedgerAuthorities) => Promise<void>;
+  merklePublication: MerklePublication | null;
+  onMerklePublished: (publication: MerklePublication) => Promise<void>;
+  electionDefinition: ElectionDefinition;
+  definitionHash: string;
+  onPhaseRecorded: (state: BlockchainState, block: Block) => Promise<void>;
+  deviceIdentity: DeviceIdentity | null;
+  deviceRegistry: AuthorisedDevice[];
+  onDeviceProvisioned: (identity: DeviceIdentity, registry: AuthorisedDevice[]) => Promise<void>;
+  onRegistryChanged: (registry: AuthorisedDevice[]) => Promise<void>;
+  recoveryReport: RecoveryReport | null;
+  admin: AdminSession; // Panels are shown according to the official's role
   onLogout: () => void;
 }
 
-export function AdminDashboard({ blockchainState, onLogout }: AdminDashboardProps) {
+export function AdminDashboard({ 
+  blockchainState, 
+  electionKey, 
+  onKeyPublished, 
+  merklePublication,
+  onMerklePublished,
+  electionDefinition,
+  definitionHash,
+  onPhaseRecorded,
+  deviceIdentity,
+  deviceRegistry,
+  onDeviceProvisioned,
+  onRegistryChanged,
+  recoveryReport,
+  admin,
+  onLogout 
+}: AdminDashboardProps) {
+  const adminId = admin.username;
+  const can = (capability: AdminCapability) => hasCapability(admin.role, capability);
+
   const [isValidating, setIsValidating] = useState(false);
   const [validationResult, setValidationResult] = useState<{
     isValid: boolean;
     error: string | null;
   } | null>(null);
-  const [shamirShards, setShamirShards] = useState<string[] | null>(null);
+  const [isPublishingRoot, setIsPublishingRoot] = useState(false);
+  const [merkleError, setMerkleError] = useState<string | null>(null);
+  const [exportRequest, setExportRequest] = useState<DualControlRequest | null>(null);
   const [systemStats] = useState({
     cpuUsage: 23,
     memoryUsage: 45,
@@ -40,7 +106,6 @@ export function AdminDashboard({ blockchainState, onLogout }: AdminDashboardProp
     temperature: 42
   });
 
-  const stats = getVoteStatistics(blockchainState);
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -48,18 +113,121 @@ export function AdminDashboard({ blockchainState, onLogout }: AdminDashboardProp
     return () => clearInterval(timer);
   }, []);
 
+  const header = (
+    <header className="electoral-header px-6 py-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="flex h-12 w-12 items-center justify-center rounded-full bg-warning/20">
+            <Lock className="h-6 w-6 text-warning" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-foreground">
+              Administrator Console
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Signed in as <span className="font-mono">{adminId}</span> • {ADMIN_ROLE_LABELS[admin.role]}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="text-right">
+            <p className="text-sm font-medium text-foreground">
+              {currentTime.toLocaleDateString()}
+            </p>
+            <p className="text-sm font-mono text-muted-foreground">
+              {currentTime.toLocaleTimeString()}
+            </p>
+          </div>
+          <Button variant="outline" onClick={onLogout} className="gap-2">
+            <LogOut className="h-4 w-4" />
+            Logout
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+
+  // Until the key ceremony there is no genesis block and so no ledger
+  if (!blockchainState) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+
+        <main className="p-6 max-w-7xl mx-auto">
+          <div className="mb-6 flex items-start gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
+            <AlertTriangle className="mt-0.5 h-5 w-5 text-warning flex-shrink-0" />
+            <div className="text-sm">
+              <p className="font-medium text-warning">No Vote Ledger Yet</p>
+              <p className="text-warning/80">
+                Run the key ceremony to publish the election key. The ledger's genesis block is then minted
+                for {electionDefinition.election.name}, committing to the definition, key, trustees and validators.
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {can('key-ceremony') && (
+              <KeyCeremonyPanel
+                electionKey={electionKey}
+                onKeyPublished={onKeyPublished}
+                deviceRegistry={deviceRegistry}
+                adminId={adminId}
+              />
+            )}
+            {can('manage-devices') && (
+              <DevicePanel
+                deviceIdentity={deviceIdentity}
+                deviceRegistry={deviceRegistry}
+                onDeviceProvisioned={onDeviceProvisioned}
+                onRegistryChanged={onRegistryChanged}
+                adminId={adminId}
+              />
+            )}
+            {can('voter-roll') && <VoterRollPanel locked={false} adminId={adminId} />}
+            {can('manage-accounts') && <AdminAccountsPanel admin={admin} />}
+            {can('admin-log') && (
+              <AdminLogPanel chain={[]} deviceId={deviceIdentity?.deviceId ?? null} adminId={adminId} />
+            )}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const stats = getVoteStatistics(blockchainState);
+  const electionPhase = getElectionStatus(blockchainState.chain).phase;
+  const votingFinished = electionPhase !== 'setup' && electionPhase !== 'open';
+
   const handleValidateChain = async () => {
     setIsValidating(true);
     try {
-      const result = await validateChain(blockchainState.chain);
+      const result = await validateChain(blockchainState.chain, {
+        elgamalPublicKey: electionKey?.scheme === 'elgamal' ? electionKey.publicKey : undefined,
+        constituencies: await getAllConstituencies(),
+        difficultyPolicy: blockchainState.difficultyPolicy,
+        consensus: blockchainState.consensus,
+        devices: deviceRegistry,
+        definitionHash
+      });
       setValidationResult({ isValid: result.isValid, error: result.error });
+      await recordAdminEvent('chain-validated', adminId, {
+        result: result.isValid ? 'valid' : 'invalid',
+        blocks: blockchainState.chain.length.toString(),
+        tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash,
+        ...(result.error ? { error: result.error } : {})
+      });
     } finally {
       setIsValidating(false);
     }
   };
 
-  const handleExportAudit = () => {
+  const handleExportAudit = async (approver: string) => {
     const auditData = exportChainForAudit(blockchainState);
+    await recordAdminEvent('export', adminId, {
+      kind: 'chain summary',
+      tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash
+    }, approver);
     const blob = new Blob([auditData], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -69,238 +237,340 @@ export function AdminDashboard({ blockchainState, onLogout }: AdminDashboardProp
     URL.revokeObjectURL(url);
   };
 
-  const handleGenerateShards = () => {
-    // Generate a demo RSA private key (simulated)
-    const demoPrivateKey = generateRandomBytes(32);
-    const shards = shamirSplit(demoPrivateKey, 5, 3);
-    setShamirShards(shards.map(s => encodeShare(s)));
+  const handlePublishMerkleRoot = async () => {
+    setMerkleError(null);
+    setIsPublishingRoot(true);
+    try {
+      const { publication } = await publishBallotMerkleRoot(
+        blockchainState,
+        getRevokedDeviceIds(deviceRegistry)
+      );
+      await onMerklePublished(publication);
+      await recordAdminEvent('merkle-published', adminId, {
+        root: publication.root,
+        leafCount: publication.leafCount.toString(),
+        tipIndex: publication.tipIndex.toString()
+      });
+    } catch (err) {
+      setMerkleError(err instanceof Error ? err.message : 'Could not publish Merkle root');
+    } finally {
+      setIsPublishingRoot(false);
+    }
   };
 
   return (
     <div className="min-h-screen bg-background">
-      {/* Admin Header */}
-      <header className="electoral-header px-6 py-4">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-warning/20">
-              <Lock className="h-6 w-6 text-warning" />
-            </div>
-            <div>
-              <h1 className="text-xl font-bold text-foreground">
-                Administrator Console
-              </h1>
-              <p className="text-sm text-muted-foreground">
-                System Monitoring • Read-Only Access
-              </p>
-            </div>
-          </div>
-
-          <div className="flex items-center gap-4">
-            <div className="text-right">
-              <p className="text-sm font-medium text-foreground">
-                {currentTime.toLocaleDateString()}
-              </p>
-              <p className="text-sm font-mono text-muted-foreground">
-                {currentTime.toLocaleTimeString()}
-              </p>
-            </div>
-            <Button variant="outline" onClick={onLogout} className="gap-2">
-              <LogOut className="h-4 w-4" />
-              Logout
-            </Button>
-          </div>
-        </div>
-      </header>
+      {header}
 
       <main className="p-6 max-w-7xl mx-auto">
         {/* Quick Stats */}
-        <div className="grid gap-4 md:grid-cols-4 mb-6">
-          <StatCard
-            icon={Database}
-            label="Blockchain Blocks"
-            value={stats.totalBlocks.toString()}
-            status="normal"
-          />
-          <StatCard
-            icon={Hash}
-            label="Unique Voters"
-            value={stats.uniqueVoters.toString()}
-            status="normal"
-          />
-          <StatCard
-            icon={Shield}
-            label="Chain Integrity"
-            value={stats.chainIntegrity ? 'Valid' : 'Invalid'}
-            status={stats.chainIntegrity ? 'success' : 'error'}
-          />
-          <StatCard
-            icon={Clock}
-            label="Last Block"
-            value={stats.lastBlockTime 
-              ? new Date(stats.lastBlockTime).toLocaleTimeString() 
-              : 'No votes'
-            }
-            status="normal"
-          />
-        </div>
+        {can('system-health') && (
+          <div className="grid gap-4 md:grid-cols-4 mb-6">
+            <StatCard
+              icon={Database}
+              label="Blockchain Blocks"
+              value={stats.totalBlocks.toString()}
+              status="normal"
+            />
+            <StatCard
+              icon={Hash}
+              label="Unique Voters"
+              value={stats.uniqueVoters.toString()}
+              status="normal"
+            />
+            <StatCard
+              icon={Shield}
+              label="Chain Integrity"
+              value={stats.chainIntegrity ? 'Valid' : 'Invalid'}
+              status={stats.chainIntegrity ? 'success' : 'error'}
+            />
+            <StatCard
+              icon={Clock}
+              label="Last Block"
+              value={stats.lastBlockTime 
+                ? new Date(stats.lastBlockTime).toLocaleTimeString() 
+                : 'No votes'
+              }
+              status="normal"
+            />
+          </div>
+        )}
 
         <div className="grid gap-6 lg:grid-cols-2">
           {/* System Health */}
-          <div className="electoral-card">
-            <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
-              <Cpu className="h-5 w-5 text-primary" />
-              System Health
-            </h3>
+          {can('system-health') && (
+            <div className="electoral-card">
+              <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+                <Cpu className="h-5 w-5 text-primary" />
+                System Health
+              </h3>
             
-            <div className="space-y-4">
-              <HealthBar label="CPU Usage" value={systemStats.cpuUsage} />
-              <HealthBar label="Memory" value={systemStats.memoryUsage} />
-              <HealthBar label="Disk Space" value={systemStats.diskUsage} />
+              <div className="space-y-4">
+                <HealthBar label="CPU Usage" value={systemStats.cpuUsage} />
+                <HealthBar label="Memory" value={systemStats.memoryUsage} />
+                <HealthBar label="Disk Space" value={systemStats.diskUsage} />
               
-              <div className="grid grid-cols-3 gap-4 pt-4 border-t border-border">
-                <div className="text-center">
-                  <Battery className="h-5 w-5 mx-auto mb-1 text-success" />
-                  <p className="text-sm font-medium">{systemStats.batteryLevel}%</p>
-                  <p className="text-xs text-muted-foreground">Battery</p>
-                </div>
-                <div className="text-center">
-                  <Clock className="h-5 w-5 mx-auto mb-1 text-primary" />
-                  <p className="text-sm font-medium">{systemStats.uptime}</p>
-                  <p className="text-xs text-muted-foreground">Uptime</p>
-                </div>
-                <div className="text-center">
-                  <Cpu className="h-5 w-5 mx-auto mb-1 text-warning" />
-                  <p className="text-sm font-medium">{systemStats.temperature}°C</p>
-                  <p className="text-xs text-muted-foreground">Temp</p>
+                <div className="grid grid-cols-3 gap-4 pt-4 border-t border-border">
+                  <div className="text-center">
+                    <Battery className="h-5 w-5 mx-auto mb-1 text-success" />
+                    <p className="text-sm font-medium">{systemStats.batteryLevel}%</p>
+                    <p className="text-xs text-muted-foreground">Battery</p>
+                  </div>
+                  <div className="text-center">
+                    <Clock className="h-5 w-5 mx-auto mb-1 text-primary" />
+                    <p className="text-sm font-medium">{systemStats.uptime}</p>
+                    <p className="text-xs text-muted-foreground">Uptime</p>
+                  </div>
+                  <div className="text-center">
+                    <Cpu className="h-5 w-5 mx-auto mb-1 text-warning" />
+                    <p className="text-sm font-medium">{systemStats.temperature}°C</p>
+                    <p className="text-xs text-muted-foreground">Temp</p>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Blockchain Status */}
-          <div className="electoral-card">
-            <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
-              <Link2 className="h-5 w-5 text-primary" />
-              Blockchain Integrity
-            </h3>
-
-            <div className="space-y-4">
-              {/* Latest Block Info */}
-              {blockchainState.chain.length > 1 && (
+          {can('validate-chain') && (
+            <div className="electoral-card">
+              <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+                <Link2 className="h-5 w-5 text-primary" />
+                Blockchain Integrity
+              </h3>
+
+              <div className="space-y-4">
+                {/* Startup Recovery */}
+                {recoveryReport && (recoveryReport.discardedBlocks > 0 || !recoveryReport.chainValid) && (
+                  <div className="flex items-start gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
+                    <AlertTriangle className="mt-0.5 h-5 w-5 text-warning flex-shrink-0" />
+                    <div className="text-sm">
+                      <p className="font-medium text-warning">Ledger Recovered at Startup</p>
+                      <p className="text-warning/80">
+                        {recoveryReport.recoveredBlocks} blocks restored, {recoveryReport.discardedBlocks} incomplete
+                        block{recoveryReport.discardedBlocks !== 1 ? 's' : ''} discarded.
+                        {recoveryReport.error && ` ${recoveryReport.error}.`}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {/* Latest Block Info */}
+                {blockchainState.chain.length > 1 && (
+                  <div className="rounded-lg border border-border bg-secondary/30 p-4">
+                    <p className="text-xs font-medium text-muted-foreground mb-2">
+                      Latest Block Hash
+                    </p>
+                    <p className="blockchain-hash text-xs">
+                      {blockchainState.chain[blockchainState.chain.length - 1].hash}
+                    </p>
+                  </div>
+                )}
+
+                {/* Validation Result */}
+                {validationResult && (
+                  <div className={`flex items-center gap-3 rounded-lg p-4 ${
+                    validationResult.isValid 
+                      ? 'bg-success/10 border border-success/30' 
+                      : 'bg-destructive/10 border border-destructive/30'
+                  }`}>
+                    {validationResult.isValid ? (
+                      <>
+                        <CheckCircle className="h-5 w-5 text-success" />
+                        <span className="font-medium text-success">
+                          Chain integrity verified - No tampering detected
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <AlertTriangle className="h-5 w-5 text-destructive" />
+                        <span className="font-medium text-destructive">
+                          {validationResult.error}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Actions */}
+                <div className="flex gap-3">
+                  <Button
+                    variant="electoral-outline"
+                    onClick={handleValidateChain}
+                    disabled={isValidating}
+                    className="flex-1 gap-2"
+                  >
+                    {isValidating ? (
+                      <>
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                        Validating...
+                      </>
+                    ) : (
+                      <>
+                        <Shield className="h-4 w-4" />
+                        Validate Chain
+                      </>
+                    )}
+                  </Button>
+                  {can('export-audit') && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setExportRequest(requestDualControl('export-chain', adminId))}
+                      disabled={!!exportRequest}
+                      className="flex-1 gap-2"
+                    >
+                      <FileText className="h-4 w-4" />
+                      Export Audit Log
+                    </Button>
+                  )}
+                </div>
+                {exportRequest && (
+                  <DualApprovalPrompt
+                    request={exportRequest}
+                    details={() => ({ tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash })}
+                    onApproved={async (authorisation) => {
+                      setExportRequest(null);
+                      await handleExportAudit(authorisation.approver);
+                    }}
+                    onCancel={() => setExportRequest(null)}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Election Lifecycle */}
+          {can('manage-election') && (
+            <ElectionPanel
+              blockchainState={blockchainState}
+              election={getElectionSchedule(electionDefinition)}
+              onPhaseRecorded={onPhaseRecorded}
+              deviceIdentity={deviceIdentity}
+              deviceRegistry={deviceRegistry}
+              adminId={adminId}
+            />
+          )}
+
+          {/* Election Key Ceremony */}
+          {can('key-ceremony') && (
+            <KeyCeremonyPanel
+              electionKey={electionKey}
+              onKeyPublished={onKeyPublished}
+              deviceRegistry={deviceRegistry}
+              adminId={adminId}
+            />
+          )}
+
+          {/* Counted-Ballot Merkle Root */}
+          {can('manage-election') && (
+            <div className="electoral-card lg:col-span-2">
+              <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+                <GitBranch className="h-5 w-5 text-primary" />
+                Counted-Ballot Merkle Root
+              </h3>
+
+              {merkleError && (
+                <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+                  <AlertTriangle className="h-5 w-5 text-destructive" />
+                  <span className="font-medium text-destructive">{merkleError}</span>
+                </div>
+              )}
+
+              {merklePublication ? (
                 <div className="rounded-lg border border-border bg-secondary/30 p-4">
                   <p className="text-xs font-medium text-muted-foreground mb-2">
-                    Latest Block Hash
+                    Published Root ({merklePublication.leafCount} counted ballots, up to block{' '}
+                    #{merklePublication.tipIndex}, closed {new Date(merklePublication.closedAt).toLocaleString()})
                   </p>
-                  <p className="blockchain-hash text-xs">
-                    {blockchainState.chain[blockchainState.chain.length - 1].hash}
+                  <p className="blockchain-hash text-xs">{merklePublication.root}</p>
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    Closing the counted set publishes a Merkle root over the last vote of each voter.
+                    Voters can then verify their receipts against it.
+                    {!votingFinished && ' Available once voting has closed.'}
                   </p>
+                  <Button
+                    variant="outline"
+                    onClick={handlePublishMerkleRoot}
+                    disabled={!votingFinished || isPublishingRoot}
+                    className="gap-2"
+                  >
+                    {isPublishingRoot ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <GitBranch className="h-4 w-4" />
+                    )}
+                    Close Counted Set & Publish Root
+                  </Button>
                 </div>
               )}
+            </div>
+          )}
 
-              {/* Validation Result */}
-              {validationResult && (
-                <div className={`flex items-center gap-3 rounded-lg p-4 ${
-                  validationResult.isValid 
-                    ? 'bg-success/10 border border-success/30' 
-                    : 'bg-destructive/10 border border-destructive/30'
-                }`}>
-                  {validationResult.isValid ? (
-                    <>
-                      <CheckCircle className="h-5 w-5 text-success" />
-                      <span className="font-medium text-success">
-                        Chain integrity verified - No tampering detected
-                      </span>
-                    </>
-                  ) : (
-                    <>
-                      <AlertTriangle className="h-5 w-5 text-destructive" />
-                      <span className="font-medium text-destructive">
-                        {validationResult.error}
-                      </span>
-                    </>
-                  )}
-                </div>
-              )}
+          {/* Kiosk Devices */}
+          {can('manage-devices') && (
+            <DevicePanel
+              deviceIdentity={deviceIdentity}
+              deviceRegistry={deviceRegistry}
+              onDeviceProvisioned={onDeviceProvisioned}
+              onRegistryChanged={onRegistryChanged}
+              adminId={adminId}
+            />
+          )}
 
-              {/* Actions */}
-              <div className="flex gap-3">
-                <Button
-                  variant="electoral-outline"
-                  onClick={handleValidateChain}
-                  disabled={isValidating}
-                  className="flex-1 gap-2"
-                >
-                  {isValidating ? (
-                    <>
-                      <RefreshCw className="h-4 w-4 animate-spin" />
-                      Validating...
-                    </>
-                  ) : (
-                    <>
-                      <Shield className="h-4 w-4" />
-                      Validate Chain
-                    </>
-                  )}
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={handleExportAudit}
-                  className="flex-1 gap-2"
-                >
-                  <FileText className="h-4 w-4" />
-                  Export Audit Log
-                </Button>
-              </div>
-            </div>
-          </div>
+          {/* Voter Roll */}
+          {can('voter-roll') && (
+            <VoterRollPanel locked={electionPhase !== 'setup'} adminId={adminId} />
+          )}
 
-          {/* Shamir Key Shards */}
-          <div className="electoral-card lg:col-span-2">
-            <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
-              <Lock className="h-5 w-5 text-warning" />
-              Shamir Secret Sharing - Key Recovery
-            </h3>
-
-            <div className="mb-4 flex items-start gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
-              <AlertTriangle className="mt-0.5 h-5 w-5 text-warning flex-shrink-0" />
-              <div className="text-sm">
-                <p className="font-medium text-warning">Quorum Required for Decryption</p>
-                <p className="text-warning/80">
-                  Vote results can only be decrypted when 3 of 5 key holders provide their shards.
-                  This ensures no single administrator can access vote counts.
-                </p>
-              </div>
-            </div>
+          {/* Verifiable Audit */}
+          {can('export-audit') && (
+            <AuditPanel
+              blockchainState={blockchainState}
+              electionKey={electionKey}
+              deviceRegistry={deviceRegistry}
+              electionDefinition={electionDefinition}
+              adminId={adminId}
+            />
+          )}
 
-            {!shamirShards ? (
-              <Button
-                variant="warning"
-                onClick={handleGenerateShards}
-                className="gap-2"
-              >
-                <Lock className="h-4 w-4" />
-                Generate Demo Key Shards (3-of-5)
-              </Button>
-            ) : (
-              <div className="space-y-3">
-                <p className="text-sm text-muted-foreground">
-                  The following shards would be distributed to 5 separate key holders:
-                </p>
-                <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
-                  {shamirShards.map((shard, i) => (
-                    <div key={i} className="rounded-lg border border-border bg-secondary/30 p-3">
-                      <p className="text-xs font-medium text-muted-foreground mb-1">
-                        Key Holder {i + 1}
-                      </p>
-                      <p className="blockchain-hash text-xs truncate" title={shard}>
-                        {shard}
-                      </p>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
+          {/* Offline Aggregation */}
+          {can('aggregate') && (
+            <AggregationPanel
+              blockchainState={blockchainState}
+              electionKey={electionKey}
+              deviceIdentity={deviceIdentity}
+              deviceRegistry={deviceRegistry}
+              definitionHash={definitionHash}
+              adminId={adminId}
+            />
+          )}
+
+          {/* Quorum Tally */}
+          {can('tally') && (
+            <TallyPanel
+              blockchainState={blockchainState}
+              electionKey={electionKey}
+              deviceRegistry={deviceRegistry}
+              definitionHash={definitionHash}
+              votingFinished={votingFinished}
+              adminId={adminId}
+            />
+          )}
+
+          {/* Administrator Accounts */}
+          {can('manage-accounts') && <AdminAccountsPanel admin={admin} />}
+
+          {/* Admin Event Log */}
+          {can('admin-log') && (
+            <AdminLogPanel
+              chain={blockchainState.chain}
+              deviceId={deviceIdentity?.deviceId ?? null}
+              adminId={adminId}
+            />
+          )}
         </div>
 
         {/* Security Notice */}
@@ -311,7 +581,8 @@ export function AdminDashboard({ blockchainState, onLogout }: AdminDashboardProp
             <p>
               This console provides system monitoring capabilities only. Vote contents are encrypted 
               and cannot be viewed. Decryption requires a quorum of key holders with Shamir shards.
-              All administrative actions are logged for audit purposes.
+              Administrative actions are recorded in a hash-chained admin log that can be exported
+              and verified.
             </p>
           </div>
         </div>
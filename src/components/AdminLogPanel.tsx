@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { ScrollText, FileSignature, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import {
+  ADMIN_EVENT_LABELS,
+  createAdminLogExport,
+  getAdminLogAnchors,
+  recordAdminEvent,
+  verifyAdminLog,
+  type AdminLogEntry
+} from '@/lib/admin-log';
+import { createAuditSigningKey } from '@/lib/audit';
+import { loadAdminLog, loadAuditSigningKey, saveAuditSigningKey } from '@/lib/storage';
+import type { Block } from '@/lib/blockchain';
+
+interface AdminLogPanelProps {
+  chain: Block[];          // Empty until the key ceremony
+  deviceId: string | null; // This kiosk, whose phase blocks anchor the log
+  adminId: string;
+}
+
+const SHOWN_ENTRIES = 25;
+
+function downloadText(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function AdminLogPanel({ chain, deviceId, adminId }: AdminLogPanelProps) {
+  const [entries, setEntries] = useState<AdminLogEntry[]>([]);
+  const [verification, setVerification] = useState<{ isValid: boolean; error: string | null } | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const log = await loadAdminLog();
+    setEntries(log);
+    setVerification(await verifyAdminLog(log, deviceId ? getAdminLogAnchors(chain, deviceId) : []));
+  }, [chain, deviceId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleExport = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      let signingKey = await loadAuditSigningKey(adminId);
+      if (!signingKey) {
+        signingKey = await createAuditSigningKey(adminId);
+        await saveAuditSigningKey(signingKey);
+      }
+
+      // Recorded first, so the exported log includes its own export
+      const tip = await recordAdminEvent('export', adminId, { kind: 'admin log' });
+      const log = await loadAdminLog();
+      const { file, signature } = await createAdminLogExport(log.slice(0, tip.index + 1), deviceId, signingKey);
+
+      const filename = `admin-log-${new Date().toISOString().split('T')[0]}.json`;
+      downloadText(file, filename);
+      downloadText(signature, `${filename}.sig`);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Admin log export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const newestFirst = [...entries].reverse();
+  const shown = showAll ? newestFirst : newestFirst.slice(0, SHOWN_ENTRIES);
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <ScrollText className="h-5 w-5 text-primary" />
+        Admin Event Log
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      {verification && (
+        <div className={`mb-4 flex items-center gap-3 rounded-lg p-4 ${
+          verification.isValid
+            ? 'bg-success/10 border border-success/30'
+            : 'bg-destructive/10 border border-destructive/30'
+        }`}>
+          {verification.isValid ? (
+            <>
+              <CheckCircle className="h-5 w-5 text-success" />
+              <span className="font-medium text-success">
+                {entries.length} entries, hash chain intact
+              </span>
+            </>
+          ) : (
+            <>
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              <span className="font-medium text-destructive">{verification.error}</span>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Sign-ins, approvals, exports, key and roll changes, phase changes and the tally, in a hash chain
+          kept next to the vote ledger. Exports are signed by{' '}
+          <span className="font-mono text-foreground">{adminId}</span> and can be checked with the chain
+          verifier CLI.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={isBusy} className="gap-1">
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={isBusy} className="gap-2">
+            {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <FileSignature className="h-4 w-4" />}
+            Export Signed Log
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {shown.map(entry => (
+          <div key={entry.index} className="rounded-lg border border-border bg-secondary/30 p-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <span className="font-mono text-muted-foreground">#{entry.index}</span>
+                <span className="ml-2 font-medium text-foreground">{ADMIN_EVENT_LABELS[entry.type] ?? entry.type}</span>
+                <span className="ml-2 font-mono text-foreground">{entry.actor}</span>
+                {entry.approver && (
+                  <span className="ml-2 text-muted-foreground">
+                    approved by <span className="font-mono text-foreground">{entry.approver}</span>
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</span>
+            </div>
+            {Object.keys(entry.details).length > 0 && (
+              <p className="mt-1 break-all font-mono text-xs text-muted-foreground">
+                {Object.entries(entry.details).map(([key, value]) => `${key}: ${value}`).join(' · ')}
+              </p>
+            )}
+            <p className="blockchain-hash mt-1 text-xs">{entry.hash.substring(0, 32)}...</p>
+          </div>
+        ))}
+        {entries.length === 0 && (
+          <p className="text-sm text-muted-foreground">No administrative events recorded yet.</p>
+        )}
+      </div>
+
+      {entries.length > SHOWN_ENTRIES && (
+        <Button variant="link" size="sm" onClick={() => setShowAll(!showAll)} className="mt-2 px-0">
+          {showAll ? 'Show latest only' : `Show all ${entries.length} entries`}
+        </Button>
+      )}
+    </div>
+  );
+}
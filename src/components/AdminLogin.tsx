@@ -1,19 +1,35 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Shield, AlertCircle, Eye, EyeOff, Lock } from 'lucide-react';
-import { authenticateAdmin } from '@/lib/database';
+import { Shield, AlertCircle, Eye, EyeOff, Lock, UserPlus } from 'lucide-react';
+import {
+  authenticateAdmin,
+  createAdminAccount,
+  hasAdminAccounts,
+  MIN_ADMIN_PASSWORD_LENGTH,
+  type AdminSession
+} from '@/lib/admin-accounts';
 
 interface AdminLoginProps {
-  onAuthenticated: () => void;
+  onAuthenticated: (session: AdminSession) => void;
   onCancel: () => void;
 }
 
 export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // First-time setup when the kiosk has no accounts yet
+  const [isSetup, setIsSetup] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    hasAdminAccounts()
+      .then(exists => setIsSetup(!exists))
+      .catch(() => setError('Authentication system error'));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,15 +37,25 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
     setIsLoading(true);
 
     try {
-      const isValid = await authenticateAdmin(username, password);
+      if (isSetup) {
+        if (password !== confirmPassword) {
+          setError('Passwords do not match');
+          return;
+        }
+        onAuthenticated(await createAdminAccount(username, password, 'presiding-officer', null));
+        return;
+      }
+
+      const result = await authenticateAdmin(username, password);
       
-      if (isValid) {
-        onAuthenticated();
+      if (result.success && result.session) {
+        onAuthenticated(result.session);
       } else {
-        setError('Invalid administrator credentials');
+        setError(result.error || 'Invalid administrator credentials');
+        setAttemptsRemaining(result.attemptsRemaining ?? null);
       }
     } catch (err) {
-      setError('Authentication system error');
+      setError(isSetup && err instanceof Error ? err.message : 'Authentication system error');
     } finally {
       setIsLoading(false);
     }
@@ -44,9 +70,13 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
             <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-warning/20">
               <Lock className="h-8 w-8 text-warning" />
             </div>
-            <h2 className="text-2xl font-bold text-foreground">Administrator Access</h2>
+            <h2 className="text-2xl font-bold text-foreground">
+              {isSetup ? 'First-Time Setup' : 'Administrator Access'}
+            </h2>
             <p className="mt-2 text-muted-foreground">
-              Authorized personnel only
+              {isSetup
+                ? 'Create the presiding officer account. Other officials are given accounts from the console.'
+                : 'Authorized personnel only'}
             </p>
           </div>
 
@@ -66,7 +96,14 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
           {error && (
             <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4 animate-slide-up">
               <AlertCircle className="h-5 w-5 text-destructive" />
-              <p className="font-medium text-destructive">{error}</p>
+              <div>
+                <p className="font-medium text-destructive">{error}</p>
+                {attemptsRemaining !== null && attemptsRemaining > 0 && (
+                  <p className="text-sm text-destructive/80">
+                    {attemptsRemaining} attempt{attemptsRemaining !== 1 ? 's' : ''} remaining before lockout
+                  </p>
+                )}
+              </div>
             </div>
           )}
 
@@ -84,7 +121,7 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
                 type="text"
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
-                placeholder="Enter admin username"
+                placeholder={isSetup ? 'Choose a username' : 'Enter admin username'}
                 className="secure-input"
                 autoComplete="off"
                 autoFocus
@@ -104,7 +141,7 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
                   type={showPassword ? 'text' : 'password'}
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter password"
+                  placeholder={isSetup ? `At least ${MIN_ADMIN_PASSWORD_LENGTH} characters` : 'Enter password'}
                   className="secure-input pr-12"
                   autoComplete="off"
                 />
@@ -118,6 +155,26 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
               </div>
             </div>
 
+            {isSetup && (
+              <div>
+                <label 
+                  htmlFor="confirm-password" 
+                  className="mb-2 block text-sm font-medium text-foreground"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  id="confirm-password"
+                  type={showPassword ? 'text' : 'password'}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder="Re-enter password"
+                  className="secure-input"
+                  autoComplete="off"
+                />
+              </div>
+            )}
+
             <div className="flex gap-4 pt-2">
               <Button
                 type="button"
@@ -133,13 +190,18 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
                 variant="warning"
                 size="lg"
                 className="flex-1 gap-2"
-                disabled={!username || !password || isLoading}
+                disabled={!username || !password || isLoading || isSetup === null}
               >
                 {isLoading ? (
                   <>
                     <div className="h-5 w-5 animate-spin rounded-full border-2 border-current border-t-transparent" />
                     Verifying...
                   </>
+                ) : isSetup ? (
+                  <>
+                    <UserPlus className="h-5 w-5" />
+                    Create Account
+                  </>
                 ) : (
                   <>
                     <Shield className="h-5 w-5" />
@@ -149,13 +211,6 @@ export function AdminLogin({ onAuthenticated, onCancel }: AdminLoginProps) {
               </Button>
             </div>
           </form>
-
-          {/* Demo Hint */}
-          <div className="mt-6 pt-6 border-t border-border text-center">
-            <p className="text-xs text-muted-foreground">
-              Demo credentials: <code className="bg-secondary px-1 rounded">admin</code> / <code className="bg-secondary px-1 rounded">electoral2024</code>
-            </p>
-          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Usb, Download, Upload, AlertTriangle, CheckCircle, RefreshCw, RotateCcw } from 'lucide-react';
+import type { BlockchainState } from '@/lib/blockchain';
+import type { PublishedElectionKey } from '@/lib/key-ceremony';
+import { getAllConstituencies, type Constituency } from '@/lib/database';
+import { getRevokedDeviceIds, type AuthorisedDevice, type DeviceIdentity } from '@/lib/devices';
+import { DualApprovalPrompt } from '@/components/DualApprovalPrompt';
+import { requestDualControl, type DualControlRequest } from '@/lib/dual-control';
+import { recordAdminEvent } from '@/lib/admin-log';
+import {
+  createChainBundle,
+  createAggregatedLedger,
+  importChainBundles,
+  getMergedCountedBallots,
+  type AggregatedLedger,
+  type BundleImportReport
+} from '@/lib/bundle';
+
+interface AggregationPanelProps {
+  blockchainState: BlockchainState;
+  electionKey: PublishedElectionKey | null;
+  deviceIdentity: DeviceIdentity | null;
+  deviceRegistry: AuthorisedDevice[];
+  definitionHash: string;
+  adminId: string;
+}
+
+export function AggregationPanel({
+  blockchainState,
+  electionKey,
+  deviceIdentity,
+  deviceRegistry,
+  definitionHash,
+  adminId
+}: AggregationPanelProps) {
+  const [constituencies, setConstituencies] = useState<Constituency[]>([]);
+  const [constituencyId, setConstituencyId] = useState('');
+  const [ledger, setLedger] = useState<AggregatedLedger>(() => createAggregatedLedger());
+  const [report, setReport] = useState<BundleImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportRequest, setExportRequest] = useState<DualControlRequest | null>(null);
+
+  useEffect(() => {
+    getAllConstituencies().then(setConstituencies);
+  }, []);
+
+  const kioskCount = Object.keys(ledger.chains).length;
+  const countedBallots = getMergedCountedBallots(ledger, getRevokedDeviceIds(deviceRegistry)).length;
+
+  const handleExport = async (approver: string) => {
+    if (!deviceIdentity) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const bundle = await createChainBundle(blockchainState, {
+        deviceId: deviceIdentity.deviceId,
+        privateKey: deviceIdentity.privateKey
+      });
+      await recordAdminEvent('export', adminId, {
+        kind: 'chain bundle',
+        deviceId: deviceIdentity.deviceId,
+        tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash
+      }, approver);
+      const blob = new Blob([bundle], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `chain-bundle-${deviceIdentity.deviceId}-${new Date().toISOString().split('T')[0]}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      const files = await Promise.all(
+        Array.from(fileList).map(async file => ({ name: file.name, content: await file.text() }))
+      );
+      const result = await importChainBundles(ledger, files, {
+        devices: deviceRegistry,
+        validation: {
+          elgamalPublicKey: electionKey?.scheme === 'elgamal' ? electionKey.publicKey : undefined,
+          constituencies,
+          definitionHash
+        }
+      });
+      setLedger(result.ledger);
+      setReport(result.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = (nextConstituencyId: string) => {
+    setConstituencyId(nextConstituencyId);
+    setLedger(createAggregatedLedger(nextConstituencyId || null));
+    setReport(null);
+  };
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Usb className="h-5 w-5 text-primary" />
+        Offline Chain Bundles - Export & Aggregation
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Export this kiosk's full chain, signed with its device key, for transfer by removable media.
+        </p>
+        <Button
+          variant="outline"
+          onClick={() => setExportRequest(requestDualControl('export-chain', adminId))}
+          disabled={!deviceIdentity || isBusy || !!exportRequest}
+          className="gap-2"
+        >
+          <Download className="h-4 w-4" />
+          Export Signed Bundle
+        </Button>
+      </div>
+
+      {exportRequest && (
+        <div className="mb-6">
+          <DualApprovalPrompt
+            request={exportRequest}
+            details={() => ({
+              tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash,
+              deviceId: deviceIdentity?.deviceId ?? ''
+            })}
+            onApproved={async (authorisation) => {
+              setExportRequest(null);
+              await handleExport(authorisation.approver);
+            }}
+            onCancel={() => setExportRequest(null)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-4 border-t border-border pt-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="aggregation-constituency" className="mb-1 block text-xs font-medium text-muted-foreground">
+              Constituency Ledger
+            </label>
+            <select
+              id="aggregation-constituency"
+              value={constituencyId}
+              onChange={(e) => handleReset(e.target.value)}
+              className="secure-input w-64 text-sm"
+            >
+              <option value="">All constituencies</option>
+              {constituencies.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept="application/json,.json"
+              multiple
+              className="hidden"
+              disabled={isBusy}
+              onChange={(e) => {
+                handleImport(e.target.files);
+                e.target.value = '';
+              }}
+            />
+            <span className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-input bg-background px-4 py-2 text-sm font-medium hover:bg-accent">
+              {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Import Bundles
+            </span>
+          </label>
+          <Button variant="ghost" onClick={() => handleReset(constituencyId)} className="gap-2">
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </Button>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {kioskCount} kiosk chain{kioskCount !== 1 ? 's' : ''} merged •{' '}
+          <strong className="text-foreground">{countedBallots}</strong> counted ballots
+        </p>
+
+        {report && (
+          <div className="space-y-3 text-sm">
+            {report.accepted.map((entry, i) => (
+              <div key={`accepted-${i}`} className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-success" />
+                <span className="text-foreground">
+                  {entry.deviceId}: {entry.newBlocks} new block{entry.newBlocks !== 1 ? 's' : ''} from #{entry.fromIndex}
+                </span>
+              </div>
+            ))}
+            {report.rejected.map((entry, i) => (
+              <div key={`rejected-${i}`} className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <span className="text-destructive">{entry.source}: {entry.error}</span>
+              </div>
+            ))}
+            {report.duplicateBlocks > 0 && (
+              <p className="text-muted-foreground">
+                {report.duplicateBlocks} duplicate block{report.duplicateBlocks !== 1 ? 's' : ''} skipped
+              </p>
+            )}
+            {report.gaps.map((gap, i) => (
+              <p key={`gap-${i}`} className="text-warning">
+                Gap in {gap.deviceId}: need block #{gap.expectedIndex}, bundle starts at #{gap.receivedIndex}
+              </p>
+            ))}
+            {report.missingDevices.length > 0 && (
+              <p className="text-warning">
+                No bundle yet from: {report.missingDevices.join(', ')}
+              </p>
+            )}
+            {report.conflictingVotes.length > 0 && (
+              <div className="rounded-lg border border-warning/30 bg-warning/10 p-3">
+                <p className="font-medium text-warning mb-1">
+                  {report.conflictingVotes.length} voter{report.conflictingVotes.length !== 1 ? 's' : ''} voted on more than one kiosk
+                </p>
+                {report.conflictingVotes.map(conflict => (
+                  <p key={conflict.voterHash} className="font-mono text-xs text-warning/80">
+                    {conflict.voterHash.substring(0, 16)}...: {conflict.ballots.map(b => b.deviceId).join(', ')}
+                    {' '}→ counted {conflict.countedHash.substring(0, 12)}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileCheck, FileSignature, AlertTriangle, CheckCircle, RefreshCw, Upload } from 'lucide-react';
+import type { BlockchainState } from '@/lib/blockchain';
+import type { PublishedElectionKey } from '@/lib/key-ceremony';
+import type { AuthorisedDevice } from '@/lib/devices';
+import type { ElectionDefinition } from '@/lib/election-definition';
+import { DualApprovalPrompt } from '@/components/DualApprovalPrompt';
+import { requestDualControl, type DualControlRequest } from '@/lib/dual-control';
+import { loadAuditSigningKey, saveAuditSigningKey } from '@/lib/storage';
+import { recordAdminEvent } from '@/lib/admin-log';
+import {
+  createAuditSigningKey,
+  createAuditExport,
+  verifyAuditExport,
+  auditKeyFingerprint,
+  type AuditVerification
+} from '@/lib/audit';
+
+interface AuditPanelProps {
+  blockchainState: BlockchainState;
+  electionKey: PublishedElectionKey | null;
+  deviceRegistry: AuthorisedDevice[];
+  electionDefinition: ElectionDefinition;
+  adminId: string;
+}
+
+function downloadText(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function AuditPanel({
+  blockchainState,
+  electionKey,
+  deviceRegistry,
+  electionDefinition,
+  adminId
+}: AuditPanelProps) {
+  const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null);
+  const [auditFile, setAuditFile] = useState<File | null>(null);
+  const [signatureFile, setSignatureFile] = useState<File | null>(null);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportRequest, setExportRequest] = useState<DualControlRequest | null>(null);
+
+  useEffect(() => {
+    loadAuditSigningKey(adminId).then(async key => {
+      setKeyFingerprint(key ? await auditKeyFingerprint(key.publicKey) : null);
+    });
+  }, [adminId]);
+
+  const handleExport = async (approver: string) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      let signingKey = await loadAuditSigningKey(adminId);
+      if (!signingKey) {
+        signingKey = await createAuditSigningKey(adminId);
+        await saveAuditSigningKey(signingKey);
+        setKeyFingerprint(await auditKeyFingerprint(signingKey.publicKey));
+      }
+
+      const { file, signature } = await createAuditExport(
+        blockchainState,
+        {
+          electionKey,
+          devices: deviceRegistry,
+          electionDefinition
+        },
+        signingKey
+      );
+
+      await recordAdminEvent('export', adminId, {
+        kind: 'signed audit',
+        tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash,
+        signerFingerprint: await auditKeyFingerprint(signingKey.publicKey)
+      }, approver);
+
+      const filename = `electoral-audit-full-${new Date().toISOString().split('T')[0]}.json`;
+      downloadText(file, filename);
+      downloadText(signature, `${filename}.sig`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Audit export failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!auditFile || !signatureFile) return;
+    setError(null);
+    setVerification(null);
+    setIsBusy(true);
+    try {
+      setVerification(await verifyAuditExport(await auditFile.text(), await signatureFile.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const passed = verification?.signatureValid && verification.manifestValid && verification.chainValid;
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <FileSignature className="h-5 w-5 text-primary" />
+        Verifiable Audit Export
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="text-sm text-muted-foreground">
+          <p>
+            Full block data with a manifest, signed by <span className="font-mono text-foreground">{adminId}</span>.
+            The signature is saved as a separate .sig file.
+          </p>
+          <p className="mt-1 text-xs">
+            Signing key fingerprint:{' '}
+            <span className="font-mono text-foreground">{keyFingerprint ?? 'created on first export'}</span>
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setExportRequest(requestDualControl('export-chain', adminId))}
+          disabled={isBusy || !!exportRequest}
+          className="gap-2"
+        >
+          <FileSignature className="h-4 w-4" />
+          Export Signed Audit
+        </Button>
+      </div>
+
+      {exportRequest && (
+        <div className="mb-6">
+          <DualApprovalPrompt
+            request={exportRequest}
+            details={() => ({ tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash })}
+            onApproved={async (authorisation) => {
+              setExportRequest(null);
+              await handleExport(authorisation.approver);
+            }}
+            onCancel={() => setExportRequest(null)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-4 border-t border-border pt-4">
+        <p className="text-sm font-medium text-foreground">Verify Audit File</p>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => setAuditFile(e.target.files?.[0] ?? null)}
+            />
+            <span className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-input bg-background px-4 py-2 text-sm font-medium hover:bg-accent">
+              <Upload className="h-4 w-4" />
+              {auditFile?.name ?? 'Audit file'}
+            </span>
+          </label>
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept=".sig,application/json"
+              className="hidden"
+              onChange={(e) => setSignatureFile(e.target.files?.[0] ?? null)}
+            />
+            <span className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-input bg-background px-4 py-2 text-sm font-medium hover:bg-accent">
+              <Upload className="h-4 w-4" />
+              {signatureFile?.name ?? 'Signature file'}
+            </span>
+          </label>
+          <Button
+            variant="outline"
+            onClick={handleVerify}
+            disabled={!auditFile || !signatureFile || isBusy}
+            className="gap-2"
+          >
+            {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <FileCheck className="h-4 w-4" />}
+            Verify
+          </Button>
+        </div>
+
+        {verification && (
+          <div className={`rounded-lg border p-4 text-sm ${
+            passed ? 'border-success/30 bg-success/10' : 'border-destructive/30 bg-destructive/10'
+          }`}>
+            <div className="mb-2 flex items-center gap-2">
+              {passed ? (
+                <CheckCircle className="h-5 w-5 text-success" />
+              ) : (
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+              )}
+              <span className={`font-medium ${passed ? 'text-success' : 'text-destructive'}`}>
+                {passed ? 'Audit file verified' : 'Audit file failed verification'}
+              </span>
+            </div>
+            <div className="space-y-1 text-muted-foreground">
+              <p>
+                Signature: {verification.signatureValid ? 'valid' : 'invalid'}
+                {verification.signerId && ` • signed by ${verification.signerId}`}
+                {verification.signerFingerprint && ` (key ${verification.signerFingerprint})`}
+              </p>
+              <p>Manifest: {verification.manifestValid ? 'matches blocks' : 'does not match blocks'}</p>
+              <p>
+                Chain: {verification.chainValid ? 'valid' : 'invalid'} • {verification.blockCount} blocks
+                {verification.tipHash && ` • tip ${verification.tipHash.substring(0, 16)}...`}
+              </p>
+              {verification.errors.map((message, i) => (
+                <p key={i} className="text-destructive">{message}</p>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
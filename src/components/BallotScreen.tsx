@@ -1,15 +1,23 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Check, ChevronRight, AlertTriangle, Info } from 'lucide-react';
+import { Check, ChevronRight, AlertTriangle, Info, CheckCircle } from 'lucide-react';
 import type { Constituency, Candidate } from '@/lib/database';
 
 interface BallotScreenProps {
   constituency: Constituency;
   onVoteSelected: (candidate: Candidate) => void;
   onCancel: () => void;
+  recordedNotice?: string | null; // A vote recorded after the voter went back
+  onViewReceipt?: () => void;
 }
 
-export function BallotScreen({ constituency, onVoteSelected, onCancel }: BallotScreenProps) {
+export function BallotScreen({
+  constituency,
+  onVoteSelected,
+  onCancel,
+  recordedNotice,
+  onViewReceipt
+}: BallotScreenProps) {
   const [selectedCandidate, setSelectedCandidate] = useState<Candidate | null>(null);
 
   const handleProceed = () => {
@@ -18,21 +26,6 @@ export function BallotScreen({ constituency, onVoteSelected, onCancel }: BallotS
     }
   };
 
-  // Generate consistent party colors
-  const getPartyColor = (party: string): string => {
-    const colors: Record<string, string> = {
-      'Progressive Alliance': 'hsl(217 91% 60%)',
-      'Unity Coalition': 'hsl(142 76% 36%)',
-      'Civic Reform Party': 'hsl(38 92% 50%)',
-      'Independent': 'hsl(215 20% 55%)',
-      'Rural First Party': 'hsl(25 95% 53%)',
-      'Maritime Alliance': 'hsl(199 89% 48%)',
-      'Highland Heritage Party': 'hsl(262 83% 58%)',
-      'Agricultural Workers Union': 'hsl(45 93% 47%)',
-    };
-    return colors[party] || 'hsl(215 20% 55%)';
-  };
-
   return (
     <div className="flex min-h-[calc(100vh-88px)] flex-col p-8">
       {/* Ballot Header */}
@@ -45,6 +38,20 @@ export function BallotScreen({ constituency, onVoteSelected, onCancel }: BallotS
         <p className="mt-2 text-lg text-muted-foreground">{constituency.region}</p>
       </div>
 
+      {recordedNotice && (
+        <div className="mb-8 flex items-start gap-3 rounded-lg border border-primary/30 bg-primary/10 p-4 max-w-2xl mx-auto animate-slide-up">
+          <CheckCircle className="mt-0.5 h-5 w-5 text-primary flex-shrink-0" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium text-foreground">{recordedNotice}</p>
+            {onViewReceipt && (
+              <Button variant="link" onClick={onViewReceipt} className="h-auto p-0">
+                View receipt
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="mb-8 flex items-start gap-3 rounded-lg border border-border bg-card p-4 max-w-2xl mx-auto animate-slide-up">
         <Info className="mt-0.5 h-5 w-5 text-primary flex-shrink-0" />
@@ -83,9 +90,9 @@ export function BallotScreen({ constituency, onVoteSelected, onCancel }: BallotS
                     <span
                       className="inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-medium"
                       style={{
-                        backgroundColor: `${getPartyColor(candidate.party)}20`,
-                        color: getPartyColor(candidate.party),
-                        border: `1px solid ${getPartyColor(candidate.party)}40`
+                        backgroundColor: `${candidate.partyColour}20`,
+                        color: candidate.partyColour,
+                        border: `1px solid ${candidate.partyColour}40`
                       }}
                     >
                       {candidate.partyAbbrev}
@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { MonitorSmartphone, AlertTriangle, CheckCircle, RefreshCw, Ban, Download, Plus } from 'lucide-react';
+import { getAllConstituencies, type Constituency } from '@/lib/database';
+import {
+  provisionDevice,
+  registerDevice,
+  revokeDevice,
+  parseDeviceRegistration,
+  deviceKeyFingerprint,
+  type AuthorisedDevice,
+  type DeviceIdentity
+} from '@/lib/devices';
+import { recordAdminEvent } from '@/lib/admin-log';
+
+interface DevicePanelProps {
+  deviceIdentity: DeviceIdentity | null;
+  deviceRegistry: AuthorisedDevice[];
+  onDeviceProvisioned: (identity: DeviceIdentity, registry: AuthorisedDevice[]) => Promise<void>;
+  onRegistryChanged: (registry: AuthorisedDevice[]) => Promise<void>;
+  adminId: string;
+}
+
+export function DevicePanel({
+  deviceIdentity,
+  deviceRegistry,
+  onDeviceProvisioned,
+  onRegistryChanged,
+  adminId
+}: DevicePanelProps) {
+  const [constituencies, setConstituencies] = useState<Constituency[]>([]);
+  const [deviceId, setDeviceId] = useState('KIOSK-001');
+  const [assigned, setAssigned] = useState<string[]>([]);
+  const [registrationInput, setRegistrationInput] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revocationReason, setRevocationReason] = useState('');
+  const [fingerprints, setFingerprints] = useState<Record<string, string>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllConstituencies().then(list => {
+      setConstituencies(list);
+      setAssigned(list.map(c => c.id));
+    });
+  }, []);
+
+  useEffect(() => {
+    Promise.all(
+      deviceRegistry.map(async d => [d.deviceId, await deviceKeyFingerprint(d.publicKey)] as const)
+    ).then(entries => setFingerprints(Object.fromEntries(entries)));
+  }, [deviceRegistry]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Device operation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleProvision = () => run(async () => {
+    const { identity, registration } = await provisionDevice(deviceId.trim().toUpperCase(), assigned);
+    await onDeviceProvisioned(identity, registerDevice(deviceRegistry, registration));
+    await recordAdminEvent('device-provisioned', adminId, {
+      deviceId: identity.deviceId,
+      fingerprint: await deviceKeyFingerprint(registration.publicKey)
+    });
+  });
+
+  const handleRegister = () => run(async () => {
+    const registration = parseDeviceRegistration(registrationInput);
+    await onRegistryChanged(registerDevice(deviceRegistry, registration));
+    await recordAdminEvent('device-registered', adminId, {
+      deviceId: registration.deviceId,
+      fingerprint: await deviceKeyFingerprint(registration.publicKey)
+    });
+    setRegistrationInput('');
+  });
+
+  const handleRevoke = (id: string) => run(async () => {
+    await onRegistryChanged(revokeDevice(deviceRegistry, id, revocationReason));
+    await recordAdminEvent('device-revoked', adminId, { deviceId: id, reason: revocationReason });
+    setRevokingId(null);
+    setRevocationReason('');
+  });
+
+  const handleExportRegistration = () => {
+    const registration = deviceRegistry.find(d => d.deviceId === deviceIdentity?.deviceId);
+    if (!registration) return;
+    const blob = new Blob([JSON.stringify(registration, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `device-registration-${registration.deviceId}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleConstituency = (id: string) => {
+    setAssigned(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <MonitorSmartphone className="h-5 w-5 text-primary" />
+        Kiosk Devices - Signing Keys & Registry
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      {/* This kiosk */}
+      {!deviceIdentity ? (
+        <div className="mb-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            This kiosk has not been provisioned. Provisioning generates a device signing key
+            that never leaves this terminal; votes cannot be cast until it exists.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="device-id" className="mb-1 block text-xs font-medium text-muted-foreground">
+                Device ID
+              </label>
+              <input
+                id="device-id"
+                type="text"
+                value={deviceId}
+                onChange={(e) => setDeviceId(e.target.value)}
+                className="secure-input w-48 font-mono text-sm"
+                autoComplete="off"
+                spellCheck={false}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleProvision}
+              disabled={isBusy || assigned.length === 0}
+              className="gap-2"
+            >
+              {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Provision This Kiosk
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {constituencies.map(c => (
+              <label key={c.id} className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  checked={assigned.includes(c.id)}
+                  onChange={() => toggleConstituency(c.id)}
+                />
+                {c.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4 rounded-lg border border-border bg-secondary/30 p-4">
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">This Kiosk</p>
+            <p className="font-mono text-sm text-foreground">{deviceIdentity.deviceId}</p>
+            <p className="text-xs text-muted-foreground">
+              Provisioned {new Date(deviceIdentity.provisionedAt).toLocaleString()}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExportRegistration} className="gap-2">
+            <Download className="h-4 w-4" />
+            Export Registration
+          </Button>
+        </div>
+      )}
+
+      {/* Registry */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-foreground">
+          Authorised Devices ({deviceRegistry.filter(d => d.revokedAt === null).length} active)
+        </p>
+        {deviceRegistry.length === 0 && (
+          <p className="text-sm text-muted-foreground">No devices registered.</p>
+        )}
+        {deviceRegistry.map(device => (
+          <div key={device.deviceId} className="rounded-lg border border-border p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {device.revokedAt === null ? (
+                  <CheckCircle className="h-4 w-4 text-success" />
+                ) : (
+                  <Ban className="h-4 w-4 text-destructive" />
+                )}
+                <span className="font-mono text-sm text-foreground">{device.deviceId}</span>
+                <span className="font-mono text-xs text-muted-foreground">{fingerprints[device.deviceId]}</span>
+              </div>
+              {device.revokedAt === null && revokingId !== device.deviceId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRevokingId(device.deviceId)}
+                  className="gap-2 text-destructive"
+                >
+                  <Ban className="h-4 w-4" />
+                  Revoke
+                </Button>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {device.constituencyIds.join(', ')}
+            </p>
+            {device.revokedAt !== null && (
+              <p className="mt-1 text-xs text-destructive">
+                Revoked {new Date(device.revokedAt).toLocaleString()}: {device.revocationReason}.
+                Its blocks are voided from the count.
+              </p>
+            )}
+            {revokingId === device.deviceId && (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={revocationReason}
+                  onChange={(e) => setRevocationReason(e.target.value)}
+                  placeholder="Reason (e.g. terminal stolen)"
+                  className="secure-input flex-1 text-sm"
+                  autoComplete="off"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(device.deviceId)}
+                  disabled={isBusy}
+                  className="text-destructive"
+                >
+                  Confirm Revocation
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRevokingId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Register another kiosk */}
+      <div className="mt-4 space-y-2">
+        <label htmlFor="device-registration" className="block text-sm font-medium text-foreground">
+          Register Another Kiosk
+        </label>
+        <textarea
+          id="device-registration"
+          value={registrationInput}
+          onChange={(e) => setRegistrationInput(e.target.value)}
+          placeholder="Paste an exported device registration (JSON)"
+          rows={3}
+          className="secure-input font-mono text-xs"
+          autoComplete="off"
+          spellCheck={false}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRegister}
+          disabled={isBusy || !registrationInput.trim()}
+          className="gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Register Device
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Users, AlertTriangle, RefreshCw, ShieldCheck } from 'lucide-react';
+import {
+  approveDualControl,
+  describeApprovers,
+  DUAL_CONTROL_LABELS,
+  type DualAuthorisation,
+  type DualControlRequest
+} from '@/lib/dual-control';
+
+interface DualApprovalPromptProps {
+  request: DualControlRequest;
+  details?: () => Record<string, string>; // Recorded with the approval
+  onApproved: (authorisation: DualAuthorisation) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function DualApprovalPrompt({ request, details, onApproved, onCancel }: DualApprovalPromptProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((request.expiresAt - now) / 1000));
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsBusy(true);
+    try {
+      const authorisation = await approveDualControl(request, username, password, details?.());
+      setPassword('');
+      await onApproved(authorisation);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Approval failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleApprove} className="mt-4 space-y-3 rounded-lg border border-primary/30 bg-primary/5 p-4">
+      <div className="flex items-start gap-3">
+        <Users className="mt-0.5 h-5 w-5 text-primary flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium text-foreground">
+            Second official required: {DUAL_CONTROL_LABELS[request.action]}
+          </p>
+          <p className="text-muted-foreground">
+            Requested by <span className="font-mono">{request.initiator}</span>. A {describeApprovers(request.action)}
+            {' '}other than the requester must sign in below{secondsLeft > 0 ? ` within ${secondsLeft} s` : ''}.
+            Both names are recorded in the admin log.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-3">
+          <AlertTriangle className="h-4 w-4 text-destructive" />
+          <span className="text-sm font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      {secondsLeft === 0 ? (
+        <p className="text-sm text-destructive">The approval window has expired. Request the action again.</p>
+      ) : (
+        <div className="flex flex-wrap items-end gap-3">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Approver username"
+            className="secure-input w-48 text-sm"
+            autoComplete="off"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Approver password"
+            className="secure-input w-48 text-sm"
+            autoComplete="off"
+          />
+          <Button type="submit" disabled={isBusy || !username || !password} className="gap-2">
+            {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+            Approve
+          </Button>
+        </div>
+      )}
+
+      <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+        Cancel
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CalendarClock, AlertTriangle, CheckCircle, RefreshCw, ChevronRight } from 'lucide-react';
+import { addPhaseBlock, getGenesisConfig, type Block, type BlockchainState } from '@/lib/blockchain';
+import type { AuthorisedDevice, DeviceIdentity } from '@/lib/devices';
+import { loadAdminLogTip, loadAuditSigningKey } from '@/lib/storage';
+import { DualApprovalPrompt } from '@/components/DualApprovalPrompt';
+import { requestDualControl, type DualControlRequest } from '@/lib/dual-control';
+import { recordAdminEvent } from '@/lib/admin-log';
+import {
+  ELECTION_PHASES,
+  getElectionStatus,
+  nextPhase,
+  signPhaseTransition,
+  type Election,
+  type ElectionPhase
+} from '@/lib/election';
+
+interface ElectionPanelProps {
+  blockchainState: BlockchainState;
+  election: Election; // From the installed election definition
+  onPhaseRecorded: (state: BlockchainState, block: Block) => Promise<void>;
+  deviceIdentity: DeviceIdentity | null;
+  deviceRegistry: AuthorisedDevice[];
+  adminId: string;
+}
+
+const PHASE_LABELS: Record<ElectionPhase, string> = {
+  setup: 'Setup',
+  open: 'Open',
+  closed: 'Closed',
+  tallied: 'Tallied',
+  certified: 'Certified'
+};
+
+const PHASE_ACTIONS: Record<ElectionPhase, string> = {
+  setup: '',
+  open: 'Open Voting',
+  closed: 'Close Voting',
+  tallied: 'Record Tally Complete',
+  certified: 'Certify Results'
+};
+
+export function ElectionPanel({
+  blockchainState,
+  election,
+  onPhaseRecorded,
+  deviceIdentity,
+  deviceRegistry,
+  adminId
+}: ElectionPanelProps) {
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [closeRequest, setCloseRequest] = useState<DualControlRequest | null>(null);
+
+  const status = getElectionStatus(blockchainState.chain);
+  const upcoming = nextPhase(status.phase);
+  const schedule = status.schedule ?? election;
+  const pastClosing = status.phase === 'open' && !!status.schedule && Date.now() > status.schedule.closesAt;
+
+  const recordNextPhase = async (approver: string | null = null) => {
+    if (!upcoming) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      // Phase blocks are device-signed like ballots, so only a registered kiosk records them
+      const registration = deviceRegistry.find(d => d.deviceId === deviceIdentity?.deviceId);
+      if (!deviceIdentity || !registration || registration.revokedAt !== null) {
+        throw new Error('Provision and register this kiosk before changing the election phase');
+      }
+
+      // The chain only accepts keys committed at the key ceremony
+      const signingKey = await loadAuditSigningKey(adminId);
+      const committed = getGenesisConfig(blockchainState.chain[0])?.administrators ?? [];
+      if (!signingKey || !committed.some(admin => admin.adminId === adminId && admin.publicKey === signingKey.publicKey)) {
+        throw new Error(`The signing key of ${adminId} was not committed at the key ceremony, so it cannot change the election phase`);
+      }
+
+      // Pins this kiosk's admin log up to now (see admin-log.ts)
+      const adminLogTip = await loadAdminLogTip();
+      const transition = await signPhaseTransition(
+        blockchainState.chain,
+        election,
+        upcoming,
+        signingKey,
+        adminLogTip && { index: adminLogTip.index, hash: adminLogTip.hash }
+      );
+      const result = await addPhaseBlock(blockchainState, transition, {
+        device: { deviceId: deviceIdentity.deviceId, privateKey: deviceIdentity.privateKey },
+        sealer: { id: deviceIdentity.deviceId, privateKey: deviceIdentity.privateKey } // Proof-of-Authority only
+      });
+      await onPhaseRecorded(result.state, result.block);
+      await recordAdminEvent('phase-change', adminId, {
+        from: status.phase,
+        to: upcoming,
+        blockIndex: result.block.index.toString(),
+        blockHash: result.block.hash
+      }, approver);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Phase change failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Closing the election needs a second official (two-person rule)
+  const handleAdvance = () => {
+    if (upcoming === 'closed') {
+      setCloseRequest(requestDualControl('close-election', adminId));
+    } else {
+      recordNextPhase();
+    }
+  };
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-primary" />
+        Election Lifecycle
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      {/* Phase progression */}
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        {ELECTION_PHASES.map((phase, i) => {
+          const reached = ELECTION_PHASES.indexOf(status.phase) >= i;
+          return (
+            <div key={phase} className="flex items-center gap-2">
+              {i > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+              <span className={`rounded-full px-3 py-1 text-sm font-medium ${
+                phase === status.phase
+                  ? 'bg-primary text-primary-foreground'
+                  : reached
+                    ? 'bg-success/20 text-success'
+                    : 'bg-secondary text-muted-foreground'
+              }`}>
+                {PHASE_LABELS[phase]}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {pastClosing && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-warning" />
+          <span className="text-sm font-medium text-warning">
+            The scheduled closing time has passed. Kiosks no longer accept ballots; close the election to record it.
+          </span>
+        </div>
+      )}
+
+      {/* Schedule from the election definition, committed on chain at opening */}
+      <div className="mb-6 rounded-lg border border-border bg-secondary/30 p-4 text-sm">
+        <p className="font-medium text-foreground">
+          {election.name} <span className="font-mono text-muted-foreground">({election.electionId})</span>
+        </p>
+        <p className="text-muted-foreground">
+          Voting window {new Date(schedule.opensAt).toLocaleString()} –{' '}
+          {new Date(schedule.closesAt).toLocaleString()}
+          {status.schedule ? ' (committed on chain)' : ' (from the election definition)'}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {upcoming
+            ? `Each phase change is signed by ${adminId} and recorded as a block on the chain.`
+            : 'The election is certified. No further blocks can be added.'}
+        </p>
+        {upcoming && (
+          <Button
+            variant={upcoming === 'closed' ? 'default' : 'outline'}
+            onClick={handleAdvance}
+            disabled={isBusy || !!closeRequest}
+            className="gap-2"
+          >
+            {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <CalendarClock className="h-4 w-4" />}
+            {PHASE_ACTIONS[upcoming]}
+          </Button>
+        )}
+      </div>
+
+      {closeRequest && (
+        <DualApprovalPrompt
+          request={closeRequest}
+          details={() => ({ electionId: election.electionId })}
+          onApproved={async (authorisation) => {
+            setCloseRequest(null);
+            await recordNextPhase(authorisation.approver);
+          }}
+          onCancel={() => setCloseRequest(null)}
+        />
+      )}
+
+      {status.transitions.length > 0 && (
+        <div className="mt-4 space-y-1 border-t border-border pt-4 text-sm">
+          {status.transitions.map(transition => (
+            <div key={transition.to} className="flex items-center gap-2">
+              <CheckCircle className="h-4 w-4 text-success" />
+              <span className="text-foreground">
+                {PHASE_LABELS[transition.from]} → {PHASE_LABELS[transition.to]}
+              </span>
+              <span className="text-muted-foreground">
+                {new Date(transition.signedAt).toLocaleString()} by {transition.adminId}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
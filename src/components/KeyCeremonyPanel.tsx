@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Lock, AlertTriangle, CheckCircle, RefreshCw, KeyRound } from 'lucide-react';
+import {
+  runKeyCeremony,
+  validateCeremonyConfig,
+  type KeyCeremonyConfig,
+  type PublishedElectionKey
+} from '@/lib/key-ceremony';
+import { recoverPseudonymKey } from '@/lib/voter-pseudonym';
+import { loadPseudonymKey, savePseudonymKey } from '@/lib/storage';
+import { recordAdminEvent } from '@/lib/admin-log';
+import { provisionPhaseSigners } from '@/lib/admin-accounts';
+import { DEFAULT_DIFFICULTY_POLICY, type ConsensusMode, type LedgerAuthorities } from '@/lib/blockchain';
+import { getDeviceValidators, type AuthorisedDevice } from '@/lib/devices';
+
+interface KeyCeremonyPanelProps {
+  electionKey: PublishedElectionKey | null;
+  onKeyPublished: (key: PublishedElectionKey, authorities: LedgerAuthorities) => Promise<void>;
+  deviceRegistry: AuthorisedDevice[];
+  adminId: string;
+}
+
+export function KeyCeremonyPanel({ electionKey, onKeyPublished, deviceRegistry, adminId }: KeyCeremonyPanelProps) {
+  const [shamirShards, setShamirShards] = useState<{ key: string[]; pseudonym: string[] } | null>(null);
+  const [hasPseudonymKey, setHasPseudonymKey] = useState<boolean | null>(null);
+  const [pseudonymInput, setPseudonymInput] = useState('');
+  const [isInstallingPseudonym, setIsInstallingPseudonym] = useState(false);
+  const [ceremonyConfig, setCeremonyConfig] = useState<KeyCeremonyConfig>({
+    scheme: 'rsa-oaep',
+    threshold: 3,
+    totalShares: 5
+  });
+  const [consensus, setConsensus] = useState<ConsensusMode>('pow');
+  const [ceremonyError, setCeremonyError] = useState<string | null>(null);
+  const [isRunningCeremony, setIsRunningCeremony] = useState(false);
+
+  useEffect(() => {
+    loadPseudonymKey().then(key => setHasPseudonymKey(key !== null));
+  }, [electionKey]);
+
+  const handleRunKeyCeremony = async () => {
+    const configError = validateCeremonyConfig(ceremonyConfig);
+    if (configError) {
+      setCeremonyError(configError);
+      return;
+    }
+
+    // Registered kiosks seal Proof-of-Authority blocks with their device keys
+    const validators = consensus === 'poa' ? getDeviceValidators(deviceRegistry) : [];
+    if (consensus === 'poa' && validators.length === 0) {
+      setCeremonyError('Register the kiosks that will seal blocks before a Proof-of-Authority key ceremony');
+      return;
+    }
+
+    setCeremonyError(null);
+    setIsRunningCeremony(true);
+    try {
+      // Only these officials' keys may sign phase changes on this ledger
+      const administrators = await provisionPhaseSigners();
+      const result = await runKeyCeremony(ceremonyConfig);
+      await savePseudonymKey(result.pseudonymKey);
+      setShamirShards({ key: result.shards, pseudonym: result.pseudonymShards });
+      await onKeyPublished(result.electionKey, {
+        consensus,
+        difficultyPolicy: DEFAULT_DIFFICULTY_POLICY,
+        validators,
+        administrators
+      });
+      await recordAdminEvent('key-ceremony', adminId, {
+        administrators: administrators.map(a => a.adminId).join(','),
+        consensus,
+        validators: validators.map(v => v.id).join(','),
+        scheme: result.electionKey.scheme,
+        threshold: result.electionKey.threshold.toString(),
+        totalShares: result.electionKey.totalShares.toString(),
+        privateKeyFingerprint: result.electionKey.privateKeyFingerprint,
+        pseudonymKeyFingerprint: result.electionKey.pseudonymKeyFingerprint
+      });
+    } catch (err) {
+      setCeremonyError(err instanceof Error ? err.message : 'Key ceremony failed');
+    } finally {
+      setIsRunningCeremony(false);
+    }
+  };
+
+  const handleInstallPseudonymKey = async () => {
+    if (!electionKey) return;
+    setCeremonyError(null);
+    setIsInstallingPseudonym(true);
+    try {
+      const shards = pseudonymInput.split('\n').map(line => line.trim()).filter(Boolean);
+      const key = await recoverPseudonymKey(
+        shards,
+        electionKey.threshold,
+        electionKey.totalShares,
+        electionKey.pseudonymKeyFingerprint
+      );
+      await savePseudonymKey(key);
+      await recordAdminEvent('pseudonym-key-installed', adminId, {
+        shardsEntered: shards.length.toString(),
+        pseudonymKeyFingerprint: electionKey.pseudonymKeyFingerprint
+      });
+      setPseudonymInput('');
+      setHasPseudonymKey(true);
+    } catch (err) {
+      setCeremonyError(err instanceof Error ? err.message : 'Pseudonym key recovery failed');
+    } finally {
+      setIsInstallingPseudonym(false);
+    }
+  };
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Lock className="h-5 w-5 text-warning" />
+        Election Key Ceremony - Shamir Secret Sharing
+      </h3>
+
+      <div className="mb-4 flex items-start gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
+        <AlertTriangle className="mt-0.5 h-5 w-5 text-warning flex-shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium text-warning">Quorum Required for Decryption</p>
+          <p className="text-warning/80">
+            Vote results can only be decrypted when {electionKey?.threshold ?? ceremonyConfig.threshold} of{' '}
+            {electionKey?.totalShares ?? ceremonyConfig.totalShares} key holders provide their shards.
+            This ensures no single administrator can access vote counts.
+          </p>
+        </div>
+      </div>
+
+      {ceremonyError && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{ceremonyError}</span>
+        </div>
+      )}
+
+      {!electionKey && (
+        <p className="mb-4 text-sm text-muted-foreground">
+          The vote ledger is created when the key is published. Its genesis block commits to the public
+          key, to a fingerprint of each trustee's shard, to the consensus and to the signing keys of the
+          presiding officers who may change the election phase. Under Proof-of-Authority the kiosks
+          registered now are the only ones that can seal blocks. The ceremony also creates this
+          election's voter pseudonym secret, split among the same trustees.
+        </p>
+      )}
+
+      {!electionKey ? (
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="ceremony-scheme" className="mb-1 block text-xs font-medium text-muted-foreground">
+              Encryption Scheme
+            </label>
+            <select
+              id="ceremony-scheme"
+              value={ceremonyConfig.scheme}
+              onChange={(e) => setCeremonyConfig({ 
+                ...ceremonyConfig, 
+                scheme: e.target.value as KeyCeremonyConfig['scheme'] 
+              })}
+              className="secure-input w-64 text-sm"
+            >
+              <option value="rsa-oaep">RSA-OAEP (per-ballot decryption)</option>
+              <option value="elgamal">Exponential ElGamal (homomorphic)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ceremony-consensus" className="mb-1 block text-xs font-medium text-muted-foreground">
+              Ledger Consensus
+            </label>
+            <select
+              id="ceremony-consensus"
+              value={consensus}
+              onChange={(e) => setConsensus(e.target.value as ConsensusMode)}
+              className="secure-input w-64 text-sm"
+            >
+              <option value="pow">Proof-of-Work (standalone demo)</option>
+              <option value="poa">
+                Proof-of-Authority ({deviceRegistry.filter(d => d.revokedAt === null).length} registered kiosks)
+              </option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ceremony-threshold" className="mb-1 block text-xs font-medium text-muted-foreground">
+              Threshold (k)
+            </label>
+            <input
+              id="ceremony-threshold"
+              type="number"
+              min={2}
+              max={255}
+              value={ceremonyConfig.threshold}
+              onChange={(e) => setCeremonyConfig({ ...ceremonyConfig, threshold: Number(e.target.value) })}
+              className="secure-input w-28"
+            />
+          </div>
+          <div>
+            <label htmlFor="ceremony-total" className="mb-1 block text-xs font-medium text-muted-foreground">
+              Trustees (n)
+            </label>
+            <input
+              id="ceremony-total"
+              type="number"
+              min={2}
+              max={255}
+              value={ceremonyConfig.totalShares}
+              onChange={(e) => setCeremonyConfig({ ...ceremonyConfig, totalShares: Number(e.target.value) })}
+              className="secure-input w-28"
+            />
+          </div>
+          <Button
+            variant="default"
+            onClick={handleRunKeyCeremony}
+            disabled={isRunningCeremony}
+            className="gap-2"
+          >
+            {isRunningCeremony ? (
+              <>
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                Generating Key...
+              </>
+            ) : (
+              <>
+                <Lock className="h-4 w-4" />
+                Run Key Ceremony ({ceremonyConfig.threshold}-of-{ceremonyConfig.totalShares})
+              </>
+            )}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="rounded-lg border border-border bg-secondary/30 p-4">
+            <p className="text-xs font-medium text-muted-foreground mb-2">
+              Published Key Fingerprint ({electionKey.scheme === 'elgamal' ? 'ElGamal' : 'RSA-OAEP'},{' '}
+              {electionKey.threshold}-of-{electionKey.totalShares})
+            </p>
+            <p className="blockchain-hash text-xs">{electionKey.privateKeyFingerprint}</p>
+          </div>
+          {hasPseudonymKey === false && (
+            <div className="space-y-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+              <p className="text-sm font-medium text-destructive">
+                This kiosk does not hold the election's voter pseudonym key, so voters cannot sign in.
+                {' '}{electionKey.threshold} key holders must enter their pseudonym shards to install it.
+              </p>
+              <textarea
+                id="pseudonym-shards"
+                value={pseudonymInput}
+                onChange={(e) => setPseudonymInput(e.target.value)}
+                placeholder="PSEUDONYM-SHARD-01:... (one shard per line)"
+                rows={Math.max(3, electionKey.threshold)}
+                className="secure-input font-mono text-xs"
+                autoComplete="off"
+                spellCheck={false}
+              />
+              <Button
+                variant="outline"
+                onClick={handleInstallPseudonymKey}
+                disabled={isInstallingPseudonym || !pseudonymInput.trim()}
+                className="gap-2"
+              >
+                {isInstallingPseudonym ? <RefreshCw className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+                Install Pseudonym Key
+              </Button>
+            </div>
+          )}
+          {shamirShards && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Distribute both shards to each trustee now. The private key and the voter pseudonym
+                secret have been wiped and these shards will not be shown again.
+              </p>
+              <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
+                {shamirShards.key.map((shard, i) => (
+                  <div key={i} className="rounded-lg border border-border bg-secondary/30 p-3">
+                    <p className="text-xs font-medium text-muted-foreground mb-1">
+                      Key Holder {i + 1}
+                    </p>
+                    <p className="blockchain-hash text-xs truncate" title={shard}>
+                      {shard}
+                    </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Fingerprint {electionKey.shardFingerprints[i]?.substring(0, 16)}
+                    </p>
+                    <p className="blockchain-hash mt-2 text-xs truncate" title={shamirShards.pseudonym[i]}>
+                      {shamirShards.pseudonym[i]}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <Button variant="outline" onClick={() => setShamirShards(null)} className="gap-2">
+                <CheckCircle className="h-4 w-4" />
+                Shards Distributed
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Settings, Upload, FileText, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import {
+  parseElectionDefinition,
+  hashElectionDefinition,
+  type ElectionDefinition
+} from '@/lib/election-definition';
+
+interface KioskSetupProps {
+  onInstalled: (definition: ElectionDefinition) => Promise<void>;
+}
+
+const DEMO_DEFINITION_URL = '/elections/demo-election.json';
+
+export function KioskSetup({ onInstalled }: KioskSetupProps) {
+  const [preview, setPreview] = useState<{ definition: ElectionDefinition; hash: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleText = async (text: string) => {
+    setError(null);
+    setPreview(null);
+    try {
+      const definition = parseElectionDefinition(text);
+      setPreview({ definition, hash: await hashElectionDefinition(definition) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid election definition');
+    }
+  };
+
+  const handleDemo = async () => {
+    try {
+      const response = await fetch(DEMO_DEFINITION_URL);
+      await handleText(await response.text());
+    } catch {
+      setError('The demonstration election could not be loaded');
+    }
+  };
+
+  const handleInstall = async () => {
+    if (!preview) return;
+    setError(null);
+    setIsBusy(true);
+    try {
+      await onInstalled(preview.definition);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Installation failed');
+      setIsBusy(false);
+    }
+  };
+
+  const definition = preview?.definition;
+  const candidateCount = definition?.constituencies.reduce((n, c) => n + c.candidates.length, 0) ?? 0;
+
+  return (
+    <div className="flex min-h-[calc(100vh-88px)] items-center justify-center p-8">
+      <div className="w-full max-w-2xl animate-scale-in">
+        <div className="electoral-card">
+          <h2 className="text-2xl font-bold text-foreground mb-2 flex items-center gap-3">
+            <Settings className="h-6 w-6 text-primary" />
+            Kiosk Setup
+          </h2>
+          <p className="mb-6 text-sm text-muted-foreground">
+            Install the election definition issued by the electoral commission. Once the key ceremony has
+            published the election key, the vote ledger is created with a genesis block that commits to this
+            exact ballot configuration, so it cannot be changed afterwards.
+          </p>
+
+          {error && (
+            <div className="mb-4 flex items-start gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+              <AlertTriangle className="mt-0.5 h-5 w-5 text-destructive flex-shrink-0" />
+              <span className="whitespace-pre-line text-sm font-medium text-destructive">{error}</span>
+            </div>
+          )}
+
+          <div className="mb-6 flex flex-wrap items-center gap-4">
+            <label className="inline-flex">
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) await handleText(await file.text());
+                }}
+              />
+              <span className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-input bg-background px-4 py-2 text-sm font-medium hover:bg-accent">
+                <Upload className="h-4 w-4" />
+                Load Definition File
+              </span>
+            </label>
+            <Button variant="ghost" onClick={handleDemo} className="gap-2">
+              <FileText className="h-4 w-4" />
+              Use Demonstration Election
+            </Button>
+          </div>
+
+          {definition && preview && (
+            <div className="space-y-4 border-t border-border pt-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-success" />
+                <span className="font-medium text-success">Definition is valid</span>
+              </div>
+              <div className="grid gap-2 text-sm sm:grid-cols-2">
+                <p className="text-muted-foreground">Election</p>
+                <p className="text-foreground">
+                  {definition.election.name} <span className="font-mono">({definition.election.electionId})</span>
+                </p>
+                <p className="text-muted-foreground">Issued by</p>
+                <p className="text-foreground">{definition.election.authority}</p>
+                <p className="text-muted-foreground">Voting window</p>
+                <p className="text-foreground">
+                  {new Date(definition.election.opensAt).toLocaleString()} –{' '}
+                  {new Date(definition.election.closesAt).toLocaleString()}
+                </p>
+                <p className="text-muted-foreground">Ballots</p>
+                <p className="text-foreground">
+                  {definition.constituencies.length} constituencies, {candidateCount} candidates,{' '}
+                  {definition.parties.length} parties
+                </p>
+              </div>
+              <div className="rounded-lg border border-border bg-secondary/30 p-4">
+                <p className="text-xs font-medium text-muted-foreground mb-2">
+                  Definition Hash (compare with the commission's published value)
+                </p>
+                <p className="blockchain-hash text-xs">{preview.hash}</p>
+              </div>
+              <Button onClick={handleInstall} disabled={isBusy} className="w-full gap-2">
+                {isBusy ? <RefreshCw className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+                Install Definition & Create Ledger
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
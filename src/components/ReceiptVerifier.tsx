@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, CheckCircle, AlertTriangle, Search, Download, GitBranch, Loader2 } from 'lucide-react';
+import type { Block } from '@/lib/blockchain';
+import {
+  rebuildBallotMerkleTree,
+  getInclusionProof,
+  verifyInclusionProof,
+  type InclusionProof,
+  type MerklePublication
+} from '@/lib/merkle';
+
+interface ReceiptVerifierProps {
+  chain: Block[];
+  publication: MerklePublication | null;
+  onBack: () => void;
+}
+
+type VerificationResult =
+  | { status: 'included'; proof: InclusionProof }
+  | { status: 'not-counted' }
+  | { status: 'error'; message: string };
+
+export function ReceiptVerifier({ chain, publication, onBack }: ReceiptVerifierProps) {
+  const [receiptHash, setReceiptHash] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!publication) return;
+
+    setIsVerifying(true);
+    setResult(null);
+    try {
+      const tree = await rebuildBallotMerkleTree(chain, publication);
+      const proof = getInclusionProof(tree, receiptHash.trim().toLowerCase());
+
+      if (!proof) {
+        setResult({ status: 'not-counted' });
+      } else if (await verifyInclusionProof(proof, publication.root)) {
+        setResult({ status: 'included', proof });
+      } else {
+        setResult({ status: 'error', message: 'Inclusion proof does not match the published root' });
+      }
+    } catch (err) {
+      setResult({ status: 'error', message: err instanceof Error ? err.message : 'Verification failed' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleDownloadProof = (proof: InclusionProof) => {
+    if (!publication) return;
+    const data = JSON.stringify({ root: publication.root, proof }, null, 2);
+    const blob = new Blob([data], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `inclusion-proof-${proof.blockHash.substring(0, 12)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex min-h-[calc(100vh-88px)] items-center justify-center p-8">
+      <div className="w-full max-w-xl animate-scale-in">
+        <div className="electoral-card">
+          <div className="mb-8 text-center">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+              <GitBranch className="h-8 w-8 text-primary" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground">Verify Your Receipt</h2>
+            <p className="mt-2 text-muted-foreground">
+              Check that your ballot is included in the final counted set
+            </p>
+          </div>
+
+          {!publication ? (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
+              <AlertTriangle className="mt-0.5 h-5 w-5 text-warning flex-shrink-0" />
+              <p className="text-sm text-warning">
+                The counted set has not been published yet. Receipts can be verified after the election closes.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 rounded-lg border border-border bg-secondary/30 p-4">
+                <p className="text-xs font-medium text-muted-foreground mb-2">
+                  Published Merkle Root ({publication.leafCount} counted ballots)
+                </p>
+                <p className="blockchain-hash text-xs">{publication.root}</p>
+              </div>
+
+              <form onSubmit={handleVerify} className="mb-6 space-y-4">
+                <div>
+                  <label htmlFor="receipt-hash" className="mb-2 block text-sm font-medium text-foreground">
+                    Receipt Block Hash
+                  </label>
+                  <input
+                    id="receipt-hash"
+                    type="text"
+                    value={receiptHash}
+                    onChange={(e) => setReceiptHash(e.target.value)}
+                    placeholder="Block hash from your vote receipt"
+                    className="secure-input text-sm"
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="default"
+                  size="lg"
+                  className="w-full gap-2"
+                  disabled={!/^[a-f0-9]{64}$/i.test(receiptHash.trim()) || isVerifying}
+                >
+                  {isVerifying ? (
+                    <>
+                      <Loader2 className="h-5 w-5 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    <>
+                      <Search className="h-5 w-5" />
+                      Verify Inclusion
+                    </>
+                  )}
+                </Button>
+              </form>
+            </>
+          )}
+
+          {result?.status === 'included' && (
+            <div className="mb-6 space-y-3 rounded-lg border border-success/30 bg-success/10 p-4">
+              <div className="flex items-center gap-3">
+                <CheckCircle className="h-5 w-5 text-success" />
+                <span className="font-medium text-success">
+                  Your ballot is included in the counted set
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leaf {result.proof.leafIndex + 1} of {result.proof.leafCount} • {result.proof.path.length} proof steps
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownloadProof(result.proof)}
+                className="gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Download Proof
+              </Button>
+            </div>
+          )}
+
+          {result?.status === 'not-counted' && (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-warning/30 bg-warning/10 p-4">
+              <AlertTriangle className="mt-0.5 h-5 w-5 text-warning flex-shrink-0" />
+              <p className="text-sm text-warning">
+                This receipt is not in the counted set. If you voted more than once, only your
+                most recent receipt is counted. Otherwise, please contact a polling officer.
+              </p>
+            </div>
+          )}
+
+          {result?.status === 'error' && (
+            <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              <span className="font-medium text-destructive">{result.message}</span>
+            </div>
+          )}
+
+          <Button variant="outline" size="lg" onClick={onBack} className="w-full gap-2">
+            <ChevronLeft className="h-5 w-5" />
+            Back
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { KeyRound, AlertTriangle, CheckCircle, RefreshCw, Users, BarChart3 } from 'lucide-react';
+import type { BlockchainState } from '@/lib/blockchain';
+import type { PublishedElectionKey } from '@/lib/key-ceremony';
+import {
+  checkShards,
+  completeHomomorphicTally,
+  createTrusteeDecryption,
+  prepareHomomorphicTally,
+  runQuorumTally,
+  type HomomorphicTally,
+  type TallyResult
+} from '@/lib/tally';
+import type { PartialDecryption } from '@/lib/threshold-decryption';
+import { getAllConstituencies, type Constituency } from '@/lib/database';
+import type { AuthorisedDevice } from '@/lib/devices';
+import { DualApprovalPrompt } from '@/components/DualApprovalPrompt';
+import { requestDualControl, type DualControlRequest } from '@/lib/dual-control';
+import { recordAdminEvent } from '@/lib/admin-log';
+
+interface TallyPanelProps {
+  blockchainState: BlockchainState;
+  electionKey: PublishedElectionKey | null;
+  deviceRegistry: AuthorisedDevice[];
+  definitionHash: string;
+  votingFinished: boolean; // Ballots are only decrypted after the polls close
+  adminId: string;
+}
+
+export function TallyPanel({
+  blockchainState,
+  electionKey,
+  deviceRegistry,
+  definitionHash,
+  votingFinished,
+  adminId
+}: TallyPanelProps) {
+  const [shardInput, setShardInput] = useState('');
+  const [isTallying, setIsTallying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<TallyResult | null>(null);
+  const [constituencies, setConstituencies] = useState<Constituency[]>([]);
+  const [tallyRequest, setTallyRequest] = useState<DualControlRequest | null>(null);
+  // Homomorphic elections: encrypted sums, then one partial decryption per key holder
+  const [homomorphicTally, setHomomorphicTally] = useState<HomomorphicTally | null>(null);
+  const [partials, setPartials] = useState<PartialDecryption[]>([]);
+  const [trusteeShard, setTrusteeShard] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    getAllConstituencies().then(setConstituencies);
+  }, []);
+
+  const isHomomorphic = electionKey?.scheme === 'elgamal';
+  const shards = shardInput.split('\n').map(line => line.trim()).filter(Boolean);
+  const checks = electionKey && !isHomomorphic ? checkShards(shards, electionKey) : [];
+  const validCount = isHomomorphic ? partials.length : checks.filter(check => check.valid).length;
+  const quorumMet = !!electionKey && validCount >= electionKey.threshold;
+  const context = { constituencies, devices: deviceRegistry, definitionHash };
+
+  const handleAggregate = async () => {
+    if (!electionKey) return;
+    setError(null);
+    setIsDecrypting(true);
+    try {
+      // The chain is re-validated before the sums are formed
+      setHomomorphicTally(await prepareHomomorphicTally(blockchainState, electionKey, context));
+      setPartials([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Aggregation failed');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handlePartialDecryption = async () => {
+    if (!electionKey || !homomorphicTally) return;
+    setError(null);
+    setIsDecrypting(true);
+    try {
+      const partial = await createTrusteeDecryption(homomorphicTally, electionKey, trusteeShard);
+      if (partials.some(other => other.trustee === partial.trustee)) {
+        throw new Error(`Key holder ${partial.trustee} has already decrypted`);
+      }
+      setPartials([...partials, partial]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Partial decryption failed');
+    } finally {
+      // The shard is used for this key holder's partial only
+      setTrusteeShard('');
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleTally = async (approver: string) => {
+    if (!electionKey) return;
+    setError(null);
+    setIsTallying(true);
+    try {
+      // The chain is re-validated before any shard is used
+      const tally = homomorphicTally
+        ? await completeHomomorphicTally(homomorphicTally, electionKey, partials, context)
+        : await runQuorumTally(blockchainState, electionKey, shards, context);
+      setResult(tally);
+      await recordAdminEvent('tally', adminId, {
+        participants: tally.participants.join(','),
+        countedBallots: tally.countedBallots.toString(),
+        rejectedBallots: tally.rejectedBallots.toString(),
+        voidedBlocks: tally.voidedBlocks.toString(),
+        keyFingerprint: tally.keyFingerprint
+      }, approver);
+      // Shards are not kept once the tally has run
+      setShardInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Tally failed');
+    } finally {
+      setIsTallying(false);
+    }
+  };
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <BarChart3 className="h-5 w-5 text-primary" />
+        Quorum Decryption & Final Tally
+      </h3>
+
+      {!electionKey ? (
+        <p className="text-sm text-muted-foreground">
+          No election key has been published. Run the key ceremony before tallying.
+        </p>
+      ) : !votingFinished ? (
+        <p className="text-sm text-muted-foreground">
+          The tally can only run once voting has closed.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {isHomomorphic ? (
+            !homomorphicTally ? (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Ballots are first multiplied into encrypted per-candidate sums. Each key holder then
+                  decrypts those sums with their own shard; the election key is never rebuilt.
+                </p>
+                <Button onClick={handleAggregate} disabled={isDecrypting} variant="outline" className="gap-2">
+                  {isDecrypting ? <RefreshCw className="h-4 w-4 animate-spin" /> : <BarChart3 className="h-4 w-4" />}
+                  Aggregate Ballots
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {homomorphicTally.aggregates.reduce((sum, a) => sum + a.ballots, 0)} ballots aggregated
+                  in {homomorphicTally.aggregates.length} constituencies. Key holders decrypt one at a time
+                  ({validCount} of {electionKey.threshold} required).
+                </p>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="min-w-0 flex-1">
+                    <label htmlFor="trustee-shard" className="mb-2 block text-sm font-medium text-foreground">
+                      Key Holder Shard
+                    </label>
+                    <input
+                      id="trustee-shard"
+                      type="password"
+                      value={trusteeShard}
+                      onChange={(e) => setTrusteeShard(e.target.value)}
+                      placeholder="SHARD-01:..."
+                      className="secure-input font-mono text-xs"
+                      autoComplete="off"
+                      spellCheck={false}
+                    />
+                  </div>
+                  <Button
+                    onClick={handlePartialDecryption}
+                    disabled={!trusteeShard.trim() || isDecrypting}
+                    variant="outline"
+                    className="gap-2"
+                  >
+                    {isDecrypting ? <RefreshCw className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+                    Decrypt My Share
+                  </Button>
+                </div>
+                {partials.length > 0 && (
+                  <div className="space-y-1">
+                    {partials.map(partial => (
+                      <div key={partial.trustee} className="flex items-center gap-2 text-xs">
+                        <CheckCircle className="h-4 w-4 text-success" />
+                        <span className="text-muted-foreground">
+                          Key Holder {partial.trustee}: partial decryption of the sums
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          ) : (
+            <div>
+              <label htmlFor="tally-shards" className="mb-2 block text-sm font-medium text-foreground">
+                Trustee Shards ({validCount} of {electionKey.threshold} required)
+              </label>
+              <textarea
+                id="tally-shards"
+                value={shardInput}
+                onChange={(e) => setShardInput(e.target.value)}
+                placeholder="SHARD-01:... (one shard per line)"
+                rows={Math.max(3, electionKey.threshold)}
+                className="secure-input font-mono text-xs"
+                autoComplete="off"
+                spellCheck={false}
+              />
+            </div>
+          )}
+
+          {checks.length > 0 && (
+            <div className="space-y-1">
+              {checks.map((check, i) => (
+                <div key={i} className="flex items-center gap-2 text-xs">
+                  {check.valid ? (
+                    <CheckCircle className="h-4 w-4 text-success" />
+                  ) : (
+                    <AlertTriangle className="h-4 w-4 text-destructive" />
+                  )}
+                  <span className="text-muted-foreground">
+                    {check.trustee !== null ? `Key Holder ${check.trustee}` : `Line ${i + 1}`}
+                  </span>
+                  {check.error && <span className="text-destructive">{check.error}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              <span className="font-medium text-destructive">{error}</span>
+            </div>
+          )}
+
+          <Button
+            onClick={() => setTallyRequest(requestDualControl('start-tally', adminId))}
+            disabled={!quorumMet || isTallying || !!tallyRequest}
+            className="gap-2"
+          >
+            {isTallying ? (
+              <>
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                Decrypting...
+              </>
+            ) : (
+              <>
+                <KeyRound className="h-4 w-4" />
+                {isHomomorphic ? 'Combine Partial Decryptions & Tally' : 'Reconstruct Key & Tally'}
+              </>
+            )}
+          </Button>
+
+          {tallyRequest && (
+            <DualApprovalPrompt
+              request={tallyRequest}
+              details={() => ({ tipHash: blockchainState.chain[blockchainState.chain.length - 1].hash })}
+              onApproved={async (authorisation) => {
+                setTallyRequest(null);
+                await handleTally(authorisation.approver);
+              }}
+              onCancel={() => setTallyRequest(null)}
+            />
+          )}
+
+          {result && (
+            <div className="space-y-4 border-t border-border pt-4">
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Users className="h-4 w-4" />
+                  Key holders: {result.participants.join(', ')}
+                </span>
+                <span className="text-muted-foreground">
+                  Counted ballots: <strong className="text-foreground">{result.countedBallots}</strong>
+                </span>
+                {result.rejectedBallots > 0 && (
+                  <span className="text-destructive">
+                    Rejected: {result.rejectedBallots}
+                  </span>
+                )}
+                {result.voidedBlocks > 0 && (
+                  <span className="text-destructive">
+                    Voided (revoked devices): {result.voidedBlocks}
+                  </span>
+                )}
+                <span className="text-muted-foreground">
+                  {result.scheme === 'elgamal' ? 'Homomorphic tally' : 'Per-ballot decryption'}
+                </span>
+                <span className="text-muted-foreground">
+                  {new Date(result.talliedAt).toLocaleString()}
+                </span>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                {result.constituencies.map(constituency => (
+                  <div key={constituency.constituencyId} className="rounded-lg border border-border bg-secondary/30 p-4">
+                    <p className="mb-2 text-sm font-semibold text-foreground">
+                      {constituencies.find(c => c.id === constituency.constituencyId)?.name ?? constituency.constituencyId}
+                      <span className="ml-2 font-normal text-muted-foreground">
+                        ({constituency.totalVotes} votes)
+                      </span>
+                    </p>
+                    <div className="space-y-1">
+                      {constituency.candidates.map(candidate => (
+                        <div key={candidate.candidateId} className="flex items-center justify-between text-sm">
+                          <span className="text-foreground">
+                            {candidate.candidateName}
+                            <span className="ml-2 text-xs text-muted-foreground">{candidate.party}</span>
+                          </span>
+                          <span className="font-mono font-medium text-foreground">{candidate.votes}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
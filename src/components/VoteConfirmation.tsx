@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Check, AlertTriangle, Lock, ChevronLeft, Loader2 } from 'lucide-react';
 import type { Candidate, Constituency } from '@/lib/database';
+import type { MiningProgress } from '@/lib/crypto';
 
 interface VoteConfirmationProps {
   candidate: Candidate;
@@ -9,6 +10,8 @@ interface VoteConfirmationProps {
   onConfirm: () => Promise<void>;
   onBack: () => void;
   isSubmitting: boolean;
+  miningProgress?: MiningProgress | null;
+  error?: string | null;
 }
 
 export function VoteConfirmation({ 
@@ -16,7 +19,9 @@ export function VoteConfirmation({
   constituency, 
   onConfirm, 
   onBack,
-  isSubmitting 
+  isSubmitting,
+  miningProgress,
+  error
 }: VoteConfirmationProps) {
   const [hasAcknowledged, setHasAcknowledged] = useState(false);
 
@@ -80,6 +85,14 @@ export function VoteConfirmation({
             </label>
           </div>
 
+          {/* Submission Error */}
+          {error && (
+            <div className="mb-6 flex items-start gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4 animate-slide-up">
+              <AlertTriangle className="mt-0.5 h-5 w-5 text-destructive flex-shrink-0" />
+              <p className="font-medium text-destructive">{error}</p>
+            </div>
+          )}
+
           {/* Security Notice */}
           <div className="mb-6 flex items-start gap-3 rounded-lg border border-border bg-secondary/50 p-4">
             <Lock className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
@@ -98,11 +111,10 @@ export function VoteConfirmation({
               variant="outline"
               size="lg"
               onClick={onBack}
-              disabled={isSubmitting}
               className="flex-1 gap-2"
             >
               <ChevronLeft className="h-5 w-5" />
-              Go Back
+              {isSubmitting ? 'Cancel' : 'Go Back'}
             </Button>
             
             <Button
@@ -125,6 +137,15 @@ export function VoteConfirmation({
               )}
             </Button>
           </div>
+
+          {/* Mining Progress */}
+          {isSubmitting && miningProgress && (
+            <p className="mt-4 text-center text-xs font-mono text-muted-foreground">
+              Securing block: {miningProgress.attempts.toLocaleString()} hashes
+              {' • '}
+              {miningProgress.hashRate.toLocaleString()} H/s
+            </p>
+          )}
         </div>
       </div>
     </div>
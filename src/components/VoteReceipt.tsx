@@ -88,6 +88,10 @@ export function VoteReceipt({ block, miningTime, onNewVote, onExit, onHelp }: Vo
               <div className="blockchain-hash p-3 rounded-md bg-secondary/50 border border-border">
                 {block.hash}
               </div>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Keep this hash. After the election closes you can use it to verify that
+                your ballot is included in the published counted set.
+              </p>
             </div>
 
             {/* Previous Hash */}
@@ -100,10 +104,19 @@ export function VoteReceipt({ block, miningTime, onNewVote, onExit, onHelp }: Vo
               </div>
             </div>
 
-            {/* Mining Info */}
+            {/* Consensus Info */}
             <div className="flex items-center justify-between pt-4 border-t border-border">
-              <span className="text-sm text-muted-foreground">Proof-of-Work Time</span>
-              <span className="text-sm font-medium text-foreground">{miningTime}ms</span>
+              {block.signerId ? (
+                <>
+                  <span className="text-sm text-muted-foreground">Sealed By Validator</span>
+                  <span className="font-mono text-sm font-medium text-foreground">{block.signerId}</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-muted-foreground">Proof-of-Work Time</span>
+                  <span className="text-sm font-medium text-foreground">{miningTime}ms</span>
+                </>
+              )}
             </div>
           </div>
         </div>
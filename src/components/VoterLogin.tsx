@@ -3,13 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Shield, AlertCircle, Eye, EyeOff, HelpCircle, Fingerprint } from 'lucide-react';
 import { authenticateVoter, getConstituency, getVoterHash, getDemoCredentials } from '@/lib/database';
 import type { VoterRecord, Constituency } from '@/lib/database';
+import type { ElectionStatus } from '@/lib/election';
 
 interface VoterLoginProps {
   onAuthenticated: (voter: VoterRecord, constituency: Constituency, voterHash: string) => void;
   onHelpRequest: () => void;
+  electionStatus: ElectionStatus;
 }
 
-export function VoterLogin({ onAuthenticated, onHelpRequest }: VoterLoginProps) {
+export function VoterLogin({ onAuthenticated, onHelpRequest, electionStatus }: VoterLoginProps) {
   const [nationalId, setNationalId] = useState('9763558020A');
   const [pin, setPin] = useState('1234');
   const [showPin, setShowPin] = useState(false);
@@ -26,7 +28,7 @@ export function VoterLogin({ onAuthenticated, onHelpRequest }: VoterLoginProps)
     setIsLoading(true);
 
     try {
-      const result = await authenticateVoter(nationalId, pin);
+      const result = await authenticateVoter(nationalId, pin, electionStatus);
 
       if (result.success && result.voter) {
         const constituency = await getConstituency(result.voter.constituency);
@@ -0,0 +1,232 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Users, Upload, FileText, AlertTriangle, CheckCircle, RefreshCw, X } from 'lucide-react';
+import {
+  getAllConstituencies,
+  DEFAULT_PIN_ITERATIONS,
+  MIN_PIN_ITERATIONS,
+  MAX_PIN_ITERATIONS
+} from '@/lib/database';
+import { loadVoterRollSummary } from '@/lib/storage';
+import { recordAdminEvent } from '@/lib/admin-log';
+import {
+  importVoterRollInWorker,
+  type VoterRollFormat,
+  type VoterRollProgress,
+  type VoterRollReport,
+  type VoterRollSummary,
+  type VoterRollIssue
+} from '@/lib/voter-roll';
+
+interface VoterRollPanelProps {
+  locked: boolean; // The roll cannot change once voting has opened
+  adminId: string;
+}
+
+const DEMO_ROLL_URL = '/elections/demo-voter-roll.csv';
+const SHOWN_ISSUES = 20;
+
+const STAGE_LABELS: Record<VoterRollProgress['stage'], string> = {
+  validating: 'Validating rows',
+  hashing: 'Hashing credentials',
+  writing: 'Writing voter store'
+};
+
+function IssueList({ title, issues, count }: { title: string; issues: VoterRollIssue[]; count: number }) {
+  if (count === 0) return null;
+  return (
+    <div>
+      <p className="mb-1 font-medium text-warning">{title} ({count})</p>
+      <ul className="space-y-0.5 font-mono text-xs text-muted-foreground">
+        {issues.slice(0, SHOWN_ISSUES).map(issue => (
+          <li key={issue.row}>Row {issue.row}: {issue.reason}</li>
+        ))}
+      </ul>
+      {count > SHOWN_ISSUES && (
+        <p className="mt-1 text-xs text-muted-foreground">and {count - SHOWN_ISSUES} more</p>
+      )}
+    </div>
+  );
+}
+
+export function VoterRollPanel({ locked, adminId }: VoterRollPanelProps) {
+  const [summary, setSummary] = useState<VoterRollSummary | null>(null);
+  const [progress, setProgress] = useState<VoterRollProgress | null>(null);
+  const [report, setReport] = useState<VoterRollReport | null>(null);
+  const [pinIterations, setPinIterations] = useState(DEFAULT_PIN_ITERATIONS);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadVoterRollSummary().then(setSummary);
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleImport = async (text: string, format: VoterRollFormat) => {
+    setError(null);
+    setReport(null);
+    setProgress(null);
+    setIsBusy(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const constituencies = (await getAllConstituencies()).map(({ id, name }) => ({ id, name }));
+      const result = await importVoterRollInWorker(text, format, constituencies, {
+        pinIterations,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      setReport(result);
+      setSummary(result.summary);
+      await recordAdminEvent('voter-roll-imported', adminId, {
+        sourceHash: result.summary.sourceHash,
+        voterCount: result.summary.voterCount.toString(),
+        duplicateCount: result.duplicateCount.toString(),
+        malformedCount: result.malformedCount.toString(),
+        pinIterations: result.summary.pinIterations.toString()
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Voter roll import failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setIsBusy(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDemo = async () => {
+    try {
+      const response = await fetch(DEMO_ROLL_URL);
+      await handleImport(await response.text(), 'csv');
+    } catch {
+      setError('The demonstration voter roll could not be loaded');
+    }
+  };
+
+  return (
+    <div className="electoral-card lg:col-span-2">
+      <h3 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Users className="h-5 w-5 text-primary" />
+        Voter Roll
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          <span className="font-medium text-destructive">{error}</span>
+        </div>
+      )}
+
+      <div className="mb-4 rounded-lg border border-border bg-secondary/30 p-4 text-sm">
+        {summary ? (
+          <>
+            <p className="text-foreground">
+              {summary.voterCount.toLocaleString()} voters, imported {new Date(summary.importedAt).toLocaleString()}
+            </p>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Source file SHA-256: <span className="font-mono">{summary.sourceHash}</span>
+            </p>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {summary.pinIterations
+                ? `PINs hashed with salted PBKDF2-SHA256, ${summary.pinIterations.toLocaleString()} iterations`
+                : 'PINs hashed with unsalted SHA-256 (legacy roll); each is re-hashed when its voter signs in'}
+            </p>
+          </>
+        ) : (
+          <p className="text-muted-foreground">No voter roll imported. Voters cannot sign in until one is.</p>
+        )}
+      </div>
+
+      {locked ? (
+        <p className="text-sm text-muted-foreground">The voter roll is fixed once voting has opened.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept=".csv,text/csv,.json,application/json"
+              className="hidden"
+              disabled={isBusy}
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) await handleImport(await file.text(), file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+              }}
+            />
+            <span className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-input bg-background px-4 py-2 text-sm font-medium hover:bg-accent">
+              <Upload className="h-4 w-4" />
+              Import Roll (CSV or JSON)
+            </span>
+          </label>
+          <Button variant="ghost" onClick={handleDemo} disabled={isBusy} className="gap-2">
+            <FileText className="h-4 w-4" />
+            Use Demonstration Roll
+          </Button>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            PIN hash iterations
+            <input
+              type="number"
+              min={MIN_PIN_ITERATIONS}
+              max={MAX_PIN_ITERATIONS}
+              step={1000}
+              value={pinIterations}
+              disabled={isBusy}
+              onChange={(e) => setPinIterations(Number(e.target.value))}
+              className="secure-input w-32 py-1 text-sm"
+            />
+          </label>
+          <p className="text-xs text-muted-foreground">
+            Columns: national_id, pin, constituency (id or name). Importing replaces the current roll.
+            Import time grows with the iteration count; voters hashed with fewer iterations are re-hashed when they sign in.
+          </p>
+        </div>
+      )}
+
+      {isBusy && (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              {progress
+                ? `${STAGE_LABELS[progress.stage]} (${progress.processed.toLocaleString()} of ${progress.total.toLocaleString()})`
+                : 'Reading roll...'}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => abortRef.current?.abort()} className="gap-1">
+              <X className="h-4 w-4" />
+              Cancel
+            </Button>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-secondary">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${progress && progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-4 space-y-3 border-t border-border pt-4 text-sm">
+          <div className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-success" />
+            <span className="font-medium text-success">
+              Imported {report.summary.voterCount.toLocaleString()} of {report.totalRows.toLocaleString()} rows
+            </span>
+          </div>
+          <div className="grid gap-1 sm:grid-cols-2">
+            {Object.entries(report.summary.perConstituency).sort().map(([constituencyId, count]) => (
+              <p key={constituencyId} className="text-muted-foreground">
+                <span className="font-mono">{constituencyId}</span>: {count.toLocaleString()}
+              </p>
+            ))}
+          </div>
+          <IssueList title="Malformed rows (not imported)" issues={report.malformed} count={report.malformedCount} />
+          <IssueList title="Duplicate rows (not imported)" issues={report.duplicates} count={report.duplicateCount} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import {
+  authenticateAdmin,
+  createAdminAccount,
+  removeAdminAccount,
+  unlockAdminAccount,
+  type AdminSession
+} from './admin-accounts';
+import { loadAdminLog } from './storage';
+
+describe('administrator accounts', { timeout: 30_000 }, () => {
+  let officer: AdminSession;
+
+  beforeAll(async () => {
+    await expect(createAdminAccount('technician', 'technician-password', 'technician', null))
+      .rejects.toThrow('The first account must be a presiding officer');
+    officer = await createAdminAccount('Returning-Officer', 'officer-password', 'presiding-officer', null);
+  }, 30_000);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets only a presiding officer create accounts', async () => {
+    expect(officer).toEqual({ username: 'returning-officer', role: 'presiding-officer' });
+    await expect(createAdminAccount('second-officer', 'officer-password', 'presiding-officer', null))
+      .rejects.toThrow('Administrator accounts already exist');
+
+    const technician = await createAdminAccount('tech-1', 'technician-password', 'technician', officer);
+    await expect(createAdminAccount('tech-2', 'technician-password', 'technician', technician))
+      .rejects.toThrow('Only a presiding officer can create accounts');
+    await expect(createAdminAccount('tech-3', 'too-short', 'technician', officer))
+      .rejects.toThrow('Password must be at least 10 characters');
+  });
+
+  it('locks an account after three wrong passwords, until it expires or is unlocked', async () => {
+    await createAdminAccount('auditor-1', 'auditor-password', 'auditor', officer);
+
+    expect(await authenticateAdmin('auditor-1', 'wrong-password')).toMatchObject({ success: false, attemptsRemaining: 2 });
+    expect(await authenticateAdmin('auditor-1', 'wrong-password')).toMatchObject({ success: false, attemptsRemaining: 1 });
+    expect(await authenticateAdmin('auditor-1', 'wrong-password')).toEqual({
+      success: false,
+      error: 'Account locked due to too many failed attempts. Try again in 5 minutes.',
+      attemptsRemaining: 0
+    });
+    expect((await authenticateAdmin('auditor-1', 'auditor-password')).error).toMatch(/^Account locked\. Try again in \d+ seconds\.$/);
+
+    const failures = (await loadAdminLog()).filter(entry => entry.type === 'login-failed' && entry.actor === 'auditor-1');
+    expect(failures.map(entry => entry.details.reason))
+      .toEqual(['wrong password', 'wrong password', 'wrong password; account locked', 'account locked']);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 5 * 60 * 1000 + 1);
+    expect(await authenticateAdmin('auditor-1', 'auditor-password')).toEqual({
+      success: true,
+      session: { username: 'auditor-1', role: 'auditor' }
+    });
+    vi.useRealTimers();
+
+    for (let i = 0; i < 3; i++) await authenticateAdmin('auditor-1', 'wrong-password');
+    await expect(unlockAdminAccount('auditor-1', { username: 'auditor-1', role: 'auditor' }))
+      .rejects.toThrow('Only a presiding officer can unlock accounts');
+    await unlockAdminAccount('auditor-1', officer);
+    expect((await authenticateAdmin('auditor-1', 'auditor-password')).success).toBe(true);
+  });
+
+  it('keeps the signed-in account and the last presiding officer', async () => {
+    await expect(removeAdminAccount('returning-officer', officer)).rejects.toThrow('You cannot remove your own account');
+
+    const deputy = await createAdminAccount('deputy-officer', 'deputy-password', 'presiding-officer', officer);
+    await removeAdminAccount('returning-officer', deputy);
+    await expect(removeAdminAccount('deputy-officer', { username: 'someone-else', role: 'presiding-officer' }))
+      .rejects.toThrow('The last presiding officer cannot be removed');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * ADMINISTRATOR ACCOUNTS AND ROLES
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Each polling official signs in to the administrator console with their
+ * own account. Accounts are kept in the kiosk's IndexedDB with passwords
+ * hashed by PBKDF2-SHA256 under a per-account random salt. Repeated
+ * failures lock the account, as on the voter path.
+ *
+ * Every account has one role, and the console shows only the panels that
+ * role needs:
+ * - Presiding officer: runs the election (lifecycle, key ceremony, voter
+ *   roll, devices, aggregation, accounts) and may export audit data and
+ *   the admin log
+ * - Technician: system health, chain validation and kiosk devices; no
+ *   audit export
+ * - Auditor: system health, chain validation, audit export and the admin log
+ * - Trustee: the quorum tally ceremony only
+ *
+ * On first use the kiosk has no accounts; the first account created must
+ * be a presiding officer, who then creates the others.
+ *
+ * Sign-ins, failed sign-ins and account changes are recorded in the admin
+ * log (see admin-log.ts).
+ *
+ * At the key ceremony the signing keys of every official who may run the
+ * election are committed in the genesis block; only those keys can sign
+ * phase transitions (see election.ts).
+ *
+ * Security Properties:
+ * - Per-user credentials: actions are attributable to one official
+ * - Salted, slow password hashes: no plaintext or fast hashes stored
+ * - Lockout: 3 failed attempts lock the account for 5 minutes
+ * - Least privilege: panels are gated by role
+ */
+
+import { pbkdf2Sha256, bufferToHex, generateRandomBytes } from './crypto';
+import { recordAdminEvent } from './admin-log';
+import { createAuditSigningKey } from './audit';
+import type { AuthorisedAdministrator } from './election';
+import {
+  loadAdminAccount,
+  loadAdminAccounts,
+  saveAdminAccount,
+  deleteAdminAccount,
+  loadAuditSigningKey,
+  saveAuditSigningKey
+} from './storage';
+
+export type AdminRole = 'presiding-officer' | 'technician' | 'auditor' | 'trustee';
+
+export const ADMIN_ROLES: AdminRole[] = ['presiding-officer', 'technician', 'auditor', 'trustee'];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  'presiding-officer': 'Presiding Officer',
+  technician: 'Technician',
+  auditor: 'Auditor',
+  trustee: 'Trustee'
+};
+
+/**
+ * Console areas that are gated by role
+ */
+export type AdminCapability =
+  | 'system-health'
+  | 'validate-chain'
+  | 'export-audit'
+  | 'manage-election'
+  | 'key-ceremony'
+  | 'manage-devices'
+  | 'voter-roll'
+  | 'aggregate'
+  | 'tally'
+  | 'manage-accounts'
+  | 'admin-log';
+
+const ROLE_CAPABILITIES: Record<AdminRole, AdminCapability[]> = {
+  'presiding-officer': [
+    'system-health',
+    'validate-chain',
+    'export-audit',
+    'manage-election',
+    'key-ceremony',
+    'manage-devices',
+    'voter-roll',
+    'aggregate',
+    'tally',
+    'manage-accounts',
+    'admin-log'
+  ],
+  technician: ['system-health', 'validate-chain', 'manage-devices'],
+  auditor: ['system-health', 'validate-chain', 'export-audit', 'admin-log'],
+  trustee: ['tally']
+};
+
+export interface AdminAccount {
+  username: string;
+  role: AdminRole;
+  passwordHash: string;       // PBKDF2-SHA256, hex
+  passwordSalt: string;       // Hex
+  passwordIterations: number;
+  failedAttempts: number;
+  lockedUntil: number | null;
+  createdAt: number;
+  createdBy: string | null;   // Null for the first presiding officer
+}
+
+/**
+ * The signed-in official, as passed to the console
+ */
+export interface AdminSession {
+  username: string;
+  role: AdminRole;
+}
+
+export const ADMIN_PASSWORD_ITERATIONS = 310_000;
+export const MIN_ADMIN_PASSWORD_LENGTH = 10;
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{2,31}$/;
+const MAX_FAILED_ATTEMPTS = 3;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Why credentials are being checked: a console sign-in, or a second
+ * official approving an action (see dual-control.ts)
+ */
+export type AdminAuthPurpose = 'console' | 'approval';
+
+export function hasCapability(role: AdminRole, capability: AdminCapability): boolean {
+  return ROLE_CAPABILITIES[role].includes(capability);
+}
+
+/**
+ * Whether any account exists (if not, the console offers first-time setup)
+ */
+export async function hasAdminAccounts(): Promise<boolean> {
+  return (await loadAdminAccounts()).length > 0;
+}
+
+/**
+ * Accounts without their password hashes, for the accounts panel
+ */
+export async function listAdminAccounts(): Promise<Omit<AdminAccount, 'passwordHash' | 'passwordSalt'>[]> {
+  return (await loadAdminAccounts()).map(({ passwordHash: _hash, passwordSalt: _salt, ...account }) => account);
+}
+
+/**
+ * Create an account
+ * `createdBy` is null only for the first account, which must be a
+ * presiding officer; afterwards only a presiding officer may create accounts.
+ */
+export async function createAdminAccount(
+  username: string,
+  password: string,
+  role: AdminRole,
+  createdBy: AdminSession | null
+): Promise<AdminSession> {
+  const name = username.trim().toLowerCase();
+  if (!USERNAME_PATTERN.test(name)) {
+    throw new Error('Username must be 3-32 lower-case letters, digits, dots, dashes or underscores');
+  }
+  if (password.length < MIN_ADMIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_ADMIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const accounts = await loadAdminAccounts();
+  if (createdBy === null) {
+    if (accounts.length > 0) throw new Error('Administrator accounts already exist');
+    if (role !== 'presiding-officer') throw new Error('The first account must be a presiding officer');
+  } else if (!hasCapability(createdBy.role, 'manage-accounts')) {
+    throw new Error('Only a presiding officer can create accounts');
+  }
+  if (accounts.some(account => account.username === name)) {
+    throw new Error(`Account "${name}" already exists`);
+  }
+
+  const passwordSalt = bufferToHex(generateRandomBytes(16).buffer as ArrayBuffer);
+  await saveAdminAccount({
+    username: name,
+    role,
+    passwordHash: await pbkdf2Sha256(password, passwordSalt, ADMIN_PASSWORD_ITERATIONS),
+    passwordSalt,
+    passwordIterations: ADMIN_PASSWORD_ITERATIONS,
+    failedAttempts: 0,
+    lockedUntil: null,
+    createdAt: Date.now(),
+    createdBy: createdBy?.username ?? null
+  });
+  await recordAdminEvent('account-created', createdBy?.username ?? name, { username: name, role });
+
+  return { username: name, role };
+}
+
+/**
+ * Authenticate an administrator
+ *
+ * Security: 3 failed attempts locks the account for 5 minutes
+ * Every failure is logged; successful console sign-ins are logged too
+ * (successful approvals are logged by dual-control.ts).
+ */
+export async function authenticateAdmin(
+  username: string,
+  password: string,
+  purpose: AdminAuthPurpose = 'console'
+): Promise<{ success: boolean; session?: AdminSession; error?: string; attemptsRemaining?: number }> {
+  const name = username.trim().toLowerCase();
+  const logFailure = (reason: string) =>
+    recordAdminEvent('login-failed', name.slice(0, 64), { reason, purpose });
+
+  const account = await loadAdminAccount(name);
+  if (!account) {
+    await logFailure('unknown account');
+    return { success: false, error: 'Invalid administrator credentials' };
+  }
+
+  if (account.lockedUntil && Date.now() < account.lockedUntil) {
+    const remainingSeconds = Math.ceil((account.lockedUntil - Date.now()) / 1000);
+    await logFailure('account locked');
+    return { success: false, error: `Account locked. Try again in ${remainingSeconds} seconds.` };
+  }
+
+  if (account.lockedUntil && Date.now() >= account.lockedUntil) {
+    account.lockedUntil = null;
+    account.failedAttempts = 0;
+  }
+
+  const passwordHash = await pbkdf2Sha256(password, account.passwordSalt, account.passwordIterations);
+  if (passwordHash !== account.passwordHash) {
+    account.failedAttempts++;
+
+    if (account.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      account.lockedUntil = Date.now() + LOCKOUT_MS;
+      await saveAdminAccount(account);
+      await logFailure('wrong password; account locked');
+      return {
+        success: false,
+        error: 'Account locked due to too many failed attempts. Try again in 5 minutes.',
+        attemptsRemaining: 0
+      };
+    }
+
+    await saveAdminAccount(account);
+    await logFailure('wrong password');
+    return {
+      success: false,
+      error: 'Invalid administrator credentials',
+      attemptsRemaining: MAX_FAILED_ATTEMPTS - account.failedAttempts
+    };
+  }
+
+  account.failedAttempts = 0;
+  await saveAdminAccount(account);
+  if (purpose === 'console') {
+    await recordAdminEvent('login', account.username, { role: account.role });
+  }
+
+  return { success: true, session: { username: account.username, role: account.role } };
+}
+
+/**
+ * Clear a locked account's failed attempts (presiding officer only)
+ */
+export async function unlockAdminAccount(username: string, by: AdminSession): Promise<void> {
+  if (!hasCapability(by.role, 'manage-accounts')) {
+    throw new Error('Only a presiding officer can unlock accounts');
+  }
+  const account = await loadAdminAccount(username);
+  if (!account) throw new Error(`No account "${username}"`);
+
+  account.failedAttempts = 0;
+  account.lockedUntil = null;
+  await saveAdminAccount(account);
+  await recordAdminEvent('account-unlocked', by.username, { username });
+}
+
+/**
+ * Remove an account (presiding officer only)
+ * The signed-in account and the last presiding officer cannot be removed.
+ */
+export async function removeAdminAccount(username: string, by: AdminSession): Promise<void> {
+  if (!hasCapability(by.role, 'manage-accounts')) {
+    throw new Error('Only a presiding officer can remove accounts');
+  }
+  if (username === by.username) {
+    throw new Error('You cannot remove your own account');
+  }
+
+  const accounts = await loadAdminAccounts();
+  const account = accounts.find(a => a.username === username);
+  if (!account) throw new Error(`No account "${username}"`);
+  if (
+    account.role === 'presiding-officer' &&
+    accounts.filter(a => a.role === 'presiding-officer').length === 1
+  ) {
+    throw new Error('The last presiding officer cannot be removed');
+  }
+
+  await deleteAdminAccount(username);
+  await recordAdminEvent('account-removed', by.username, { username, role: account.role });
+}
+
+/**
+ * Signing keys of every official who may run the election, created where
+ * missing, for the genesis block to commit at the key ceremony
+ */
+export async function provisionPhaseSigners(): Promise<AuthorisedAdministrator[]> {
+  const signers: AuthorisedAdministrator[] = [];
+
+  for (const account of await loadAdminAccounts()) {
+    if (!hasCapability(account.role, 'manage-election')) continue;
+
+    let signingKey = await loadAuditSigningKey(account.username);
+    if (!signingKey) {
+      signingKey = await createAuditSigningKey(account.username);
+      await saveAuditSigningKey(signingKey);
+    }
+    signers.push({ adminId: account.username, publicKey: signingKey.publicKey });
+  }
+
+  if (signers.length === 0) {
+    throw new Error('No presiding officer account exists to sign election phase changes');
+  }
+  return signers;
+}
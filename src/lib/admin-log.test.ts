@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import {
+  getAdminLogAnchors,
+  hashAdminLogEntry,
+  recordAdminEvent,
+  verifyAdminLog,
+  ADMIN_LOG_GENESIS_HASH,
+  type AdminLogEntry
+} from './admin-log';
+import { validateChain } from './blockchain';
+import { loadAdminLog } from './storage';
+import { createTestElection } from '@/test/election-fixture';
+
+// Rewrite a log from scratch with consistent hashes and links, as someone
+// with access to the kiosk's storage could
+async function rewrite(entries: AdminLogEntry[]): Promise<AdminLogEntry[]> {
+  const rewritten: AdminLogEntry[] = [];
+  for (const { hash: _hash, ...unsigned } of entries) {
+    const previousHash = rewritten.length > 0 ? rewritten[rewritten.length - 1].hash : ADMIN_LOG_GENESIS_HASH;
+    const entry = { ...unsigned, previousHash };
+    rewritten.push({ ...entry, hash: await hashAdminLogEntry(entry) });
+  }
+  return rewritten;
+}
+
+describe('admin log', { timeout: 30_000 }, () => {
+  it('detects an edited, removed or reordered entry', async () => {
+    await recordAdminEvent('login', 'returning-officer');
+    await recordAdminEvent('export', 'returning-officer', { kind: 'audit' }, 'auditor');
+    await recordAdminEvent('logout', 'returning-officer');
+    const log = (await loadAdminLog()).slice(0, 3);
+
+    expect(await verifyAdminLog(log, [])).toEqual({ isValid: true, error: null });
+
+    const edited = log.map((entry, i) => i === 1 ? { ...entry, approver: null } : entry);
+    expect(await verifyAdminLog(edited, [])).toEqual({ isValid: false, error: 'Invalid hash at admin log entry 1' });
+
+    expect((await verifyAdminLog([log[0], { ...log[2], index: 1 }], [])).error).toBe('Broken link at admin log entry 1');
+    expect((await verifyAdminLog([log[0], log[2], log[1]], [])).error).toBe('Admin log entry 1 has index 2');
+  });
+
+  it('rejects a consistently rewritten log against the tip committed in a phase block', async () => {
+    const election = await createTestElection('rsa-oaep');
+    await recordAdminEvent('key-ceremony', election.admin.adminId);
+    const tip = await recordAdminEvent('device-registered', election.admin.adminId, { deviceId: 'KIOSK-01' });
+    await election.recordPhase('open', { index: tip.index, hash: tip.hash });
+
+    expect((await validateChain(election.state.chain, { devices: election.devices })).isValid).toBe(true);
+    const anchors = getAdminLogAnchors(election.state.chain, election.device.deviceId);
+    expect(anchors).toEqual([{ index: tip.index, hash: tip.hash }]);
+    expect(getAdminLogAnchors(election.state.chain, 'KIOSK-02')).toEqual([]);
+
+    const log = await loadAdminLog();
+    expect(await verifyAdminLog(log, anchors)).toEqual({ isValid: true, error: null });
+
+    // The rewrite passes the hash chain, but not the anchor
+    const rewritten = await rewrite(log.map(entry => entry.index === 0 ? { ...entry, actor: 'someone-else' } : entry));
+    expect((await verifyAdminLog(rewritten, [])).isValid).toBe(true);
+    expect((await verifyAdminLog(rewritten, anchors)).error)
+      .toBe(`Admin log entry ${tip.index} does not match the hash committed on chain`);
+
+    expect((await verifyAdminLog(log.slice(0, tip.index), anchors)).error)
+      .toBe(`Admin log entry ${tip.index} committed on chain is missing`);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * ADMINISTRATIVE EVENT LOG
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Sensitive administrative events are appended to a hash-chained log kept
+ * in IndexedDB next to the vote chain. Each entry commits to the hash of
+ * the entry before it, so altering, removing or reordering any recorded
+ * event breaks every later link.
+ *
+ * A hash chain alone does not stop someone with access to IndexedDB from
+ * rewriting every entry and the tip together. Each signed phase
+ * transition therefore commits the current tip of the recording kiosk's
+ * log (see election.ts), and verification requires every entry committed
+ * on chain to still be present with the same hash.
+ *
+ * Recorded events: console sign-ins and failed sign-ins (including failed
+ * approvals), sign-outs, account changes, two-person approvals, chain
+ * validations, exports, the key ceremony, voter roll imports, device
+ * registry changes, phase changes, Merkle root publication and the tally.
+ *
+ * The log can be exported as an SVS-ADMIN-LOG file with the same detached
+ * ECDSA signature as audit exports, and checked offline with the chain
+ * verifier CLI.
+ *
+ * Security Properties:
+ * - Append-only: an entry is stored only if it extends the stored tip
+ * - Tamper evidence: SHA-256 hash chain over a canonical encoding
+ * - External anchor: entries up to the last phase change are pinned by
+ *   administrator-signed blocks on the vote chain
+ * - Attribution: every entry names the acting official, and the approving
+ *   official for actions under the two-person rule
+ */
+
+import { sha256 } from './crypto';
+import { signExportFile, type AuditSigningKey } from './audit';
+import { appendAdminLogEntry, loadAdminLogTip } from './storage';
+import { parsePhaseBlock, type AdminLogAnchor } from './election';
+import type { Block } from './blockchain';
+
+export type AdminEventType =
+  | 'login'
+  | 'login-failed'
+  | 'logout'
+  | 'account-created'
+  | 'account-unlocked'
+  | 'account-removed'
+  | 'dual-authorisation'
+  | 'chain-validated'
+  | 'export'
+  | 'key-ceremony'
+  | 'pseudonym-key-installed'
+  | 'voter-roll-imported'
+  | 'device-provisioned'
+  | 'device-registered'
+  | 'device-revoked'
+  | 'phase-change'
+  | 'merkle-published'
+  | 'tally';
+
+export const ADMIN_EVENT_LABELS: Record<AdminEventType, string> = {
+  login: 'Signed in',
+  'login-failed': 'Failed sign-in',
+  logout: 'Signed out',
+  'account-created': 'Account created',
+  'account-unlocked': 'Account unlocked',
+  'account-removed': 'Account removed',
+  'dual-authorisation': 'Two-person approval',
+  'chain-validated': 'Chain validated',
+  export: 'Export',
+  'key-ceremony': 'Key ceremony',
+  'pseudonym-key-installed': 'Pseudonym key installed',
+  'voter-roll-imported': 'Voter roll imported',
+  'device-provisioned': 'Device provisioned',
+  'device-registered': 'Device registered',
+  'device-revoked': 'Device revoked',
+  'phase-change': 'Phase change',
+  'merkle-published': 'Merkle root published',
+  tally: 'Tally'
+};
+
+export interface AdminLogEntry {
+  index: number;
+  timestamp: number;
+  type: AdminEventType;
+  actor: string;                   // Username of the official who acted
+  approver: string | null;         // Second official, under the two-person rule
+  details: Record<string, string>;
+  previousHash: string;
+  hash: string;
+}
+
+/**
+ * Exported admin log, as written by createAdminLogExport
+ */
+export interface AdminLogFile {
+  format: typeof ADMIN_LOG_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: string;
+  deviceId: string | null; // Kiosk that kept the log, null before provisioning
+  entryCount: number;
+  tipHash: string;
+  entries: AdminLogEntry[];
+}
+
+export const ADMIN_LOG_GENESIS_HASH = '0'.repeat(64);
+export const ADMIN_LOG_FORMAT = 'SVS-ADMIN-LOG';
+const ADMIN_LOG_VERSION = 1;
+
+// Retries when another tab appends between reading the tip and writing
+const APPEND_ATTEMPTS = 3;
+
+/**
+ * Hash of an entry over a fixed field order, with details sorted by key
+ */
+export async function hashAdminLogEntry(entry: Omit<AdminLogEntry, 'hash'>): Promise<string> {
+  return sha256(JSON.stringify([
+    entry.index,
+    entry.timestamp,
+    entry.type,
+    entry.actor,
+    entry.approver,
+    Object.keys(entry.details).sort().map(key => [key, entry.details[key]]),
+    entry.previousHash
+  ]));
+}
+
+/**
+ * Append an event to the persistent admin log
+ */
+export async function recordAdminEvent(
+  type: AdminEventType,
+  actor: string,
+  details: Record<string, string> = {},
+  approver: string | null = null
+): Promise<AdminLogEntry> {
+  for (let attempt = 1; ; attempt++) {
+    const tip = await loadAdminLogTip();
+    const unsigned: Omit<AdminLogEntry, 'hash'> = {
+      index: tip ? tip.index + 1 : 0,
+      timestamp: Date.now(),
+      type,
+      actor,
+      approver,
+      details,
+      previousHash: tip ? tip.hash : ADMIN_LOG_GENESIS_HASH
+    };
+    const entry: AdminLogEntry = { ...unsigned, hash: await hashAdminLogEntry(unsigned) };
+
+    try {
+      await appendAdminLogEntry(entry);
+      return entry;
+    } catch (error) {
+      if (attempt >= APPEND_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Admin log tips committed by the phase blocks a kiosk recorded
+ */
+export function getAdminLogAnchors(chain: Block[], deviceId: string): AdminLogAnchor[] {
+  return chain.slice(1)
+    .filter(block => block.deviceId === deviceId)
+    .map(block => parsePhaseBlock(block)?.adminLog ?? null)
+    .filter((anchor): anchor is AdminLogAnchor => anchor !== null);
+}
+
+/**
+ * Check every link and hash of an admin log, and every entry that a
+ * phase block committed (see getAdminLogAnchors)
+ */
+export async function verifyAdminLog(
+  entries: AdminLogEntry[],
+  anchors: AdminLogAnchor[]
+): Promise<{ isValid: boolean; error: string | null }> {
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...unsigned } = entries[i];
+    if (unsigned.index !== i) {
+      return { isValid: false, error: `Admin log entry ${i} has index ${unsigned.index}` };
+    }
+    const expectedPrevious = i === 0 ? ADMIN_LOG_GENESIS_HASH : entries[i - 1].hash;
+    if (unsigned.previousHash !== expectedPrevious) {
+      return { isValid: false, error: `Broken link at admin log entry ${i}` };
+    }
+    if (await hashAdminLogEntry(unsigned) !== hash) {
+      return { isValid: false, error: `Invalid hash at admin log entry ${i}` };
+    }
+    if (anchors.some(anchor => anchor.index === i && anchor.hash !== hash)) {
+      return { isValid: false, error: `Admin log entry ${i} does not match the hash committed on chain` };
+    }
+  }
+  const missing = anchors.find(anchor => anchor.index >= entries.length);
+  if (missing) {
+    return { isValid: false, error: `Admin log entry ${missing.index} committed on chain is missing` };
+  }
+  return { isValid: true, error: null };
+}
+
+/**
+ * Export the admin log with a detached signature by the exporting official
+ * The signature has the same format as audit exports (see audit.ts).
+ */
+export async function createAdminLogExport(
+  entries: AdminLogEntry[],
+  deviceId: string | null,
+  signer: AuditSigningKey
+): Promise<{ file: string; signature: string }> {
+  const log: AdminLogFile = {
+    format: ADMIN_LOG_FORMAT,
+    version: ADMIN_LOG_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: signer.adminId,
+    deviceId,
+    entryCount: entries.length,
+    tipHash: entries.length > 0 ? entries[entries.length - 1].hash : ADMIN_LOG_GENESIS_HASH,
+    entries
+  };
+  const file = JSON.stringify(log, null, 2);
+  return { file, signature: await signExportFile(file, signer) };
+}
+
+/**
+ * Parse an exported admin log
+ * Throws if the text is not an SVS-ADMIN-LOG file.
+ */
+export function parseAdminLogFile(text: string): AdminLogFile {
+  let value: AdminLogFile;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Admin log file is not valid JSON');
+  }
+  if (value?.format !== ADMIN_LOG_FORMAT || !Array.isArray(value.entries)) {
+    throw new Error('File is not an exported admin log');
+  }
+  if (value.version !== ADMIN_LOG_VERSION) {
+    throw new Error(`Unsupported admin log version ${value.version}`);
+  }
+  return value;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createAuditExport, getManifestValidationOptions, verifyAuditExport, type AuditFile } from './audit';
+import { createTestElection, voterHash, type TestElection } from '@/test/election-fixture';
+
+describe('verifiable audit export', { timeout: 30_000 }, () => {
+  let election: TestElection;
+  let file: string;
+  let signature: string;
+
+  beforeAll(async () => {
+    election = await createTestElection('elgamal');
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'bob');
+    ({ file, signature } = await createAuditExport(election.state, {
+      electionKey: election.electionKey,
+      electionDefinition: election.definition,
+      devices: election.devices,
+      validators: election.validators
+    }, election.admin));
+  }, 60_000);
+
+  it('re-validates the chain, ballot proofs included, from the manifest', async () => {
+    const result = await verifyAuditExport(file, signature, election.admin.publicKey);
+
+    expect(result).toMatchObject({ signatureValid: true, manifestValid: true, chainValid: true, errors: [] });
+  });
+
+  it('derives the ballot layouts from the committed election definition', async () => {
+    const audit: AuditFile = JSON.parse(file);
+    const options = await getManifestValidationOptions(audit.manifest);
+
+    expect(options.constituencies).toEqual(election.constituencies);
+    expect(options.definitionHash).toBe(election.definitionHash);
+  });
+
+  it('rejects a manifest whose election definition was edited', async () => {
+    const audit: AuditFile = JSON.parse(file);
+    audit.manifest.electionDefinition!.constituencies[0].candidates.pop();
+
+    const result = await verifyAuditExport(JSON.stringify(audit, null, 2), signature);
+
+    expect(result.chainValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Signature does not match the file',
+      'Genesis block does not commit to this election definition'
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * VERIFIABLE AUDIT EXPORT
+ *
+ * TECHNICAL AFFIDAVIT:
+ * The summary export (exportChainForAudit) is for display only: it
+ * truncates voter hashes and omits ballots, so no hash can be recomputed.
+ * The verifiable export carries every block field plus a manifest with
+ * the context an outside auditor needs to re-run validateChain: consensus
+ * mode, election public key, election definition and the device registry.
+ * Nothing the genesis block commits to is trusted from the manifest: the
+ * difficulty policy comes from the genesis block, and the ballot layouts
+ * are derived from the definition, whose hash the genesis block commits.
+ *
+ * The export file is signed by the exporting administrator with an ECDSA
+ * P-256 key. The signature is detached: it is a separate file over the
+ * exact bytes of the export, so the export can be hashed, archived and
+ * published unchanged.
+ *
+ * Security Properties:
+ * - Independent re-validation: all hashed fields are exported verbatim
+ * - Manifest binding: block count and tip hash must match the blocks
+ * - Attribution: detached signature by a named administrator key
+ * - The signing key's fingerprint is shown so it can be checked out of band
+ */
+
+import { generateSigningKeyPair, signData, verifySignature, sha256 } from './crypto';
+import {
+  validateChain,
+  type AuthorisedValidator,
+  type Block,
+  type BlockchainState,
+  type ChainValidationOptions,
+  type ConsensusMode
+} from './blockchain';
+import type { PublishedElectionKey } from './key-ceremony';
+import type { AuthorisedDevice } from './devices';
+import {
+  getBallotLayouts,
+  hashElectionDefinition,
+  parseElectionDefinition,
+  type ElectionDefinition
+} from './election-definition';
+
+const AUDIT_FORMAT = 'SVS-AUDIT';
+const AUDIT_SIGNATURE_FORMAT = 'SVS-AUDIT-SIG';
+const AUDIT_VERSION = 2;
+
+export interface AuditManifest {
+  format: typeof AUDIT_FORMAT;
+  version: number;
+  exportedAt: number;
+  exportedBy: string;
+  consensus: ConsensusMode;
+  blockCount: number;   // Including genesis
+  tipIndex: number;
+  tipHash: string;
+  electionKey: PublishedElectionKey | null;
+  electionDefinition: ElectionDefinition | null; // Committed by the genesis block
+  devices: AuthorisedDevice[];
+  validators: AuthorisedValidator[];
+}
+
+export interface AuditFile {
+  manifest: AuditManifest;
+  blocks: Block[];
+}
+
+/**
+ * Detached signature over the exact bytes of an audit file
+ */
+export interface AuditSignature {
+  format: typeof AUDIT_SIGNATURE_FORMAT;
+  algorithm: 'ECDSA-P256-SHA256';
+  signerId: string;
+  publicKey: string; // SPKI, hex
+  fileHash: string;  // SHA-256 of the audit file, for reference
+  signature: string;
+}
+
+/**
+ * An administrator's audit signing key (private key non-extractable)
+ */
+export interface AuditSigningKey {
+  adminId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+  createdAt: number;
+}
+
+export interface AuditContext {
+  electionKey: PublishedElectionKey | null;
+  electionDefinition: ElectionDefinition | null;
+  devices: AuthorisedDevice[];
+  validators?: AuthorisedValidator[];
+}
+
+export interface AuditVerification {
+  signatureValid: boolean;
+  signerId: string | null;
+  signerFingerprint: string | null;
+  manifestValid: boolean;
+  chainValid: boolean;
+  invalidBlockIndex: number | null;
+  blockCount: number;
+  tipHash: string | null;
+  errors: string[];
+}
+
+export async function createAuditSigningKey(adminId: string): Promise<AuditSigningKey> {
+  const { publicKey, privateKey } = await generateSigningKeyPair();
+  return { adminId, publicKey, privateKey, createdAt: Date.now() };
+}
+
+/**
+ * Short fingerprint of a signing key for out-of-band comparison
+ */
+export async function auditKeyFingerprint(publicKey: string): Promise<string> {
+  return (await sha256(publicKey)).substring(0, 16);
+}
+
+/**
+ * Create a verifiable audit export and its detached signature
+ */
+export async function createAuditExport(
+  state: BlockchainState,
+  context: AuditContext,
+  signer: AuditSigningKey
+): Promise<{ file: string; signature: string }> {
+  const tip = state.chain[state.chain.length - 1];
+
+  const audit: AuditFile = {
+    manifest: {
+      format: AUDIT_FORMAT,
+      version: AUDIT_VERSION,
+      exportedAt: Date.now(),
+      exportedBy: signer.adminId,
+      consensus: state.consensus,
+      blockCount: state.chain.length,
+      tipIndex: tip.index,
+      tipHash: tip.hash,
+      electionKey: context.electionKey,
+      electionDefinition: context.electionDefinition,
+      devices: context.devices,
+      validators: context.validators ?? []
+    },
+    blocks: state.chain
+  };
+
+  const file = JSON.stringify(audit, null, 2);
+  return { file, signature: await signExportFile(file, signer) };
+}
+
+/**
+ * Detached signature over the exact bytes of an export file
+ * Used for audit exports and admin log exports (see admin-log.ts).
+ */
+export async function signExportFile(file: string, signer: AuditSigningKey): Promise<string> {
+  const signature: AuditSignature = {
+    format: AUDIT_SIGNATURE_FORMAT,
+    algorithm: 'ECDSA-P256-SHA256',
+    signerId: signer.adminId,
+    publicKey: signer.publicKey,
+    fileHash: await sha256(file),
+    signature: await signData(file, signer.privateKey)
+  };
+  return JSON.stringify(signature, null, 2);
+}
+
+/**
+ * Check a detached signature made by signExportFile
+ *
+ * Pass `trustedPublicKey` to require a specific signer; otherwise the key
+ * embedded in the signature file is used and its fingerprint reported.
+ */
+export async function verifyExportSignature(
+  fileText: string,
+  signatureText: string,
+  trustedPublicKey?: string
+): Promise<{ signatureValid: boolean; signerId: string | null; signerFingerprint: string | null; error: string | null }> {
+  let signature: AuditSignature;
+  try {
+    signature = JSON.parse(signatureText);
+    if (signature?.format !== AUDIT_SIGNATURE_FORMAT) throw new Error();
+  } catch {
+    return { signatureValid: false, signerId: null, signerFingerprint: null, error: 'Signature file is not an audit signature' };
+  }
+
+  const signer = { signerId: signature.signerId, signerFingerprint: await auditKeyFingerprint(signature.publicKey) };
+  if (trustedPublicKey && signature.publicKey !== trustedPublicKey) {
+    return { ...signer, signatureValid: false, error: 'File was not signed by the trusted key' };
+  }
+  if (!await verifySignature(fileText, signature.signature, signature.publicKey)) {
+    return { ...signer, signatureValid: false, error: 'Signature does not match the file' };
+  }
+  return { ...signer, signatureValid: true, error: null };
+}
+
+/**
+ * Chain validation context recorded in an audit manifest
+ * Ballot layouts are derived from the election definition, so they are
+ * bound to the definition hash the genesis block commits to. Throws if
+ * the definition is malformed.
+ */
+export async function getManifestValidationOptions(manifest: AuditManifest): Promise<ChainValidationOptions> {
+  const definition = manifest.electionDefinition
+    ? parseElectionDefinition(JSON.stringify(manifest.electionDefinition))
+    : null;
+
+  return {
+    elgamalPublicKey: manifest.electionKey?.scheme === 'elgamal' ? manifest.electionKey.publicKey : undefined,
+    constituencies: definition ? getBallotLayouts(definition) : undefined,
+    consensus: manifest.consensus,
+    validators: manifest.validators,
+    devices: manifest.devices,
+    definitionHash: definition ? await hashElectionDefinition(definition) : undefined
+  };
+}
+
+/**
+ * Verify an audit file against its detached signature and re-validate the chain
+ *
+ * Pass `trustedPublicKey` to require a specific signer; otherwise the key
+ * embedded in the signature file is used and its fingerprint reported.
+ */
+export async function verifyAuditExport(
+  fileText: string,
+  signatureText: string,
+  trustedPublicKey?: string
+): Promise<AuditVerification> {
+  const result: AuditVerification = {
+    signatureValid: false,
+    signerId: null,
+    signerFingerprint: null,
+    manifestValid: false,
+    chainValid: false,
+    invalidBlockIndex: null,
+    blockCount: 0,
+    tipHash: null,
+    errors: []
+  };
+
+  // Detached signature
+  const signature = await verifyExportSignature(fileText, signatureText, trustedPublicKey);
+  result.signatureValid = signature.signatureValid;
+  result.signerId = signature.signerId;
+  result.signerFingerprint = signature.signerFingerprint;
+  if (signature.error) {
+    result.errors.push(signature.error);
+  }
+
+  // Manifest and blocks
+  let audit: AuditFile;
+  try {
+    audit = JSON.parse(fileText);
+    if (audit?.manifest?.format !== AUDIT_FORMAT || !Array.isArray(audit.blocks)) throw new Error();
+  } catch {
+    result.errors.push('Audit file is not a verifiable audit export');
+    return result;
+  }
+
+  if (audit.manifest.version !== AUDIT_VERSION) {
+    result.errors.push(`Unsupported audit version ${audit.manifest.version}`);
+    return result;
+  }
+
+  const { manifest, blocks } = audit;
+  const tip = blocks[blocks.length - 1];
+  result.blockCount = blocks.length;
+  result.tipHash = tip?.hash ?? null;
+
+  result.manifestValid = blocks.length === manifest.blockCount &&
+    tip?.index === manifest.tipIndex &&
+    tip?.hash === manifest.tipHash;
+  if (!result.manifestValid) {
+    result.errors.push('Manifest block count or tip hash does not match the blocks');
+  }
+
+  let options: ChainValidationOptions;
+  try {
+    options = await getManifestValidationOptions(manifest);
+  } catch (error) {
+    result.errors.push(`Invalid election definition in the manifest: ${error instanceof Error ? error.message : error}`);
+    return result;
+  }
+
+  const validation = await validateChain(blocks, options);
+
+  result.chainValid = validation.isValid;
+  result.invalidBlockIndex = validation.invalidBlockIndex;
+  if (validation.error) {
+    result.errors.push(validation.error);
+  }
+
+  return result;
+}
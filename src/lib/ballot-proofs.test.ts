@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ELGAMAL_GROUP,
+  modPow,
+  bigIntToHex,
+  hexToBigInt,
+  randomExponent,
+  sha256,
+  generateElGamalKeyPair,
+  encryptVoteElGamal,
+  type ElGamalBallot,
+  type ElGamalCiphertext
+} from './crypto';
+import { proveBallot, verifyBallotProof, type BallotProof } from './ballot-proofs';
+
+const { p, q, g } = ELGAMAL_GROUP;
+const CANDIDATES = ['alice', 'bob', 'carol'];
+const VOTER = '1'.repeat(64);
+
+// Same Fiat-Shamir encoding and context as ballot-proofs.ts
+async function hashChallenge(parts: (string | bigint)[]): Promise<bigint> {
+  const encoded = parts.map(part => typeof part === 'bigint' ? bigIntToHex(part) : part).join('|');
+  return hexToBigInt(await sha256(encoded));
+}
+
+function proofContext(ballot: ElGamalBallot, publicKeyHex: string): string {
+  return ['BALLOT-PROOF-V2', publicKeyHex, ballot.constituencyId, ballot.candidateIds.join(','), VOTER].join('|');
+}
+
+const inverse = (x: bigint, e: bigint) => modPow(x, q - (e % q), p);
+
+async function provenBallot() {
+  const keys = generateElGamalKeyPair();
+  const { ballot, randomness } = encryptVoteElGamal('north', CANDIDATES, 'bob', keys.publicKey);
+  const proof = await proveBallot(ballot, 'bob', randomness, keys.publicKey, VOTER);
+  return { publicKey: keys.publicKey, ballot, proof };
+}
+
+/**
+ * Ballot with arbitrary per-candidate plaintexts whose 0/1 proofs simulate
+ * both branches, choosing one challenge as e + j*q so the challenge sum
+ * still matches the hash (the attack range checks must stop)
+ */
+async function forgedBallot(publicKeyHex: string, plaintexts: number[]) {
+  const h = hexToBigInt(publicKeyHex);
+  const randomness = plaintexts.map(() => randomExponent());
+  const ballot: ElGamalBallot = {
+    constituencyId: 'north',
+    candidateIds: CANDIDATES.slice(0, plaintexts.length),
+    ciphertexts: plaintexts.map((m, i): ElGamalCiphertext => ({
+      c1: bigIntToHex(modPow(g, randomness[i], p)),
+      c2: bigIntToHex((modPow(g, ((BigInt(m) % q) + q) % q, p) * modPow(h, randomness[i], p)) % p)
+    }))
+  };
+  const context = proofContext(ballot, publicKeyHex);
+
+  const candidates = [];
+  for (const ct of ballot.ciphertexts) {
+    const c1 = hexToBigInt(ct.c1);
+    const c2 = hexToBigInt(ct.c2);
+    const targets = [c2, (c2 * inverse(g, 1n)) % p];
+    const e = [randomExponent() >> 1800n, randomExponent() >> 1800n];
+    const f = [randomExponent(), randomExponent()];
+    const commitments = [0, 1].map(j => [
+      (modPow(g, f[j], p) * inverse(c1, e[j])) % p,
+      (modPow(h, f[j], p) * inverse(targets[j], e[j])) % p
+    ]);
+    const challenge = await hashChallenge([
+      context, c1, c2,
+      commitments[0][0], commitments[0][1],
+      commitments[1][0], commitments[1][1]
+    ]);
+
+    // Pick j with e0 + e1 + j*q = challenge (mod 2^256); q is odd, so invertible
+    const modulus = 1n << 256n;
+    const qInverse = modPow(q % modulus, (1n << 255n) - 1n, modulus);
+    const j = ((((challenge - e[0] - e[1]) % modulus) + modulus) % modulus * qInverse) % modulus;
+    candidates.push({
+      c0: e[0].toString(16),
+      f0: f[0].toString(16),
+      c1: (e[1] + j * q).toString(16),
+      f1: f[1].toString(16)
+    });
+  }
+
+  // Honest sum proof: the plaintexts still total 1
+  let a = 1n;
+  let b = 1n;
+  for (const ct of ballot.ciphertexts) {
+    a = (a * hexToBigInt(ct.c1)) % p;
+    b = (b * hexToBigInt(ct.c2)) % p;
+  }
+  b = (b * inverse(g, 1n)) % p;
+  const R = randomness.reduce((sum, r) => (sum + r) % q, 0n);
+  const w = randomExponent();
+  const c = await hashChallenge([context, 'SUM', a, b, modPow(g, w, p), modPow(h, w, p)]);
+
+  const proof: BallotProof = { candidates, sum: { c: c.toString(16), f: ((w + c * R) % q).toString(16) } };
+  return { ballot, proof };
+}
+
+describe('ballot validity proofs', () => {
+  it('accepts an honest ballot', async () => {
+    const { publicKey, ballot, proof } = await provenBallot();
+
+    expect(await verifyBallotProof(ballot, proof, publicKey, CANDIDATES, VOTER)).toBeNull();
+  });
+
+  it('rejects a missing proof and a different ballot layout', async () => {
+    const { publicKey, ballot, proof } = await provenBallot();
+
+    expect(await verifyBallotProof(ballot, undefined, publicKey, CANDIDATES, VOTER)).toBe('Missing ballot validity proof');
+    expect(await verifyBallotProof(ballot, proof, publicKey, ['alice', 'bob'], VOTER))
+      .toBe('Ballot layout does not match the constituency ballot');
+  });
+
+  it('rejects a proof under another election key', async () => {
+    const { ballot, proof } = await provenBallot();
+    const other = generateElGamalKeyPair();
+
+    expect(await verifyBallotProof(ballot, proof, other.publicKey, CANDIDATES, VOTER)).not.toBeNull();
+  });
+
+  it('rejects a ballot and proof copied into another voter\'s block', async () => {
+    const { publicKey, ballot, proof } = await provenBallot();
+
+    expect(await verifyBallotProof(ballot, proof, publicKey, CANDIDATES, '2'.repeat(64)))
+      .toBe('Invalid 0/1 proof for candidate alice');
+  });
+
+  it('rejects a proof moved to a different ciphertext', async () => {
+    const { publicKey, ballot, proof } = await provenBallot();
+    const swapped = { ...ballot, ciphertexts: [ballot.ciphertexts[1], ballot.ciphertexts[0], ballot.ciphertexts[2]] };
+
+    expect(await verifyBallotProof(swapped, proof, publicKey, CANDIDATES, VOTER)).toBe('Invalid 0/1 proof for candidate alice');
+  });
+
+  it('rejects malformed proof values', async () => {
+    const { publicKey, ballot, proof } = await provenBallot();
+    const malformed = { ...proof, candidates: [{ ...proof.candidates[0], c0: 'xyz' }, ...proof.candidates.slice(1)] };
+
+    expect(await verifyBallotProof(ballot, malformed, publicKey, CANDIDATES, VOTER)).toBe('Malformed ballot validity proof');
+  });
+
+  it('rejects out-of-range challenges and responses that are equivalent mod q', async () => {
+    const { publicKey, ballot, proof } = await provenBallot();
+    const [first, ...rest] = proof.candidates;
+    const shift = (hex: string, by: bigint) => (hexToBigInt(hex) + by).toString(16);
+
+    // c + q*2^256 is congruent to c both mod q and mod 2^256
+    const bigChallenge = { ...proof, candidates: [{ ...first, c1: shift(first.c1, q << 256n) }, ...rest] };
+    const bigResponse = { ...proof, candidates: [{ ...first, f0: shift(first.f0, q) }, ...rest] };
+    const bigSumResponse = { ...proof, sum: { ...proof.sum, f: shift(proof.sum.f, q) } };
+
+    expect(await verifyBallotProof(ballot, bigChallenge, publicKey, CANDIDATES, VOTER)).toBe('Invalid 0/1 proof for candidate alice');
+    expect(await verifyBallotProof(ballot, bigResponse, publicKey, CANDIDATES, VOTER)).toBe('Invalid 0/1 proof for candidate alice');
+    expect(await verifyBallotProof(ballot, bigSumResponse, publicKey, CANDIDATES, VOTER))
+      .toBe('Invalid proof that exactly one candidate is selected');
+  });
+
+  it('rejects a forged ballot encrypting +5 and -4', async () => {
+    const keys = generateElGamalKeyPair();
+    const { ballot, proof } = await forgedBallot(keys.publicKey, [5, -4]);
+
+    expect(await verifyBallotProof(ballot, proof, keys.publicKey, ['alice', 'bob'], VOTER))
+      .toBe('Invalid 0/1 proof for candidate alice');
+  });
+});
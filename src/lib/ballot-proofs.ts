@@ -0,0 +1,287 @@
+/**
+ * ZERO-KNOWLEDGE BALLOT VALIDITY PROOFS
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Each exponential ElGamal ballot carries non-interactive proofs
+ * (Fiat-Shamir over SHA-256) that it is well formed:
+ * - Per candidate: a disjunctive Chaum-Pedersen proof that the ciphertext
+ *   encrypts 0 or 1
+ * - Per ballot: a Chaum-Pedersen proof that the product of all ciphertexts
+ *   encrypts exactly 1
+ * Together these show the ballot selects exactly one candidate of the
+ * published ballot layout, without revealing which.
+ *
+ * Security Properties:
+ * - Soundness: a ballot encoding 2 votes, or none, cannot be proven
+ * - Zero knowledge: proofs reveal nothing about the selected candidate
+ * - Binding: proofs commit to the public key, constituency, ballot layout
+ *   and voter hash, so a ciphertext and its proof copied into another
+ *   voter's block no longer verify
+ * - Canonical form: challenges must lie in [0, 2^256) and responses in
+ *   [0, q), so no proof has a second, equivalent encoding
+ */
+
+import {
+  ELGAMAL_GROUP,
+  modPow,
+  bigIntToHex,
+  hexToBigInt,
+  randomExponent,
+  isGroupElement,
+  sha256,
+  generateRandomBytes,
+  bufferToHex,
+  type ElGamalBallot,
+  type ElGamalCiphertext
+} from './crypto';
+
+// Challenges live in [0, 2^256): smaller than q, so sums wrap here instead
+const CHALLENGE_MODULUS = 1n << 256n;
+
+// Exponents are reduced mod q, so a challenge of c + k*q or a response of
+// f + k*q would verify like c or f. Only canonical values are accepted.
+function isChallenge(value: bigint): boolean {
+  return value >= 0n && value < CHALLENGE_MODULUS;
+}
+
+function isResponse(value: bigint): boolean {
+  return value >= 0n && value < ELGAMAL_GROUP.q;
+}
+
+interface ZeroOneProof {
+  c0: string;
+  f0: string;
+  c1: string;
+  f1: string;
+}
+
+interface SumProof {
+  c: string;
+  f: string;
+}
+
+export interface BallotProof {
+  candidates: ZeroOneProof[]; // Same order as ballot.candidateIds
+  sum: SumProof;
+}
+
+function randomChallenge(): bigint {
+  return hexToBigInt(bufferToHex(generateRandomBytes(32).buffer as ArrayBuffer));
+}
+
+async function hashChallenge(parts: (string | bigint)[]): Promise<bigint> {
+  const encoded = parts.map(part => typeof part === 'bigint' ? bigIntToHex(part) : part).join('|');
+  return hexToBigInt(await sha256(encoded));
+}
+
+// x^-e for x in the order-q subgroup
+function powInverse(base: bigint, exponent: bigint): bigint {
+  const { p, q } = ELGAMAL_GROUP;
+  return modPow(base, q - (exponent % q), p);
+}
+
+/**
+ * Prove that (c1, c2) encrypts m in {0, 1} under randomness r
+ */
+async function proveZeroOne(
+  context: string,
+  ciphertext: ElGamalCiphertext,
+  m: number,
+  r: bigint,
+  h: bigint
+): Promise<ZeroOneProof> {
+  const { p, q, g } = ELGAMAL_GROUP;
+  const c1 = hexToBigInt(ciphertext.c1);
+  const c2 = hexToBigInt(ciphertext.c2);
+
+  // Statement j: (c1, c2 / g^j) share the discrete log r w.r.t. (g, h)
+  const targets = [c2, (c2 * powInverse(g, 1n)) % p];
+  const fake = 1 - m;
+
+  const commitments: bigint[][] = [[], []];
+  const challenges: bigint[] = [0n, 0n];
+  const responses: bigint[] = [0n, 0n];
+
+  // Simulate the false branch
+  challenges[fake] = randomChallenge();
+  responses[fake] = randomExponent();
+  commitments[fake] = [
+    (modPow(g, responses[fake], p) * powInverse(c1, challenges[fake])) % p,
+    (modPow(h, responses[fake], p) * powInverse(targets[fake], challenges[fake])) % p
+  ];
+
+  // Commit on the true branch
+  const w = randomExponent();
+  commitments[m] = [modPow(g, w, p), modPow(h, w, p)];
+
+  const challenge = await hashChallenge([
+    context, c1, c2,
+    commitments[0][0], commitments[0][1],
+    commitments[1][0], commitments[1][1]
+  ]);
+
+  challenges[m] = ((challenge - challenges[fake]) % CHALLENGE_MODULUS + CHALLENGE_MODULUS) % CHALLENGE_MODULUS;
+  responses[m] = (w + challenges[m] * r) % q;
+
+  return {
+    c0: challenges[0].toString(16),
+    f0: responses[0].toString(16),
+    c1: challenges[1].toString(16),
+    f1: responses[1].toString(16)
+  };
+}
+
+async function verifyZeroOne(
+  context: string,
+  ciphertext: ElGamalCiphertext,
+  proof: ZeroOneProof,
+  h: bigint
+): Promise<boolean> {
+  const { p, g } = ELGAMAL_GROUP;
+  const c1 = hexToBigInt(ciphertext.c1);
+  const c2 = hexToBigInt(ciphertext.c2);
+
+  if (!isGroupElement(c1) || !isGroupElement(c2)) return false;
+
+  const targets = [c2, (c2 * powInverse(g, 1n)) % p];
+  const challenges = [hexToBigInt(proof.c0), hexToBigInt(proof.c1)];
+  const responses = [hexToBigInt(proof.f0), hexToBigInt(proof.f1)];
+  if (!challenges.every(isChallenge) || !responses.every(isResponse)) return false;
+
+  const commitments = [0, 1].map(j => [
+    (modPow(g, responses[j], p) * powInverse(c1, challenges[j])) % p,
+    (modPow(h, responses[j], p) * powInverse(targets[j], challenges[j])) % p
+  ]);
+
+  const challenge = await hashChallenge([
+    context, c1, c2,
+    commitments[0][0], commitments[0][1],
+    commitments[1][0], commitments[1][1]
+  ]);
+
+  return (challenges[0] + challenges[1]) % CHALLENGE_MODULUS === challenge;
+}
+
+/**
+ * Product of all ciphertexts, with g divided out of the second component
+ * Encrypts 0 exactly when the ballot encrypts a total of 1
+ */
+function homomorphicSumMinusOne(ciphertexts: ElGamalCiphertext[]): { a: bigint; b: bigint } {
+  const { p, g } = ELGAMAL_GROUP;
+  let a = 1n;
+  let b = 1n;
+  for (const ct of ciphertexts) {
+    a = (a * hexToBigInt(ct.c1)) % p;
+    b = (b * hexToBigInt(ct.c2)) % p;
+  }
+  return { a, b: (b * powInverse(g, 1n)) % p };
+}
+
+function proofContext(ballot: ElGamalBallot, publicKeyHex: string, voterHash: string): string {
+  return ['BALLOT-PROOF-V2', publicKeyHex, ballot.constituencyId, ballot.candidateIds.join(','), voterHash].join('|');
+}
+
+/**
+ * Generate validity proofs for a ballot from encryptVoteElGamal
+ * `voterHash` is the hash the ballot's block will carry.
+ */
+export async function proveBallot(
+  ballot: ElGamalBallot,
+  selectedCandidateId: string,
+  randomness: bigint[],
+  publicKeyHex: string,
+  voterHash: string
+): Promise<BallotProof> {
+  const { p, q, g } = ELGAMAL_GROUP;
+  const h = hexToBigInt(publicKeyHex);
+  const context = proofContext(ballot, publicKeyHex, voterHash);
+
+  const candidates: ZeroOneProof[] = [];
+  for (let i = 0; i < ballot.ciphertexts.length; i++) {
+    const m = ballot.candidateIds[i] === selectedCandidateId ? 1 : 0;
+    candidates.push(await proveZeroOne(context, ballot.ciphertexts[i], m, randomness[i], h));
+  }
+
+  // Sum proof: (A, B/g) = (g^R, h^R) with R = sum of randomness
+  const { a, b } = homomorphicSumMinusOne(ballot.ciphertexts);
+  const R = randomness.reduce((sum, r) => (sum + r) % q, 0n);
+  const w = randomExponent();
+  const c = await hashChallenge([context, 'SUM', a, b, modPow(g, w, p), modPow(h, w, p)]);
+
+  return {
+    candidates,
+    sum: {
+      c: c.toString(16),
+      f: ((w + c * R) % q).toString(16)
+    }
+  };
+}
+
+/**
+ * Verify a ballot's validity proofs
+ *
+ * `allowedCandidateIds` is the official ballot layout for the constituency;
+ * the encrypted ballot must use exactly this layout. `voterHash` is the
+ * hash of the block carrying the ballot.
+ * Returns null when valid, otherwise a reason.
+ */
+export async function verifyBallotProof(
+  ballot: ElGamalBallot,
+  proof: BallotProof | undefined,
+  publicKeyHex: string,
+  allowedCandidateIds: string[],
+  voterHash: string
+): Promise<string | null> {
+  const { p, g } = ELGAMAL_GROUP;
+
+  if (!proof || !Array.isArray(proof.candidates) || !proof.sum) {
+    return 'Missing ballot validity proof';
+  }
+  if (ballot.candidateIds.join('|') !== allowedCandidateIds.join('|')) {
+    return 'Ballot layout does not match the constituency ballot';
+  }
+  if (proof.candidates.length !== ballot.ciphertexts.length) {
+    return 'Proof does not cover every candidate';
+  }
+
+  const h = hexToBigInt(publicKeyHex);
+  const context = proofContext(ballot, publicKeyHex, voterHash);
+
+  try {
+    for (let i = 0; i < ballot.ciphertexts.length; i++) {
+      if (!(await verifyZeroOne(context, ballot.ciphertexts[i], proof.candidates[i], h))) {
+        return `Invalid 0/1 proof for candidate ${ballot.candidateIds[i]}`;
+      }
+    }
+
+    const { a, b } = homomorphicSumMinusOne(ballot.ciphertexts);
+    const c = hexToBigInt(proof.sum.c);
+    const f = hexToBigInt(proof.sum.f);
+    if (!isChallenge(c) || !isResponse(f)) {
+      return 'Invalid proof that exactly one candidate is selected';
+    }
+    const commitA = (modPow(g, f, p) * powInverse(a, c)) % p;
+    const commitB = (modPow(h, f, p) * powInverse(b, c)) % p;
+
+    if (c !== await hashChallenge([context, 'SUM', a, b, commitA, commitB])) {
+      return 'Invalid proof that exactly one candidate is selected';
+    }
+  } catch {
+    return 'Malformed ballot validity proof';
+  }
+
+  return null;
+}
+
+export function serializeBallotProof(proof: BallotProof): string {
+  return JSON.stringify(proof);
+}
+
+export function parseBallotProof(serialized: string | undefined): BallotProof | undefined {
+  if (!serialized) return undefined;
+  try {
+    return JSON.parse(serialized) as BallotProof;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  addPhaseBlock,
+  addVote,
+  calculateBlockHash,
+  createBlockchain,
+  validateChain,
+  DEFAULT_DIFFICULTY_POLICY,
+  MAX_CLOCK_DRIFT_MS,
+  type Block,
+  type BlockSealer,
+  type ChainValidationOptions
+} from './blockchain';
+import { signData } from './crypto';
+import { createAuditSigningKey } from './audit';
+import { signPhaseTransition } from './election';
+import { getElectionConfig, getElectionSchedule } from './election-definition';
+import { createTestElection, voterHash, type TestElection } from '@/test/election-fixture';
+
+function validationOptions(election: TestElection): ChainValidationOptions {
+  return {
+    elgamalPublicKey: election.electionKey.publicKey,
+    constituencies: election.constituencies,
+    devices: election.devices,
+    definitionHash: election.definitionHash
+  };
+}
+
+// Recompute the hash and Proof-of-Authority seal of an edited block
+async function reseal(block: Omit<Block, 'hash' | 'signature'>, sealer: BlockSealer): Promise<Block> {
+  const hash = await calculateBlockHash(block);
+  return { ...block, hash, signature: await signData(`SVS-SEAL|${hash}`, sealer.privateKey) };
+}
+
+describe('validateChain: phase blocks', { timeout: 30_000 }, () => {
+  it('accepts transitions signed by a committed administrator', async () => {
+    const election = await createTestElection();
+    await election.recordPhase('open');
+    await election.recordPhase('closed');
+
+    expect(await validateChain(election.state.chain, validationOptions(election)))
+      .toEqual({ isValid: true, invalidBlockIndex: null, error: null });
+  });
+
+  it('rejects a transition signed by a key the genesis block does not commit', async () => {
+    const election = await createTestElection();
+    const { sealer, device } = election;
+
+    // Same administrator name, self-declared key
+    const impostor = await createAuditSigningKey(election.admin.adminId);
+    const transition = await signPhaseTransition(
+      election.state.chain,
+      getElectionSchedule(election.definition),
+      'open',
+      impostor,
+      null
+    );
+    const { state } = await addPhaseBlock(election.state, transition, { sealer, device });
+
+    expect((await validateChain(state.chain, validationOptions(election))).error)
+      .toBe('Unauthorised administrator key for returning-officer at block 1');
+  });
+
+  it('requires a device signature on phase blocks, even with an empty registry', async () => {
+    const election = await createTestElection();
+    await election.recordPhase('open');
+    const [genesis, phase] = election.state.chain;
+    const unsigned = { ...phase, deviceId: undefined, deviceSignature: undefined };
+    const chain = [genesis, await reseal(unsigned, election.sealer)];
+
+    expect((await validateChain(chain, validationOptions(election))).error)
+      .toBe('Missing device signature at block 1');
+    expect((await validateChain(chain, { ...validationOptions(election), devices: [] })).error)
+      .toBe('Missing device signature at block 1');
+    expect((await validateChain(election.state.chain, { ...validationOptions(election), devices: [] })).error)
+      .toBe('Unregistered device KIOSK-01 at block 1');
+  });
+});
+
+describe('validateChain: genesis commitments and timestamps', { timeout: 30_000 }, () => {
+  it('rejects a difficulty policy other than the one the genesis block commits', async () => {
+    const election = await createTestElection();
+    const difficultyPolicy = { ...DEFAULT_DIFFICULTY_POLICY, minDifficulty: 1 };
+
+    expect(await validateChain(election.state.chain, { ...validationOptions(election), difficultyPolicy }))
+      .toMatchObject({ isValid: false, invalidBlockIndex: 0, error: 'Genesis block commits to a different difficulty policy' });
+    expect(election.state.difficultyPolicy).toEqual(election.config.difficultyPolicy);
+  });
+
+  it('rejects a block timestamped beyond the allowed clock drift', async () => {
+    const election = await createTestElection();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(Date.now() + 2 * MAX_CLOCK_DRIFT_MS);
+      await election.recordPhase('open');
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect((await validateChain(election.state.chain, validationOptions(election))).error)
+      .toBe('Timestamp in the future at block 1');
+  });
+});
+
+describe('Proof-of-Authority sealing', { timeout: 30_000 }, () => {
+  it('refuses to seal with a key outside the genesis validator set', async () => {
+    const election = await createTestElection('rsa-oaep');
+    await election.recordPhase('open');
+    const outsider = { id: election.device.deviceId, privateKey: election.device.privateKey };
+
+    await expect(addVote(election.state, 'ciphertext', voterHash(1), { sealer: outsider, device: election.device }))
+      .rejects.toThrow('KIOSK-01 is not a validator of this ledger');
+  });
+});
+
+describe('validateChain: tampering', { timeout: 30_000 }, () => {
+  async function votedElection(): Promise<TestElection> {
+    const election = await createTestElection('rsa-oaep');
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'alice');
+    await election.castVote(voterHash(2), 'south', 'dave');
+    return election;
+  }
+
+  it('detects an edited ballot and a removed block', async () => {
+    const election = await votedElection();
+    const chain = election.state.chain;
+    const options = validationOptions(election);
+    const edited = { ...chain[2], encryptedVote: chain[3].encryptedVote };
+
+    expect((await validateChain([...chain.slice(0, 2), edited, chain[3]], options)).error)
+      .toBe('Hash mismatch at block 2');
+    expect((await validateChain([...chain.slice(0, 2), chain[3]], options)).error)
+      .toBe('Index discontinuity at block 2');
+  });
+
+  it('rejects a block rehashed and resealed without the kiosk signing it', async () => {
+    const election = await votedElection();
+    const chain = election.state.chain;
+    const edited = { ...chain[2], encryptedVote: chain[3].encryptedVote };
+
+    expect((await validateChain([...chain.slice(0, 2), await reseal(edited, election.sealer), chain[3]], validationOptions(election))).error)
+      .toBe('Invalid signature from device KIOSK-01 at block 2');
+  });
+
+  it('rejects an ElGamal ballot copied with its proof into another voter\'s block', async () => {
+    const election = await createTestElection('elgamal');
+    await election.recordPhase('open');
+    const original = await election.castVote(voterHash(1), 'north', 'alice');
+    const { sealer, device } = election;
+
+    // A registered kiosk re-records the ciphertext and proof under another voter
+    const { state } = await addVote(election.state, original.encryptedVote, voterHash(2), {
+      ballotProof: original.ballotProof,
+      sealer,
+      device
+    });
+
+    expect((await validateChain(state.chain, validationOptions(election))).error)
+      .toBe('Invalid 0/1 proof for candidate alice at block 3');
+  });
+
+  it('accepts no block after genesis against an empty device registry', async () => {
+    const election = await votedElection();
+
+    expect((await validateChain(election.state.chain, { ...validationOptions(election), devices: [] })).error)
+      .toBe('Unregistered device KIOSK-01 at block 1');
+  });
+
+  it('rejects a seal by a validator the genesis block does not commit', async () => {
+    const election = await votedElection();
+    const [genesis, phase] = election.state.chain;
+    const rogue = { ...election.sealer, id: 'VALIDATOR-2' };
+
+    expect((await validateChain([genesis, await reseal({ ...phase, signerId: 'VALIDATOR-2' }, rogue)], validationOptions(election))).error)
+      .toBe('Unauthorised validator VALIDATOR-2 at block 1');
+    expect((await validateChain([genesis, { ...phase, signature: election.state.chain[2].signature }], validationOptions(election))).error)
+      .toBe('Invalid seal by validator VALIDATOR-1 at block 1');
+  });
+
+  it('enforces the committed difficulty and proof-of-work', async () => {
+    const election = await createTestElection('rsa-oaep');
+    const difficultyPolicy = { ...DEFAULT_DIFFICULTY_POLICY, initialDifficulty: 1, minDifficulty: 1 };
+    const config = await getElectionConfig(election.definition, election.electionKey, {
+      consensus: 'pow',
+      difficultyPolicy,
+      validators: [],
+      administrators: [{ adminId: election.admin.adminId, publicKey: election.admin.publicKey }]
+    });
+    const fresh = await createBlockchain(config);
+    const transition = await signPhaseTransition(fresh.chain, getElectionSchedule(election.definition), 'open', election.admin, null);
+    const { state } = await addPhaseBlock(fresh, transition, { device: election.device }); // Mined at difficulty 1
+    const [genesis, phase] = state.chain;
+    const options = validationOptions(election);
+
+    expect(await validateChain(state.chain, options)).toMatchObject({ isValid: true });
+
+    const easier = { ...phase, difficulty: 0 };
+    expect((await validateChain([genesis, { ...easier, hash: await calculateBlockHash(easier) }], options)).error)
+      .toBe('Difficulty 0 does not match required 1 at block 1');
+
+    let unmined = { ...phase, nonce: '0' };
+    let hash = await calculateBlockHash(unmined);
+    while (hash.startsWith('0')) {
+      unmined = { ...unmined, nonce: unmined.nonce + '0' };
+      hash = await calculateBlockHash(unmined);
+    }
+    expect((await validateChain([genesis, { ...unmined, hash }], options)).error)
+      .toBe('Invalid PoW at block 1');
+  });
+});
@@ -4,9 +4,17 @@
  * TECHNICAL AFFIDAVIT:
  * This implements a local append-only blockchain for vote storage.
  * Each block is cryptographically chained to its predecessor via SHA-256.
- * Proof-of-Work mechanism deters automated ballot stuffing.
+ * Proof-of-Work mechanism deters automated ballot stuffing; in a permissioned
+ * network, Proof-of-Authority seals blocks with an authorised validator key.
  * Any modification to a historical block invalidates all subsequent blocks.
  * 
+ * The genesis block is minted per election and commits to the election id,
+ * the definition hash, the public encryption key, the trustee set, the
+ * difficulty policy, the validator set and the administrator keys that may
+ * sign phase changes.
+ * It is deterministic, so every kiosk of an election starts from the same
+ * block, and chains from different elections cannot be mixed.
+ * 
  * Security Properties:
  * - Immutability: Hash chain ensures modification detection
  * - Ordering: Blocks are strictly ordered by index
@@ -14,63 +22,473 @@
  * - Tamper evidence: Chain validation detects alterations
  */
 
-import { sha256, mineBlock, verifyProofOfWork } from './crypto';
+import { 
+  sha256, 
+  verifyProofOfWork, 
+  parseElGamalBallot, 
+  signData, 
+  verifySignature, 
+  type MiningOptions 
+} from './crypto';
+import { mineInWorker } from './mining';
+import { verifyBallotProof, parseBallotProof } from './ballot-proofs';
+import type { Constituency } from './database';
+import type { AuthorisedDevice, DeviceSigner } from './devices';
+import type { EncryptionScheme } from './key-ceremony';
+import {
+  getElectionStatus,
+  checkVotingOpen,
+  isPhaseBlock,
+  encodePhaseBlock,
+  verifyPhaseBlock,
+  type AuthorisedAdministrator,
+  type ElectionStatus,
+  type PhaseTransition
+} from './election';
 
 export interface Block {
+  version: number; // Block format version, selects the canonical encoding
   index: number;
   timestamp: number;
   encryptedVote: string;
+  ballotProof?: string; // ZK validity proof (ElGamal ballots only)
   voterHash: string; // One-way hash, not reversible to identity
   previousHash: string;
   nonce: string;
   hash: string;
-  difficulty: number;
+  difficulty: number; // 0 for Proof-of-Authority blocks
+  signerId?: string;  // Proof-of-Authority: sealing validator
+  signature?: string; // Proof-of-Authority: ECDSA seal over the block hash
+  deviceId?: string;        // Kiosk that created the block
+  deviceSignature?: string; // Kiosk's ECDSA signature over the device statement
+}
+
+/**
+ * Consensus mode (per election)
+ * - 'pow': blocks carry a Proof-of-Work (standalone kiosk demo)
+ * - 'poa': blocks are sealed by an authorised validator key, no mining
+ */
+export type ConsensusMode = 'pow' | 'poa';
+
+/**
+ * Validator registry entry for Proof-of-Authority chains
+ */
+export interface AuthorisedValidator {
+  id: string;
+  publicKey: string; // ECDSA P-256 SPKI, hex
+}
+
+export interface BlockSealer {
+  id: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * Proof-of-Work difficulty retargeting policy (per election, committed in
+ * the genesis block)
+ * 
+ * Difficulty is fixed within each window of `retargetWindow` blocks. At each
+ * window boundary the average block interval of the previous window is
+ * compared with `targetBlockTimeMs`: much faster raises difficulty by one,
+ * much slower lowers it by one, within [minDifficulty, maxDifficulty].
+ * 
+ * Timestamps are chosen by the miner, so the window interval is measured
+ * between median timestamps (no single block decides a retarget) and
+ * validation bounds every timestamp: not before its parent, and no more
+ * than MAX_CLOCK_DRIFT_MS ahead of the validator's clock.
+ */
+export interface DifficultyPolicy {
+  initialDifficulty: number;
+  minDifficulty: number;
+  maxDifficulty: number;
+  targetBlockTimeMs: number;
+  retargetWindow: number;
+}
+
+export const DEFAULT_DIFFICULTY_POLICY: DifficultyPolicy = {
+  initialDifficulty: 4,
+  minDifficulty: 3,
+  maxDifficulty: 5,
+  targetBlockTimeMs: 30_000,
+  retargetWindow: 10
+};
+
+export const MAX_CLOCK_DRIFT_MS = 2 * 60 * 1000;
+const MEDIAN_TIME_SPAN = 5;
+
+/**
+ * Context needed to verify ballot validity proofs, difficulty and seals
+ */
+export interface ChainValidationOptions {
+  elgamalPublicKey?: string;
+  constituencies?: Constituency[];
+  difficultyPolicy?: DifficultyPolicy;  // When given, must match the genesis block
+  consensus?: ConsensusMode;            // When given, must match the genesis block
+  validators?: AuthorisedValidator[];   // When given, must match the genesis validator set
+  devices: AuthorisedDevice[];          // Every block after genesis must be signed by one of these
+  definitionHash?: string;              // When given, the genesis block must commit to it
+}
+
+/**
+ * Election parameters committed by the genesis block
+ */
+export interface ElectionConfig {
+  electionId: string;
+  definitionHash: string; // See hashElectionDefinition
+  publishedAt: number;    // Genesis timestamp, from the election definition
+  encryptionKey: {
+    scheme: EncryptionScheme;
+    publicKey: string;
+    privateKeyFingerprint: string;
+  };
+  trustees: {
+    threshold: number;
+    shardFingerprints: string[]; // One per key holder, in shard order
+    verificationKeys: string[];  // g^(x_i) per key holder (elgamal), for partial decryptions
+  };
+  consensus: ConsensusMode;
+  difficultyPolicy: DifficultyPolicy; // Governs Proof-of-Work chains
+  validators: AuthorisedValidator[]; // Empty for Proof-of-Work chains
+  administrators: AuthorisedAdministrator[]; // May sign phase transitions
 }
 
+/**
+ * Consensus rules and the keys that may seal blocks and sign phase
+ * transitions, fixed at the key ceremony and committed in the genesis
+ * block with the election key
+ */
+export type LedgerAuthorities = Pick<
+  ElectionConfig,
+  'consensus' | 'difficultyPolicy' | 'validators' | 'administrators'
+>;
+
 export interface BlockchainState {
   chain: Block[];
   pendingVotes: Map<string, Block>; // voterHash -> most recent vote
   isValid: boolean;
   lastValidated: number;
+  difficultyPolicy: DifficultyPolicy;
+  consensus: ConsensusMode;
 }
 
-// Genesis block - hardcoded for chain initialization
-const GENESIS_BLOCK: Block = {
-  index: 0,
-  timestamp: 1700000000000,
-  encryptedVote: 'GENESIS',
-  voterHash: '0'.repeat(64),
-  previousHash: '0'.repeat(64),
-  nonce: '0'.repeat(32),
-  hash: 'GENESIS_HASH_ELECTORAL_COMMISSION_2024',
-  difficulty: 4
-};
+const GENESIS_PREFIX = 'SVS-GENESIS:';
 
 /**
- * Create initial blockchain state
+ * Create initial blockchain state with the election's genesis block
  */
-export function createBlockchain(): BlockchainState {
+export async function createBlockchain(config: ElectionConfig): Promise<BlockchainState> {
   return {
-    chain: [GENESIS_BLOCK],
+    chain: [await createGenesisBlock(config)],
     pendingVotes: new Map(),
     isValid: true,
-    lastValidated: Date.now()
+    lastValidated: Date.now(),
+    difficultyPolicy: config.difficultyPolicy,
+    consensus: config.consensus
+  };
+}
+
+/**
+ * Median timestamp of up to MEDIAN_TIME_SPAN blocks ending at `endIndex`,
+ * excluding genesis
+ */
+function medianTimestamp(chain: Block[], endIndex: number): number {
+  const timestamps = chain
+    .slice(Math.max(1, endIndex - MEDIAN_TIME_SPAN + 1), endIndex + 1)
+    .map(block => block.timestamp)
+    .sort((a, b) => a - b);
+  return timestamps[Math.floor(timestamps.length / 2)];
+}
+
+/**
+ * Required difficulty for the block at `nextIndex` (default: the block that
+ * would follow `chain`). Deterministic from the preceding blocks, so
+ * validators can enforce it.
+ */
+export function expectedDifficulty(
+  chain: Block[],
+  policy: DifficultyPolicy,
+  nextIndex: number = chain.length
+): number {
+  // First vote block
+  if (nextIndex <= 1) return policy.initialDifficulty;
+  
+  const previous = chain[nextIndex - 1];
+  const previousDifficulty = previous.index === 0 ? policy.initialDifficulty : previous.difficulty;
+  
+  // Only retarget at window boundaries, once a full window of vote-block
+  // intervals exists (the genesis timestamp is never used)
+  if ((nextIndex - 1) % policy.retargetWindow !== 0 || nextIndex - 1 <= policy.retargetWindow) {
+    return previousDifficulty;
+  }
+  
+  const windowStart = nextIndex - 1 - policy.retargetWindow;
+  const averageInterval =
+    (medianTimestamp(chain, nextIndex - 1) - medianTimestamp(chain, windowStart)) / policy.retargetWindow;
+  
+  let difficulty = previousDifficulty;
+  if (averageInterval < policy.targetBlockTimeMs / 2) difficulty++;
+  else if (averageInterval > policy.targetBlockTimeMs * 2) difficulty--;
+  
+  return Math.min(policy.maxDifficulty, Math.max(policy.minDifficulty, difficulty));
+}
+
+/**
+ * Rebuild blockchain state from a stored chain
+ * Later blocks overwrite earlier ones, so only the last vote per voter remains.
+ * Consensus and difficulty policy come from the genesis block.
+ */
+export function restoreBlockchain(chain: Block[], isValid: boolean): BlockchainState {
+  const config = getGenesisConfig(chain[0]);
+  if (!config) {
+    throw new Error('Chain has no valid genesis block');
+  }
+  
+  const pendingVotes = new Map<string, Block>();
+  for (const block of chain.filter(isVoteBlock)) {
+    pendingVotes.set(block.voterHash, block);
+  }
+  
+  return {
+    chain,
+    pendingVotes,
+    isValid,
+    lastValidated: Date.now(),
+    difficultyPolicy: config.difficultyPolicy,
+    consensus: config.consensus
   };
 }
 
 /**
- * Calculate block hash
+ * Ballot block (not genesis, not an election phase transition)
  */
-async function calculateBlockHash(block: Omit<Block, 'hash'>): Promise<string> {
-  const data = JSON.stringify({
-    index: block.index,
-    timestamp: block.timestamp,
-    encryptedVote: block.encryptedVote,
-    voterHash: block.voterHash,
-    previousHash: block.previousHash,
-    nonce: block.nonce
-  });
-  return sha256(data);
+export function isVoteBlock(block: Block): boolean {
+  return block.index > 0 && !isPhaseBlock(block);
+}
+
+/**
+ * Current block format version
+ * Bump when the set of hashed fields changes; older versions stay decodable
+ */
+export const BLOCK_FORMAT_VERSION = 3;
+
+/**
+ * Canonical block header encoding
+ * 
+ * A JSON array with a fixed field order, so the encoding does not depend on
+ * object key order. The nonce is NOT part of the header: the block hash is
+ * sha256(header + nonce), which lets the miner vary the nonce cheaply.
+ * 
+ * Version 1 fields:
+ *   ["SVS-BLOCK", version, index, timestamp, previousHash, voterHash,
+ *    encryptedVote, ballotProof | null, difficulty]
+ * Version 2 appends the sealing validator: [..., difficulty, signerId | null]
+ * (the signature itself covers the hash and is not hashed)
+ * Version 3 appends the kiosk: [..., signerId | null, deviceId | null,
+ *   deviceSignature | null]
+ */
+export function encodeBlockHeader(block: Omit<Block, 'hash' | 'nonce'>): string {
+  switch (block.version) {
+    case 1:
+      return JSON.stringify([
+        'SVS-BLOCK',
+        block.version,
+        block.index,
+        block.timestamp,
+        block.previousHash,
+        block.voterHash,
+        block.encryptedVote,
+        block.ballotProof ?? null,
+        block.difficulty
+      ]);
+    case 2:
+      return JSON.stringify([
+        'SVS-BLOCK',
+        block.version,
+        block.index,
+        block.timestamp,
+        block.previousHash,
+        block.voterHash,
+        block.encryptedVote,
+        block.ballotProof ?? null,
+        block.difficulty,
+        block.signerId ?? null
+      ]);
+    case 3:
+      return JSON.stringify([
+        'SVS-BLOCK',
+        block.version,
+        block.index,
+        block.timestamp,
+        block.previousHash,
+        block.voterHash,
+        block.encryptedVote,
+        block.ballotProof ?? null,
+        block.difficulty,
+        block.signerId ?? null,
+        block.deviceId ?? null,
+        block.deviceSignature ?? null
+      ]);
+    default:
+      throw new Error(`Unsupported block version ${block.version}`);
+  }
+}
+
+/**
+ * Calculate block hash from the canonical encoding
+ * Used by mining, validation and external verifiers alike
+ */
+export async function calculateBlockHash(block: Omit<Block, 'hash'>): Promise<string> {
+  return sha256(encodeBlockHeader(block) + block.nonce);
+}
+
+/**
+ * Genesis block committing the chain to an election configuration
+ * 
+ * Deterministic: the config is encoded with a fixed field order and the
+ * timestamp comes from the definition, so the same config always mints the
+ * same block. It declares difficulty 0 and carries no seal; verifiers
+ * re-mint it from the config it contains instead.
+ */
+export async function createGenesisBlock(config: ElectionConfig): Promise<Block> {
+  const commitment: ElectionConfig = {
+    electionId: config.electionId,
+    definitionHash: config.definitionHash,
+    publishedAt: config.publishedAt,
+    encryptionKey: {
+      scheme: config.encryptionKey.scheme,
+      publicKey: config.encryptionKey.publicKey,
+      privateKeyFingerprint: config.encryptionKey.privateKeyFingerprint
+    },
+    trustees: {
+      threshold: config.trustees.threshold,
+      shardFingerprints: [...config.trustees.shardFingerprints],
+      verificationKeys: [...config.trustees.verificationKeys]
+    },
+    consensus: config.consensus,
+    difficultyPolicy: {
+      initialDifficulty: config.difficultyPolicy.initialDifficulty,
+      minDifficulty: config.difficultyPolicy.minDifficulty,
+      maxDifficulty: config.difficultyPolicy.maxDifficulty,
+      targetBlockTimeMs: config.difficultyPolicy.targetBlockTimeMs,
+      retargetWindow: config.difficultyPolicy.retargetWindow
+    },
+    validators: config.validators.map(v => ({ id: v.id, publicKey: v.publicKey })),
+    administrators: config.administrators.map(a => ({ adminId: a.adminId, publicKey: a.publicKey }))
+  };
+  
+  const genesis: Omit<Block, 'hash'> = {
+    version: BLOCK_FORMAT_VERSION,
+    index: 0,
+    timestamp: config.publishedAt,
+    encryptedVote: GENESIS_PREFIX + JSON.stringify(commitment),
+    voterHash: '0'.repeat(64),
+    previousHash: '0'.repeat(64),
+    nonce: '',
+    difficulty: 0
+  };
+  return { ...genesis, hash: await calculateBlockHash(genesis) };
+}
+
+/**
+ * Election configuration committed by a genesis block
+ */
+export function getGenesisConfig(genesis: Pick<Block, 'encryptedVote'>): ElectionConfig | null {
+  if (!genesis.encryptedVote.startsWith(GENESIS_PREFIX)) return null;
+  try {
+    const config = JSON.parse(genesis.encryptedVote.slice(GENESIS_PREFIX.length));
+    return typeof config?.electionId === 'string' &&
+      typeof config.difficultyPolicy === 'object' && config.difficultyPolicy !== null &&
+      Array.isArray(config.validators) &&
+      Array.isArray(config.administrators)
+      ? config
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Statement signed by the kiosk that creates a block
+ * Covers the ballot and its position in the chain, but not the consensus
+ * fields, so it is signed before mining or sealing.
+ */
+export function encodeDeviceStatement(block: Omit<Block, 'hash' | 'nonce'>): string {
+  return JSON.stringify([
+    'SVS-DEVICE',
+    block.version,
+    block.index,
+    block.timestamp,
+    block.previousHash,
+    block.voterHash,
+    block.encryptedVote,
+    block.ballotProof ?? null,
+    block.deviceId ?? null
+  ]);
+}
+
+// Domain-separated message signed by a Proof-of-Authority validator
+function sealMessage(blockHash: string): string {
+  return `SVS-SEAL|${blockHash}`;
+}
+
+export interface AddVoteOptions extends MiningOptions {
+  ballotProof?: string;
+  sealer?: BlockSealer; // Required on Proof-of-Authority chains
+  device: DeviceSigner; // Kiosk key that signs the block (every block after genesis)
+}
+
+/**
+ * Sign, then mine or seal, the block that extends `state.chain`
+ */
+async function createNextBlock(
+  state: BlockchainState,
+  payload: Pick<Block, 'timestamp' | 'encryptedVote' | 'voterHash' | 'ballotProof'>,
+  options: AddVoteOptions
+): Promise<Block> {
+  const { sealer, device, onProgress, signal } = options;
+  const isAuthority = state.consensus === 'poa';
+  
+  if (isAuthority && !sealer) {
+    throw new Error('Proof-of-Authority chain requires a validator key to seal blocks');
+  }
+  if (isAuthority && sealer && !getGenesisConfig(state.chain[0])?.validators.some(v => v.id === sealer.id)) {
+    throw new Error(`${sealer.id} is not a validator of this ledger`);
+  }
+  
+  const difficulty = isAuthority ? 0 : expectedDifficulty(state.chain, state.difficultyPolicy);
+  const previousBlock = state.chain[state.chain.length - 1];
+  
+  // Prepare block data
+  const blockData: Omit<Block, 'hash' | 'nonce'> = {
+    version: BLOCK_FORMAT_VERSION,
+    index: previousBlock.index + 1,
+    timestamp: payload.timestamp,
+    encryptedVote: payload.encryptedVote,
+    ...(payload.ballotProof ? { ballotProof: payload.ballotProof } : {}),
+    voterHash: payload.voterHash,
+    previousHash: previousBlock.hash,
+    difficulty,
+    ...(isAuthority && sealer ? { signerId: sealer.id } : {}),
+    deviceId: device.deviceId
+  };
+  
+  blockData.deviceSignature = await signData(encodeDeviceStatement(blockData), device.privateKey);
+  
+  if (isAuthority && sealer) {
+    // Seal the block (Proof-of-Authority)
+    const nonce = '';
+    const hash = await calculateBlockHash({ ...blockData, nonce });
+    const signature = await signData(sealMessage(hash), sealer.privateKey);
+    return { ...blockData, nonce, hash, signature };
+  }
+  
+  // Mine the block (Proof-of-Work)
+  const { nonce, hash } = await mineInWorker(
+    encodeBlockHeader(blockData),
+    difficulty,
+    { onProgress, signal }
+  );
+  return { ...blockData, nonce, hash };
 }
 
 /**
@@ -80,39 +498,37 @@ async function calculateBlockHash(block: Omit<Block, 'hash'>): Promise<string> {
  * - Multiple votes per voter are allowed
  * - Only the LAST vote per voter hash is counted
  * - Voters cannot prove how they voted (encrypted payload)
+ * 
+ * ELECTION WINDOW:
+ * - Rejected unless the chain's election is open and inside its schedule
+ * 
+ * Proof-of-Work: difficulty comes from the chain's retarget policy, never
+ * the caller. Mining runs in a Web Worker; pass `signal` to cancel and
+ * `onProgress` to receive attempt counts and hash rate.
+ * 
+ * Proof-of-Authority: the block is sealed with `sealer` instead of mined.
+ * 
+ * The kiosk signs the ballot with `device` before mining or sealing.
  */
 export async function addVote(
   state: BlockchainState,
   encryptedVote: string,
   voterHash: string,
-  difficulty: number = 4
+  options: AddVoteOptions
 ): Promise<{ state: BlockchainState; block: Block; miningTime: number }> {
   const startTime = Date.now();
-  const previousBlock = state.chain[state.chain.length - 1];
   
-  // Prepare block data
-  const blockData: Omit<Block, 'hash' | 'nonce'> = {
-    index: previousBlock.index + 1,
-    timestamp: Date.now(),
-    encryptedVote,
-    voterHash,
-    previousHash: previousBlock.hash,
-    difficulty
-  };
+  const closedReason = checkVotingOpen(getElectionStatus(state.chain), startTime);
+  if (closedReason) {
+    throw new Error(closedReason);
+  }
   
-  // Mine the block (Proof-of-Work)
-  const { nonce, hash } = await mineBlock(
-    JSON.stringify(blockData),
-    previousBlock.hash,
-    difficulty
+  const newBlock = await createNextBlock(
+    state,
+    { timestamp: startTime, encryptedVote, voterHash, ballotProof: options.ballotProof },
+    options
   );
   
-  const newBlock: Block = {
-    ...blockData,
-    nonce,
-    hash
-  };
-  
   // Update state
   const newChain = [...state.chain, newBlock];
   const newPendingVotes = new Map(state.pendingVotes);
@@ -125,17 +541,202 @@ export async function addVote(
       chain: newChain,
       pendingVotes: newPendingVotes,
       isValid: true,
-      lastValidated: Date.now()
+      lastValidated: Date.now(),
+      difficultyPolicy: state.difficultyPolicy,
+      consensus: state.consensus
     },
     block: newBlock,
     miningTime
   };
 }
 
+/**
+ * Record a signed election phase transition (see signPhaseTransition)
+ * Phase blocks are device-signed and mined or sealed like vote blocks but
+ * carry no ballot, so the same device rule covers every block.
+ */
+export async function addPhaseBlock(
+  state: BlockchainState,
+  transition: PhaseTransition,
+  options: Omit<AddVoteOptions, 'ballotProof'>
+): Promise<{ state: BlockchainState; block: Block }> {
+  if (transition.previousHash !== state.chain[state.chain.length - 1].hash) {
+    throw new Error('The ledger changed after the phase transition was signed');
+  }
+  
+  const newBlock = await createNextBlock(
+    state,
+    { timestamp: Date.now(), encryptedVote: encodePhaseBlock(transition), voterHash: '0'.repeat(64) },
+    options
+  );
+  
+  return {
+    state: {
+      ...state,
+      chain: [...state.chain, newBlock],
+      isValid: true,
+      lastValidated: Date.now()
+    },
+    block: newBlock
+  };
+}
+
+/**
+ * Verify the ZK validity proof of an ElGamal ballot block
+ * Returns null for valid ballots and for other vote formats
+ */
+async function verifyBlockBallot(
+  block: Block,
+  options: ChainValidationOptions
+): Promise<string | null> {
+  const ballot = parseElGamalBallot(block.encryptedVote);
+  if (!ballot) return null;
+  
+  if (!options.elgamalPublicKey || !options.constituencies) {
+    return 'Ballot proof cannot be checked without the election key and ballot definitions';
+  }
+  
+  const constituency = options.constituencies.find(c => c.id === ballot.constituencyId);
+  if (!constituency) {
+    return `Unknown constituency ${ballot.constituencyId}`;
+  }
+  
+  return verifyBallotProof(
+    ballot,
+    parseBallotProof(block.ballotProof),
+    options.elgamalPublicKey,
+    constituency.candidates.map(c => c.id),
+    block.voterHash
+  );
+}
+
+/**
+ * Verify the validator seal of a Proof-of-Authority block
+ */
+async function verifyBlockSeal(
+  block: Block,
+  validators: AuthorisedValidator[]
+): Promise<string | null> {
+  if (block.difficulty !== 0) {
+    return 'Proof-of-Authority block declares a difficulty';
+  }
+  
+  if (!block.signerId || !block.signature) {
+    return 'Missing validator seal';
+  }
+  
+  const validator = validators.find(v => v.id === block.signerId);
+  if (!validator) {
+    return `Unauthorised validator ${block.signerId}`;
+  }
+  
+  if (!await verifySignature(sealMessage(block.hash), block.signature, validator.publicKey)) {
+    return `Invalid seal by validator ${block.signerId}`;
+  }
+  
+  return null;
+}
+
+/**
+ * Verify the kiosk signature of a block against the device registry
+ * Blocks from revoked devices remain valid (they are voided at count time),
+ * but a revoked device cannot add blocks after its revocation.
+ */
+async function verifyBlockDevice(
+  block: Block,
+  devices: AuthorisedDevice[]
+): Promise<string | null> {
+  if (!block.deviceId || !block.deviceSignature) {
+    return 'Missing device signature';
+  }
+  
+  const device = devices.find(d => d.deviceId === block.deviceId);
+  if (!device) {
+    return `Unregistered device ${block.deviceId}`;
+  }
+  
+  if (!await verifySignature(encodeDeviceStatement(block), block.deviceSignature, device.publicKey)) {
+    return `Invalid signature from device ${block.deviceId}`;
+  }
+  
+  if (device.revokedAt !== null && block.timestamp >= device.revokedAt) {
+    return `Block from revoked device ${block.deviceId}`;
+  }
+  
+  // The constituency is only visible for homomorphic ballots
+  const ballot = parseElGamalBallot(block.encryptedVote);
+  if (ballot && !device.constituencyIds.includes(ballot.constituencyId)) {
+    return `Device ${block.deviceId} is not authorised for ${ballot.constituencyId}`;
+  }
+  
+  return null;
+}
+
+function samePolicy(a: DifficultyPolicy, b: DifficultyPolicy): boolean {
+  return a.initialDifficulty === b.initialDifficulty &&
+    a.minDifficulty === b.minDifficulty &&
+    a.maxDifficulty === b.maxDifficulty &&
+    a.targetBlockTimeMs === b.targetBlockTimeMs &&
+    a.retargetWindow === b.retargetWindow;
+}
+
+function sameValidators(a: AuthorisedValidator[], b: AuthorisedValidator[]): boolean {
+  return a.length === b.length &&
+    a.every(v => b.some(w => w.id === v.id && w.publicKey === v.publicKey));
+}
+
+/**
+ * Verify the genesis block by re-minting it from the config it commits to,
+ * then check that config against the caller's expectations
+ * Returns the committed config, or the reason the block is invalid
+ */
+async function verifyGenesisBlock(
+  genesis: Block,
+  options: ChainValidationOptions
+): Promise<{ config: ElectionConfig; error: null } | { config: null; error: string }> {
+  const fail = (error: string) => ({ config: null, error });
+  
+  const config = getGenesisConfig(genesis);
+  if (genesis.index !== 0 || !config) return fail('Invalid genesis block');
+  
+  if (await calculateBlockHash(genesis).catch(() => null) !== genesis.hash) {
+    return fail('Hash mismatch at genesis block');
+  }
+  
+  const expected = await createGenesisBlock(config).catch(() => null);
+  if (expected?.hash !== genesis.hash) {
+    return fail('Genesis block is not in canonical form');
+  }
+  
+  if (options.definitionHash !== undefined && config.definitionHash !== options.definitionHash) {
+    return fail('Genesis block does not commit to this election definition');
+  }
+  if (options.consensus !== undefined && config.consensus !== options.consensus) {
+    return fail(`Genesis block commits to ${config.consensus} consensus`);
+  }
+  if (options.difficultyPolicy !== undefined && !samePolicy(options.difficultyPolicy, config.difficultyPolicy)) {
+    return fail('Genesis block commits to a different difficulty policy');
+  }
+  if (options.elgamalPublicKey !== undefined && config.encryptionKey.publicKey !== options.elgamalPublicKey) {
+    return fail('Genesis block commits to a different election key');
+  }
+  if (options.validators !== undefined && !sameValidators(options.validators, config.validators)) {
+    return fail('Validator set does not match the genesis block');
+  }
+  
+  return { config, error: null };
+}
+
 /**
  * Validate entire blockchain integrity
+ * Blocks before `startIndex` are trusted as already validated, so a node can
+ * check only the blocks it has just received.
  */
-export async function validateChain(chain: Block[]): Promise<{
+export async function validateChain(
+  chain: Block[],
+  options: ChainValidationOptions,
+  startIndex: number = 1
+): Promise<{
   isValid: boolean;
   invalidBlockIndex: number | null;
   error: string | null;
@@ -144,13 +745,26 @@ export async function validateChain(chain: Block[]): Promise<{
     return { isValid: false, invalidBlockIndex: 0, error: 'Empty chain' };
   }
   
-  // Validate genesis block
-  if (chain[0].index !== 0) {
-    return { isValid: false, invalidBlockIndex: 0, error: 'Invalid genesis block' };
+  // Validate genesis block; it fixes the election key, consensus, difficulty
+  // policy and validators
+  const genesis = await verifyGenesisBlock(chain[0], options);
+  if (genesis.error !== null) {
+    return { isValid: false, invalidBlockIndex: 0, error: genesis.error };
   }
   
+  const { config } = genesis;
+  const { consensus, difficultyPolicy } = config;
+  const latestAllowed = Date.now() + MAX_CLOCK_DRIFT_MS;
+  const ballotOptions: ChainValidationOptions = {
+    ...options,
+    elgamalPublicKey: config.encryptionKey.scheme === 'elgamal' ? config.encryptionKey.publicKey : undefined
+  };
+  
+  // Election phase in force before the first block checked
+  let election: ElectionStatus = getElectionStatus(chain.slice(0, Math.max(1, startIndex)));
+  
   // Validate each block
-  for (let i = 1; i < chain.length; i++) {
+  for (let i = Math.max(1, startIndex); i < chain.length; i++) {
     const currentBlock = chain[i];
     const previousBlock = chain[i - 1];
     
@@ -173,15 +787,16 @@ export async function validateChain(chain: Block[]): Promise<{
     }
     
     // Verify block hash
-    const calculatedHash = await calculateBlockHash({
-      index: currentBlock.index,
-      timestamp: currentBlock.timestamp,
-      encryptedVote: currentBlock.encryptedVote,
-      voterHash: currentBlock.voterHash,
-      previousHash: currentBlock.previousHash,
-      nonce: currentBlock.nonce,
-      difficulty: currentBlock.difficulty
-    });
+    let calculatedHash: string;
+    try {
+      calculatedHash = await calculateBlockHash(currentBlock);
+    } catch {
+      return {
+        isValid: false,
+        invalidBlockIndex: i,
+        error: `Unsupported block version at block ${i}`
+      };
+    }
     
     if (calculatedHash !== currentBlock.hash) {
       return {
@@ -191,16 +806,88 @@ export async function validateChain(chain: Block[]): Promise<{
       };
     }
     
-    // Verify Proof-of-Work
-    if (!verifyProofOfWork(currentBlock.hash, currentBlock.difficulty)) {
+    if (consensus === 'poa') {
+      // Verify the seal against the validator registry
+      const sealError = await verifyBlockSeal(currentBlock, config.validators);
+      if (sealError) {
+        return {
+          isValid: false,
+          invalidBlockIndex: i,
+          error: `${sealError} at block ${i}`
+        };
+      }
+    } else {
+      // Enforce the retarget rule instead of trusting the declared difficulty
+      const requiredDifficulty = expectedDifficulty(chain, difficultyPolicy, i);
+      if (currentBlock.difficulty !== requiredDifficulty) {
+        return {
+          isValid: false,
+          invalidBlockIndex: i,
+          error: `Difficulty ${currentBlock.difficulty} does not match required ${requiredDifficulty} at block ${i}`
+        };
+      }
+      
+      // Verify Proof-of-Work
+      if (!verifyProofOfWork(currentBlock.hash, currentBlock.difficulty)) {
+        return {
+          isValid: false,
+          invalidBlockIndex: i,
+          error: `Invalid PoW at block ${i}`
+        };
+      }
+    }
+    
+    // Verify the kiosk signature
+    const deviceError = await verifyBlockDevice(currentBlock, options.devices);
+    if (deviceError) {
+      return {
+        isValid: false,
+        invalidBlockIndex: i,
+        error: `${deviceError} at block ${i}`
+      };
+    }
+    
+    if (isPhaseBlock(currentBlock)) {
+      // Verify the signed phase transition and advance the phase
+      const transition = await verifyPhaseBlock(currentBlock, election, config.administrators);
+      if (transition.error !== null) {
+        return {
+          isValid: false,
+          invalidBlockIndex: i,
+          error: `${transition.error} at block ${i}`
+        };
+      }
+      if (transition.status.schedule?.electionId !== config.electionId) {
+        return {
+          isValid: false,
+          invalidBlockIndex: i,
+          error: `Phase transition for a different election at block ${i}`
+        };
+      }
+      election = transition.status;
+    } else {
+      // Ballots are only accepted while the election is open
+      const closedReason = checkVotingOpen(election, currentBlock.timestamp);
+      if (closedReason) {
+        return {
+          isValid: false,
+          invalidBlockIndex: i,
+          error: `Ballot outside the election window (${closedReason}) at block ${i}`
+        };
+      }
+    }
+    
+    // Verify ballot validity proof
+    const ballotError = await verifyBlockBallot(currentBlock, ballotOptions);
+    if (ballotError) {
       return {
         isValid: false,
         invalidBlockIndex: i,
-        error: `Invalid PoW at block ${i}`
+        error: `${ballotError} at block ${i}`
       };
     }
     
-    // Check timestamp ordering
+    // Bound the timestamp: retargeting trusts block intervals
     if (currentBlock.timestamp < previousBlock.timestamp) {
       return {
         isValid: false,
@@ -208,14 +895,21 @@ export async function validateChain(chain: Block[]): Promise<{
         error: `Timestamp violation at block ${i}`
       };
     }
+    if (currentBlock.timestamp > latestAllowed) {
+      return {
+        isValid: false,
+        invalidBlockIndex: i,
+        error: `Timestamp in the future at block ${i}`
+      };
+    }
   }
   
   return { isValid: true, invalidBlockIndex: null, error: null };
 }
 
 /**
- * Get vote counts (only callable with quorum decryption)
- * For demo: shows encrypted vote distribution
+ * Get public chain statistics
+ * Per-candidate counts require quorum decryption (see runQuorumTally)
  */
 export function getVoteStatistics(state: BlockchainState): {
   totalBlocks: number;
@@ -235,20 +929,26 @@ export function getVoteStatistics(state: BlockchainState): {
 }
 
 /**
- * Export chain for audit purposes
+ * Export chain summary for audit display
+ * Voter hashes are truncated and ballots omitted; for an export an auditor
+ * can re-validate, see createAuditExport.
  */
 export function exportChainForAudit(state: BlockchainState): string {
   return JSON.stringify({
     exportedAt: new Date().toISOString(),
+    consensus: state.consensus,
     blockCount: state.chain.length,
     chainHash: state.chain[state.chain.length - 1].hash,
     blocks: state.chain.map(block => ({
+      version: block.version,
       index: block.index,
       timestamp: new Date(block.timestamp).toISOString(),
       hash: block.hash,
       previousHash: block.previousHash,
       voterHash: block.voterHash.substring(0, 16) + '...',
-      difficulty: block.difficulty
+      difficulty: block.difficulty,
+      signerId: block.signerId ?? null,
+      deviceId: block.deviceId ?? null
     }))
   }, null, 2);
 }
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  createAggregatedLedger,
+  createChainBundle,
+  getMergedCountedBallots,
+  importChainBundles,
+  type ChainBundle
+} from './bundle';
+import { addPhaseBlock, addVote } from './blockchain';
+import { encryptVoteRSA } from './crypto';
+import { provisionDevice, registerDevice, revokeDevice } from './devices';
+import { signPhaseTransition } from './election';
+import { getElectionSchedule } from './election-definition';
+import { createTestElection, voterHash, type TestElection } from '@/test/election-fixture';
+
+function importOptions(election: TestElection) {
+  return {
+    devices: election.devices,
+    validation: { constituencies: election.constituencies, definitionHash: election.definitionHash }
+  };
+}
+
+describe('chain bundle import', { timeout: 30_000 }, () => {
+  let election: TestElection;
+
+  beforeAll(async () => {
+    election = await createTestElection('rsa-oaep');
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'alice');
+    await election.castVote(voterHash(2), 'south', 'dave');
+  });
+
+  it('merges a full bundle, then an incremental one, reporting duplicates', async () => {
+    const full = await createChainBundle(election.state, election.device);
+    const first = await importChainBundles(createAggregatedLedger(), [{ name: 'full.json', content: full }], importOptions(election));
+
+    expect(first.report.accepted).toEqual([{ deviceId: 'KIOSK-01', fromIndex: 0, newBlocks: 3 }]);
+    expect(first.ledger.chains['KIOSK-01']).toHaveLength(4);
+
+    const before = election.state;
+    await election.castVote(voterHash(3), 'north', 'carol');
+    const incremental = await createChainBundle(election.state, election.device, 2);
+    election.state = before; // The other tests export the original chain
+
+    const second = await importChainBundles(first.ledger, [{ name: 'incremental.json', content: incremental }], importOptions(election));
+
+    expect(second.report.accepted).toEqual([{ deviceId: 'KIOSK-01', fromIndex: 2, newBlocks: 1 }]);
+    expect(second.report.duplicateBlocks).toBe(2);
+    expect(second.report.rejected).toEqual([]);
+    expect(second.ledger.chains['KIOSK-01']).toHaveLength(5);
+  });
+
+  it('rejects bundles from unregistered kiosks', async () => {
+    const content = await createChainBundle(election.state, election.device);
+
+    const { report } = await importChainBundles(createAggregatedLedger(), [{ name: 'kiosk.json', content }], {
+      ...importOptions(election),
+      devices: []
+    });
+
+    expect(report.rejected).toEqual([{ source: 'kiosk.json', error: 'Bundle signed by unregistered device KIOSK-01' }]);
+  });
+
+  it('rejects a block altered after export, although the bundle signature covers only hashes', async () => {
+    const bundle: ChainBundle = JSON.parse(await createChainBundle(election.state, election.device));
+    bundle.blocks[2] = { ...bundle.blocks[2], voterHash: voterHash(9) };
+
+    const { report } = await importChainBundles(
+      createAggregatedLedger(),
+      [{ name: 'altered.json', content: JSON.stringify(bundle) }],
+      importOptions(election)
+    );
+
+    expect(report.accepted).toEqual([]);
+    expect(report.rejected).toEqual([{ source: 'altered.json', error: 'Hash mismatch at block 2' }]);
+  });
+
+  it('holds back an incremental bundle until the blocks before it arrive', async () => {
+    const content = await createChainBundle(election.state, election.device, 2);
+
+    const { report } = await importChainBundles(createAggregatedLedger(), [{ name: 'late.json', content }], importOptions(election));
+
+    expect(report.gaps).toEqual([{ deviceId: 'KIOSK-01', expectedIndex: 0, receivedIndex: 2 }]);
+    expect(report.missingDevices).toEqual(['KIOSK-01']);
+  });
+
+  it('reports as counted only ballots the tally counts, skipping revoked kiosks', async () => {
+    const fresh = await createTestElection('rsa-oaep');
+    const genesis = fresh.state;
+    await fresh.recordPhase('open');
+    const counted = await fresh.castVote(voterHash(1), 'north', 'alice');
+
+    // A second kiosk opens its own chain and takes a later ballot from the same voter
+    const stolen = await provisionDevice('KIOSK-02', ['north']);
+    const device = { deviceId: stolen.identity.deviceId, privateKey: stolen.identity.privateKey };
+    const transition = await signPhaseTransition(genesis.chain, getElectionSchedule(fresh.definition), 'open', fresh.admin, null);
+    let state = (await addPhaseBlock(genesis, transition, { sealer: fresh.sealer, device })).state;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const { encryptedVote } = await encryptVoteRSA({ candidateId: 'bob', constituencyId: 'north' }, fresh.electionKey.publicKey);
+    state = (await addVote(state, encryptedVote, voterHash(1), { sealer: fresh.sealer, device })).state;
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const registered = registerDevice(fresh.devices, stolen.registration);
+    const bundles = [
+      { name: 'kiosk-01.json', content: await createChainBundle(fresh.state, fresh.device) },
+      { name: 'kiosk-02.json', content: await createChainBundle(state, device) }
+    ];
+
+    const before = await importChainBundles(createAggregatedLedger(), bundles, { ...importOptions(fresh), devices: registered });
+    expect(before.report.conflictingVotes).toHaveLength(1);
+    expect(before.report.conflictingVotes[0].countedHash).toBe(state.chain[2].hash);
+
+    const devices = revokeDevice(registered, 'KIOSK-02', 'Stolen');
+    const { ledger, report } = await importChainBundles(createAggregatedLedger(), bundles, { ...importOptions(fresh), devices });
+
+    expect(report.accepted.map(a => a.deviceId)).toEqual(['KIOSK-01', 'KIOSK-02']);
+    expect(report.conflictingVotes).toEqual([]);
+    expect(getMergedCountedBallots(ledger, ['KIOSK-02']).map(block => block.hash)).toEqual([counted.hash]);
+  });
+});
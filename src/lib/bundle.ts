@@ -0,0 +1,400 @@
+/**
+ * OFFLINE CHAIN BUNDLES (SNEAKERNET AGGREGATION)
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Kiosks are air-gapped, so their chains leave the polling station on
+ * removable media. A chain bundle carries every block field unmodified,
+ * signed by the exporting kiosk's device key. At the aggregation point
+ * bundles from many kiosks are verified and merged into a
+ * constituency-level ledger: one chain per kiosk, never re-hashed, so
+ * every block keeps its original proof and device signature.
+ *
+ * Bundles may be full (from genesis) or incremental (from a later index);
+ * they can be imported in any order. The import report lists duplicate
+ * blocks, gaps in a kiosk's sequence, kiosks with no bundle yet, and
+ * voters whose ballots appear on more than one kiosk.
+ *
+ * Security Properties:
+ * - Authenticity: bundle signature by a registered kiosk key
+ * - Integrity: every imported block is re-validated (hash, consensus, device)
+ * - Append-only: a bundle that rewrites a kiosk's known history is rejected
+ * - Cross-device last vote: decided by timestamp, ties by lowest block hash
+ */
+
+import { signData, verifySignature } from './crypto';
+import {
+  validateChain,
+  calculateBlockHash,
+  isVoteBlock,
+  type Block,
+  type BlockchainState,
+  type ChainValidationOptions,
+  type ConsensusMode
+} from './blockchain';
+import { getRevokedDeviceIds, type AuthorisedDevice, type DeviceSigner } from './devices';
+
+const BUNDLE_FORMAT = 'SVS-CHAIN-BUNDLE';
+const BUNDLE_VERSION = 2;
+
+export interface ChainBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  deviceId: string;   // Exporting kiosk
+  consensus: ConsensusMode;
+  fromIndex: number;  // Index of blocks[0]; 0 for a full export
+  tipIndex: number;
+  tipHash: string;
+  exportedAt: number;
+  blocks: Block[];
+  signature: string;  // Device ECDSA signature over encodeBundleBody
+}
+
+/**
+ * Canonical signed content of a bundle
+ * Block hashes are sufficient: each hash commits to every block field,
+ * and the importer re-validates the hashes.
+ */
+function encodeBundleBody(bundle: Omit<ChainBundle, 'signature'>): string {
+  return JSON.stringify([
+    bundle.format,
+    bundle.version,
+    bundle.deviceId,
+    bundle.consensus,
+    bundle.fromIndex,
+    bundle.tipIndex,
+    bundle.tipHash,
+    bundle.exportedAt,
+    bundle.blocks.map(block => block.hash)
+  ]);
+}
+
+/**
+ * Export this kiosk's chain (or the part from `fromIndex`) as a signed bundle
+ */
+export async function createChainBundle(
+  state: BlockchainState,
+  device: DeviceSigner,
+  fromIndex: number = 0
+): Promise<string> {
+  const tip = state.chain[state.chain.length - 1];
+  if (fromIndex < 0 || fromIndex > tip.index) {
+    throw new Error(`Export must start between block 0 and ${tip.index}`);
+  }
+
+  const body: Omit<ChainBundle, 'signature'> = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    deviceId: device.deviceId,
+    consensus: state.consensus,
+    fromIndex,
+    tipIndex: tip.index,
+    tipHash: tip.hash,
+    exportedAt: Date.now(),
+    blocks: state.chain.slice(fromIndex)
+  };
+
+  const signature = await signData(encodeBundleBody(body), device.privateKey);
+  return JSON.stringify({ ...body, signature }, null, 2);
+}
+
+/**
+ * Parse a bundle file; throws on anything that is not a well-formed bundle
+ */
+export function parseChainBundle(json: string): ChainBundle {
+  let value: ChainBundle;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Bundle is not valid JSON');
+  }
+
+  if (!value || value.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a chain bundle');
+  }
+  if (value.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${value.version}`);
+  }
+  if (
+    typeof value.deviceId !== 'string' ||
+    typeof value.signature !== 'string' ||
+    !Array.isArray(value.blocks) || value.blocks.length === 0 ||
+    !Number.isInteger(value.fromIndex) ||
+    value.blocks[0].index !== value.fromIndex ||
+    value.blocks[value.blocks.length - 1].hash !== value.tipHash ||
+    value.blocks[value.blocks.length - 1].index !== value.tipIndex
+  ) {
+    throw new Error('Bundle header does not match its blocks');
+  }
+
+  return value;
+}
+
+/**
+ * Check a bundle's signature against the device registry
+ */
+export async function verifyBundleSignature(
+  bundle: ChainBundle,
+  devices: AuthorisedDevice[]
+): Promise<string | null> {
+  const device = devices.find(d => d.deviceId === bundle.deviceId);
+  if (!device) {
+    return `Bundle signed by unregistered device ${bundle.deviceId}`;
+  }
+
+  const { signature, ...body } = bundle;
+  if (!await verifySignature(encodeBundleBody(body), signature, device.publicKey)) {
+    return `Invalid bundle signature from ${bundle.deviceId}`;
+  }
+
+  return null;
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+/**
+ * Constituency-level ledger: one verified chain per kiosk
+ */
+export interface AggregatedLedger {
+  constituencyId: string | null; // null: accept kiosks of any constituency
+  chains: Record<string, Block[]>;
+}
+
+export interface BundleGap {
+  deviceId: string;
+  expectedIndex: number; // Next block the ledger needs from this kiosk
+  receivedIndex: number; // First block of the bundle that could not be applied
+}
+
+export interface VoteConflict {
+  voterHash: string;
+  ballots: { deviceId: string; index: number; timestamp: number; hash: string }[];
+  countedHash: string;
+}
+
+export interface BundleImportReport {
+  accepted: { deviceId: string; fromIndex: number; newBlocks: number }[];
+  rejected: { source: string; error: string }[];
+  duplicateBlocks: number;     // Blocks already in the ledger
+  gaps: BundleGap[];
+  missingDevices: string[];    // Authorised kiosks with no blocks imported yet
+  conflictingVotes: VoteConflict[];
+}
+
+export interface BundleImportOptions {
+  devices: AuthorisedDevice[];
+  validation?: Omit<ChainValidationOptions, 'devices'>; // Election key, ballot layouts, validators
+}
+
+export function createAggregatedLedger(constituencyId: string | null = null): AggregatedLedger {
+  return { constituencyId, chains: {} };
+}
+
+/**
+ * Verify bundles and merge them into the ledger
+ *
+ * Bundles are applied per kiosk in index order, so files can be imported
+ * in any order. The input ledger is not modified.
+ */
+export async function importChainBundles(
+  ledger: AggregatedLedger,
+  files: { name: string; content: string }[],
+  options: BundleImportOptions
+): Promise<{ ledger: AggregatedLedger; report: BundleImportReport }> {
+  const chains: Record<string, Block[]> = { ...ledger.chains };
+  const report: BundleImportReport = {
+    accepted: [],
+    rejected: [],
+    duplicateBlocks: 0,
+    gaps: [],
+    missingDevices: [],
+    conflictingVotes: []
+  };
+
+  const bundles: { name: string; bundle: ChainBundle }[] = [];
+
+  for (const file of files) {
+    try {
+      const bundle = parseChainBundle(file.content);
+      const signatureError = await verifyBundleSignature(bundle, options.devices);
+      if (signatureError) throw new Error(signatureError);
+
+      const device = options.devices.find(d => d.deviceId === bundle.deviceId)!;
+      if (ledger.constituencyId && !device.constituencyIds.includes(ledger.constituencyId)) {
+        throw new Error(`Device ${bundle.deviceId} is not authorised for ${ledger.constituencyId}`);
+      }
+
+      bundles.push({ name: file.name, bundle });
+    } catch (error) {
+      report.rejected.push({
+        source: file.name,
+        error: error instanceof Error ? error.message : 'Invalid bundle'
+      });
+    }
+  }
+
+  bundles.sort((a, b) =>
+    a.bundle.deviceId.localeCompare(b.bundle.deviceId) || a.bundle.fromIndex - b.bundle.fromIndex
+  );
+
+  for (const { name, bundle } of bundles) {
+    const known = chains[bundle.deviceId] ?? [];
+
+    // Every kiosk chain of an election starts from the same genesis block
+    const genesis = Object.values(chains).find(chain => chain.length > 0)?.[0];
+    if (known.length === 0 && genesis && bundle.blocks[0]?.hash !== genesis.hash) {
+      report.rejected.push({
+        source: name,
+        error: `Bundle from ${bundle.deviceId} starts from a different genesis block`
+      });
+      continue;
+    }
+
+    if (bundle.fromIndex > known.length) {
+      report.gaps.push({
+        deviceId: bundle.deviceId,
+        expectedIndex: known.length,
+        receivedIndex: bundle.fromIndex
+      });
+      continue;
+    }
+
+    // Blocks the ledger already holds must be identical, down to their contents
+    const overlap = bundle.blocks.filter(block => block.index < known.length);
+    const rewritten = overlap.find(block => known[block.index].hash !== block.hash);
+    if (rewritten) {
+      report.rejected.push({
+        source: name,
+        error: `Bundle from ${bundle.deviceId} conflicts with imported history at block ${rewritten.index}`
+      });
+      continue;
+    }
+
+    let altered: Block | undefined;
+    for (const block of overlap.filter(b => b.index > 0)) {
+      if (await calculateBlockHash(block).catch(() => null) !== block.hash) {
+        altered = block;
+        break;
+      }
+    }
+    if (altered) {
+      report.rejected.push({ source: name, error: `Hash mismatch at block ${altered.index}` });
+      continue;
+    }
+
+    const newBlocks = bundle.blocks.filter(block => block.index >= known.length);
+    report.duplicateBlocks += overlap.filter(block => block.index > 0).length;
+    if (newBlocks.length === 0) continue;
+
+    const candidate = [...known, ...newBlocks];
+    const validation = await validateChain(
+      candidate,
+      {
+        ...options.validation,
+        consensus: bundle.consensus,
+        devices: options.devices
+      },
+      known.length
+    );
+
+    if (!validation.isValid) {
+      report.rejected.push({ source: name, error: validation.error ?? 'Invalid chain' });
+      continue;
+    }
+
+    // A kiosk's bundle may only contain blocks that kiosk created
+    const foreign = newBlocks.find(block => block.index > 0 && block.deviceId !== bundle.deviceId);
+    if (foreign) {
+      report.rejected.push({
+        source: name,
+        error: `Block ${foreign.index} in ${bundle.deviceId}'s bundle was created by ${foreign.deviceId ?? 'an unknown device'}`
+      });
+      continue;
+    }
+
+    chains[bundle.deviceId] = candidate;
+    report.accepted.push({
+      deviceId: bundle.deviceId,
+      fromIndex: bundle.fromIndex,
+      newBlocks: newBlocks.filter(block => block.index > 0).length
+    });
+  }
+
+  const merged: AggregatedLedger = { constituencyId: ledger.constituencyId, chains };
+
+  report.missingDevices = options.devices
+    .filter(d => d.revokedAt === null)
+    .filter(d => !ledger.constituencyId || d.constituencyIds.includes(ledger.constituencyId))
+    .filter(d => !chains[d.deviceId])
+    .map(d => d.deviceId);
+
+  report.conflictingVotes = findVoteConflicts(merged, getRevokedDeviceIds(options.devices));
+
+  return { ledger: merged, report };
+}
+
+// Later timestamp wins; equal timestamps are broken by the lowest block hash
+function isLaterVote(candidate: Block, current: Block): boolean {
+  if (candidate.timestamp !== current.timestamp) return candidate.timestamp > current.timestamp;
+  return candidate.hash < current.hash;
+}
+
+/**
+ * Counted ballots across all kiosks: the last vote per voter hash
+ * Blocks from revoked devices are voided first.
+ */
+export function getMergedCountedBallots(
+  ledger: AggregatedLedger,
+  revokedDeviceIds: string[] = []
+): Block[] {
+  const latest = new Map<string, Block>();
+
+  for (const [deviceId, chain] of Object.entries(ledger.chains)) {
+    if (revokedDeviceIds.includes(deviceId)) continue;
+    for (const block of chain.filter(isVoteBlock)) {
+      const current = latest.get(block.voterHash);
+      if (!current || isLaterVote(block, current)) {
+        latest.set(block.voterHash, block);
+      }
+    }
+  }
+
+  return Array.from(latest.values()).sort((a, b) => a.timestamp - b.timestamp || a.hash.localeCompare(b.hash));
+}
+
+/**
+ * Voters with ballots on more than one kiosk
+ * Revoked kiosks are skipped, as in getMergedCountedBallots, so the
+ * counted ballot named here is the one the tally counts.
+ */
+function findVoteConflicts(ledger: AggregatedLedger, revokedDeviceIds: string[]): VoteConflict[] {
+  const byVoter = new Map<string, Block[]>();
+
+  for (const [deviceId, chain] of Object.entries(ledger.chains)) {
+    if (revokedDeviceIds.includes(deviceId)) continue;
+    for (const block of chain.filter(isVoteBlock)) {
+      byVoter.set(block.voterHash, [...(byVoter.get(block.voterHash) ?? []), block]);
+    }
+  }
+
+  const conflicts: VoteConflict[] = [];
+  for (const [voterHash, blocks] of byVoter) {
+    const devices = new Set(blocks.map(block => block.deviceId));
+    if (devices.size < 2) continue;
+
+    const counted = blocks.reduce((last, block) => isLaterVote(block, last) ? block : last);
+    conflicts.push({
+      voterHash,
+      ballots: blocks.map(block => ({
+        deviceId: block.deviceId ?? 'unknown',
+        index: block.index,
+        timestamp: block.timestamp,
+        hash: block.hash
+      })),
+      countedHash: counted.hash
+    });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateElectionKeyPair,
+  encryptVoteRSA,
+  decryptVote,
+  generateElGamalKeyPair,
+  elgamalEncrypt,
+  elgamalAdd,
+  elgamalIdentity,
+  elgamalDecrypt,
+  shamirSplit,
+  shamirCombine,
+  encodeShare,
+  decodeShare,
+  generateSigningKeyPair,
+  signData,
+  verifySignature,
+  generateRandomBytes
+} from './crypto';
+
+describe('RSA-OAEP vote encryption', () => {
+  it('round-trips a vote with the election private key', async () => {
+    const keys = await generateElectionKeyPair();
+    const vote = { candidateId: 'c1', constituencyId: 'north' };
+    const { encryptedVote } = await encryptVoteRSA(vote, keys.publicKey);
+
+    expect(encryptedVote.startsWith('RSA2048-OAEP:')).toBe(true);
+    expect(await decryptVote(encryptedVote, keys.privateKey)).toEqual(vote);
+  });
+
+  it('rejects an altered ciphertext', async () => {
+    const keys = await generateElectionKeyPair();
+    const { encryptedVote } = await encryptVoteRSA({ candidateId: 'c1' }, keys.publicKey);
+    const last = encryptedVote.slice(-1);
+    const tampered = encryptedVote.slice(0, -1) + (last === '0' ? '1' : '0');
+
+    await expect(decryptVote(tampered, keys.privateKey)).rejects.toThrow();
+  });
+
+  it('rejects the wrong private key', async () => {
+    const keys = await generateElectionKeyPair();
+    const other = await generateElectionKeyPair();
+    const { encryptedVote } = await encryptVoteRSA({ candidateId: 'c1' }, keys.publicKey);
+
+    await expect(decryptVote(encryptedVote, other.privateKey)).rejects.toThrow();
+  });
+});
+
+describe('exponential ElGamal', () => {
+  it('adds plaintexts homomorphically', () => {
+    const keys = generateElGamalKeyPair();
+    const votes = [1, 0, 1, 1, 0];
+    const total = votes
+      .map(m => elgamalEncrypt(m, keys.publicKey).ciphertext)
+      .reduce(elgamalAdd, elgamalIdentity());
+
+    expect(elgamalDecrypt(total, keys.privateKey, votes.length)).toBe(3);
+  });
+
+  it('throws when the plaintext is outside the expected range', () => {
+    const keys = generateElGamalKeyPair();
+    const { ciphertext } = elgamalEncrypt(7, keys.publicKey);
+
+    expect(() => elgamalDecrypt(ciphertext, keys.privateKey, 3)).toThrow('Plaintext outside expected range');
+  });
+});
+
+describe('Shamir secret sharing', () => {
+  const secret = generateRandomBytes(32);
+
+  it('recovers the secret from any k of n shares', () => {
+    const shares = shamirSplit(secret, 5, 3);
+
+    expect(shamirCombine([shares[0], shares[1], shares[2]])).toEqual(secret);
+    expect(shamirCombine([shares[4], shares[1], shares[3]])).toEqual(secret);
+    expect(shamirCombine(shares)).toEqual(secret);
+  });
+
+  it('does not recover the secret from fewer than k shares', () => {
+    const shares = shamirSplit(secret, 5, 3);
+
+    expect(shamirCombine([shares[0], shares[1]])).not.toEqual(secret);
+  });
+
+  it('rejects invalid thresholds', () => {
+    expect(() => shamirSplit(secret, 3, 4)).toThrow();
+    expect(() => shamirSplit(secret, 3, 1)).toThrow();
+    expect(() => shamirSplit(secret, 256, 3)).toThrow();
+  });
+
+  it('encodes and decodes shares', () => {
+    const [share] = shamirSplit(secret, 3, 2);
+    const encoded = encodeShare(share);
+
+    expect(encoded).toMatch(/^SHARD-01:[a-f0-9]{64}$/);
+    expect(decodeShare(encoded)).toEqual(share);
+    expect(() => decodeShare('SHARD-XX:zz')).toThrow('Invalid share format');
+  });
+});
+
+describe('ECDSA signatures', () => {
+  it('verifies only the signed data under the signing key', async () => {
+    const keys = await generateSigningKeyPair();
+    const other = await generateSigningKeyPair();
+    const signature = await signData('block-header', keys.privateKey);
+
+    expect(await verifySignature('block-header', signature, keys.publicKey)).toBe(true);
+    expect(await verifySignature('block-headers', signature, keys.publicKey)).toBe(false);
+    expect(await verifySignature('block-header', signature, other.publicKey)).toBe(false);
+    expect(await verifySignature('block-header', 'not-hex', keys.publicKey)).toBe(false);
+  });
+});
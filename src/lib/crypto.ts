@@ -9,7 +9,9 @@
  * Security Properties:
  * - SHA-256 for collision-resistant hashing
  * - AES-256-GCM for authenticated encryption (simulated)
- * - RSA-2048 key generation for vote encryption (simulated)
+ * - RSA-OAEP-2048 + AES-256-GCM hybrid encryption of vote payloads
+ * - Exponential ElGamal (RFC 3526 group 14) for homomorphic tallying
+ * - ECDSA P-256 signatures for Proof-of-Authority block sealing
  * - Shamir's Secret Sharing for threshold key recovery
  */
 
@@ -20,6 +22,16 @@ export function bufferToHex(buffer: ArrayBuffer): string {
     .join('');
 }
 
+// Convert hex string to bytes
+export function hexToBuffer(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[a-f0-9]*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  return new Uint8Array(
+    (hex.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16))
+  );
+}
+
 // Convert string to ArrayBuffer
 export function stringToBuffer(str: string): ArrayBuffer {
   return new TextEncoder().encode(str);
@@ -35,6 +47,36 @@ export async function sha256(data: string): Promise<string> {
   return bufferToHex(hashBuffer);
 }
 
+/**
+ * PBKDF2-HMAC-SHA256 Key Derivation
+ * Used for: Voter PIN hashing (salted, deliberately slow)
+ * Returns the 256-bit derived key as hex
+ */
+export async function pbkdf2Sha256(secret: string, saltHex: string, iterations: number): Promise<string> {
+  const baseKey = await crypto.subtle.importKey('raw', stringToBuffer(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: hexToBuffer(saltHex), iterations },
+    baseKey,
+    256
+  );
+  return bufferToHex(bits);
+}
+
+/**
+ * Generate a non-extractable HMAC-SHA256 key
+ * Used for: Keyed National ID index in the voter store
+ */
+export async function generateHmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
+/**
+ * HMAC-SHA256 of a string under a key, as hex
+ */
+export async function hmacSha256(key: CryptoKey, data: string): Promise<string> {
+  return bufferToHex(await crypto.subtle.sign('HMAC', key, stringToBuffer(data)));
+}
+
 /**
  * Generate cryptographically secure random bytes
  */
@@ -90,31 +132,452 @@ export async function encryptAES256GCM(
 }
 
 /**
- * SIMULATED RSA-2048 Vote Encryption
+ * ELECTION KEY PAIR (RSA-OAEP-2048, SHA-256)
  * 
- * In production: RSA public key encrypts vote payload
- * Private key is split via Shamir's Secret Sharing
- * Decryption requires k-of-n key holders
+ * The public key is published to every kiosk as hex-encoded SPKI.
+ * The private key is returned as PKCS#8 bytes so it can be split
+ * with Shamir's Secret Sharing and wiped; it never needs to exist
+ * on a kiosk.
+ */
+export interface ElectionKeyPair {
+  publicKey: string;      // SPKI, hex
+  privateKey: Uint8Array; // PKCS#8
+}
+
+const RSA_OAEP_PARAMS: RsaHashedImportParams = { name: 'RSA-OAEP', hash: 'SHA-256' };
+
+export async function generateElectionKeyPair(): Promise<ElectionKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      ...RSA_OAEP_PARAMS,
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1])
+    },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  
+  const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+  
+  return {
+    publicKey: bufferToHex(spki),
+    privateKey: new Uint8Array(pkcs8)
+  };
+}
+
+const VOTE_CIPHER_PREFIX = 'RSA2048-OAEP';
+
+/**
+ * RSA-2048 Vote Encryption (hybrid RSA-OAEP + AES-256-GCM)
+ * 
+ * A fresh AES-256 key encrypts the vote payload; the AES key is then
+ * wrapped with the election public key using RSA-OAEP.
+ * Output: RSA2048-OAEP:<wrapped key>:<iv>:<ciphertext || tag> (all hex)
+ * 
+ * Only the holder of the election private key - reconstructed from
+ * k-of-n Shamir shards - can recover the payload.
  */
 export async function encryptVoteRSA(
-  voteData: object
+  voteData: object,
+  publicKeyHex: string
 ): Promise<{ encryptedVote: string; timestamp: number }> {
   const plaintext = JSON.stringify(voteData);
   const timestamp = Date.now();
   
-  // Simulate RSA encryption with a deterministic transform
-  // In production: actual RSA-OAEP encryption
-  const hash = await sha256(plaintext + timestamp);
+  const publicKey = await crypto.subtle.importKey(
+    'spki',
+    hexToBuffer(publicKeyHex),
+    RSA_OAEP_PARAMS,
+    false,
+    ['encrypt']
+  );
+  
+  const sessionKey = generateRandomBytes(32);
+  const iv = generateRandomBytes(12);
+  
+  const aesKey = await crypto.subtle.importKey(
+    'raw',
+    sessionKey,
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt']
+  );
+  
+  const cipherBuffer = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    aesKey,
+    stringToBuffer(plaintext)
+  );
+  
+  const wrappedKey = await crypto.subtle.encrypt(
+    { name: 'RSA-OAEP' },
+    publicKey,
+    sessionKey
+  );
+  
+  // Session key is no longer needed
+  sessionKey.fill(0);
   
   return {
-    encryptedVote: `RSA2048:${hash}:${bufferToHex(stringToBuffer(plaintext))}`,
+    encryptedVote: [
+      VOTE_CIPHER_PREFIX,
+      bufferToHex(wrappedKey),
+      bufferToHex(iv.buffer as ArrayBuffer),
+      bufferToHex(cipherBuffer)
+    ].join(':'),
     timestamp
   };
 }
 
+/**
+ * Decrypt a vote produced by encryptVoteRSA
+ * 
+ * Requires the PKCS#8 election private key (e.g. from shamirCombine).
+ * Throws if the key is wrong or the ciphertext has been altered.
+ */
+export async function decryptVote(
+  encryptedVote: string,
+  privateKey: Uint8Array
+): Promise<object> {
+  const parts = encryptedVote.split(':');
+  if (parts.length !== 4 || parts[0] !== VOTE_CIPHER_PREFIX) {
+    throw new Error('Unsupported vote ciphertext format');
+  }
+  
+  const [, wrappedKeyHex, ivHex, cipherHex] = parts;
+  
+  const rsaKey = await crypto.subtle.importKey(
+    'pkcs8',
+    privateKey,
+    RSA_OAEP_PARAMS,
+    false,
+    ['decrypt']
+  );
+  
+  const sessionKey = new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, rsaKey, hexToBuffer(wrappedKeyHex))
+  );
+  
+  const aesKey = await crypto.subtle.importKey(
+    'raw',
+    sessionKey,
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+  sessionKey.fill(0);
+  
+  const plainBuffer = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: hexToBuffer(ivHex) },
+    aesKey,
+    hexToBuffer(cipherHex)
+  );
+  
+  return JSON.parse(new TextDecoder().decode(plainBuffer));
+}
+
+/**
+ * EXPONENTIAL ELGAMAL (HOMOMORPHIC TALLYING)
+ * 
+ * Group: RFC 3526 2048-bit MODP group 14. p is a safe prime (p = 2q + 1)
+ * and g = 2 generates the subgroup of prime order q.
+ * 
+ * Enc(m) = (g^r, g^m * h^r) where h = g^x is the election public key.
+ * Multiplying ciphertexts adds plaintexts, so per-candidate totals can be
+ * decrypted without decrypting any individual ballot.
+ */
+export const ELGAMAL_GROUP = {
+  p: BigInt('0x' + [
+    'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74',
+    '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437',
+    '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED',
+    'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05',
+    '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB',
+    '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B',
+    'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718',
+    '3995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF'
+  ].join('')),
+  q: 0n,
+  g: 2n
+};
+ELGAMAL_GROUP.q = (ELGAMAL_GROUP.p - 1n) / 2n;
+
+// Fixed width of group elements and exponents when serialized
+const ELGAMAL_BYTES = 256;
+
+export interface ElGamalCiphertext {
+  c1: string; // g^r, hex
+  c2: string; // g^m * h^r, hex
+}
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = ((base % modulus) + modulus) % modulus;
+  let e = exponent;
+  
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  
+  return result;
+}
+
+export function bigIntToHex(value: bigint): string {
+  return value.toString(16).padStart(ELGAMAL_BYTES * 2, '0');
+}
+
+export function hexToBigInt(hex: string): bigint {
+  if (!/^[a-f0-9]+$/i.test(hex)) throw new Error('Invalid hex string');
+  return BigInt('0x' + hex);
+}
+
+/**
+ * Uniformly random exponent in [1, q - 1]
+ */
+export function randomExponent(): bigint {
+  const { q } = ELGAMAL_GROUP;
+  
+  while (true) {
+    const candidate = hexToBigInt(bufferToHex(generateRandomBytes(ELGAMAL_BYTES).buffer as ArrayBuffer)) >> 1n;
+    if (candidate > 0n && candidate < q) return candidate;
+  }
+}
+
+/**
+ * Check that a value is an element of the prime-order subgroup
+ */
+export function isGroupElement(value: bigint): boolean {
+  const { p, q } = ELGAMAL_GROUP;
+  return value > 0n && value < p && modPow(value, q, p) === 1n;
+}
+
+/**
+ * Generate an ElGamal key pair
+ * The secret exponent is returned as fixed-width bytes for Shamir splitting
+ */
+export function generateElGamalKeyPair(): ElectionKeyPair {
+  const x = randomExponent();
+  const h = modPow(ELGAMAL_GROUP.g, x, ELGAMAL_GROUP.p);
+  
+  return {
+    publicKey: bigIntToHex(h),
+    privateKey: hexToBuffer(bigIntToHex(x))
+  };
+}
+
+/**
+ * Encrypt a small integer m. The randomness r is returned for proof generation.
+ */
+export function elgamalEncrypt(
+  m: number,
+  publicKeyHex: string,
+  r: bigint = randomExponent()
+): { ciphertext: ElGamalCiphertext; randomness: bigint } {
+  const { p, g } = ELGAMAL_GROUP;
+  const h = hexToBigInt(publicKeyHex);
+  
+  const c1 = modPow(g, r, p);
+  const c2 = (modPow(g, BigInt(m), p) * modPow(h, r, p)) % p;
+  
+  return {
+    ciphertext: { c1: bigIntToHex(c1), c2: bigIntToHex(c2) },
+    randomness: r
+  };
+}
+
+/**
+ * Homomorphic addition: Enc(a) * Enc(b) = Enc(a + b)
+ */
+export function elgamalAdd(a: ElGamalCiphertext, b: ElGamalCiphertext): ElGamalCiphertext {
+  const { p } = ELGAMAL_GROUP;
+  return {
+    c1: bigIntToHex((hexToBigInt(a.c1) * hexToBigInt(b.c1)) % p),
+    c2: bigIntToHex((hexToBigInt(a.c2) * hexToBigInt(b.c2)) % p)
+  };
+}
+
+/**
+ * Encryption of zero with no randomness - identity for elgamalAdd
+ */
+export function elgamalIdentity(): ElGamalCiphertext {
+  return { c1: bigIntToHex(1n), c2: bigIntToHex(1n) };
+}
+
+/**
+ * Decrypt an (aggregated) ciphertext whose plaintext is known to lie in
+ * [0, maxValue]. Recovers m from g^m with baby-step giant-step.
+ */
+export function elgamalDecrypt(
+  ciphertext: ElGamalCiphertext,
+  privateKey: Uint8Array,
+  maxValue: number
+): number {
+  const { p } = ELGAMAL_GROUP;
+  const x = hexToBigInt(bufferToHex(privateKey.buffer as ArrayBuffer));
+  
+  const c1 = hexToBigInt(ciphertext.c1);
+  const c2 = hexToBigInt(ciphertext.c2);
+  
+  // g^m = c2 * c1^-x = c2 * c1^(q - x) since c1 has order q
+  return elgamalDiscreteLog((c2 * modPow(c1, ELGAMAL_GROUP.q - x, p)) % p, maxValue);
+}
+
+/**
+ * Recover m in [0, maxValue] from g^m with baby-step giant-step
+ */
+export function elgamalDiscreteLog(gm: bigint, maxValue: number): number {
+  const { p, g } = ELGAMAL_GROUP;
+  
+  const stepSize = Math.max(1, Math.ceil(Math.sqrt(maxValue + 1)));
+  const babySteps = new Map<bigint, number>();
+  let current = 1n;
+  for (let j = 0; j < stepSize; j++) {
+    if (!babySteps.has(current)) babySteps.set(current, j);
+    current = (current * g) % p;
+  }
+  
+  // Giant step factor g^-stepSize
+  const giantFactor = modPow(g, ELGAMAL_GROUP.q - BigInt(stepSize), p);
+  let gamma = gm;
+  for (let i = 0; i <= stepSize; i++) {
+    const j = babySteps.get(gamma);
+    if (j !== undefined) {
+      const m = i * stepSize + j;
+      if (m <= maxValue) return m;
+    }
+    gamma = (gamma * giantFactor) % p;
+  }
+  
+  throw new Error('Plaintext outside expected range');
+}
+
+const ELGAMAL_VOTE_PREFIX = 'EXP-ELGAMAL:';
+
+export interface ElGamalBallot {
+  constituencyId: string;
+  candidateIds: string[];            // Ballot layout, in ballot order
+  ciphertexts: ElGamalCiphertext[];  // One-hot: Enc(1) for the choice, Enc(0) elsewhere
+}
+
+/**
+ * Encrypt a vote as a one-hot vector of ElGamal ciphertexts
+ * Randomness is returned so the caller can attach validity proofs
+ */
+export function encryptVoteElGamal(
+  constituencyId: string,
+  candidateIds: string[],
+  selectedCandidateId: string,
+  publicKeyHex: string
+): { encryptedVote: string; ballot: ElGamalBallot; randomness: bigint[]; timestamp: number } {
+  if (!candidateIds.includes(selectedCandidateId)) {
+    throw new Error('Selected candidate is not on the ballot');
+  }
+  
+  const encrypted = candidateIds.map(id =>
+    elgamalEncrypt(id === selectedCandidateId ? 1 : 0, publicKeyHex)
+  );
+  
+  const ballot: ElGamalBallot = {
+    constituencyId,
+    candidateIds,
+    ciphertexts: encrypted.map(e => e.ciphertext)
+  };
+  
+  return {
+    encryptedVote: ELGAMAL_VOTE_PREFIX + JSON.stringify(ballot),
+    ballot,
+    randomness: encrypted.map(e => e.randomness),
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Parse an ElGamal ballot; returns null for other vote formats
+ */
+export function parseElGamalBallot(encryptedVote: string): ElGamalBallot | null {
+  if (!encryptedVote.startsWith(ELGAMAL_VOTE_PREFIX)) return null;
+  
+  try {
+    const ballot = JSON.parse(encryptedVote.slice(ELGAMAL_VOTE_PREFIX.length)) as ElGamalBallot;
+    if (
+      typeof ballot.constituencyId !== 'string' ||
+      !Array.isArray(ballot.candidateIds) ||
+      !Array.isArray(ballot.ciphertexts) ||
+      ballot.candidateIds.length !== ballot.ciphertexts.length
+    ) {
+      return null;
+    }
+    return ballot;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SIGNING KEYS (ECDSA P-256, SHA-256)
+ * 
+ * Used by validators to seal blocks. The private key is generated
+ * non-extractable so it cannot leave the device's key store; only the
+ * public key (hex SPKI) is published in the validator registry.
+ * Signatures are raw r||s (64 bytes), hex.
+ */
+export interface SigningKeyPair {
+  publicKey: string;     // SPKI, hex
+  privateKey: CryptoKey; // Non-extractable
+}
+
+const ECDSA_KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export async function generateSigningKeyPair(): Promise<SigningKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_KEY_PARAMS, false, ['sign', 'verify']);
+  const spki = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+  
+  return {
+    publicKey: bufferToHex(spki),
+    privateKey: keyPair.privateKey
+  };
+}
+
+export async function signData(data: string, privateKey: CryptoKey): Promise<string> {
+  const signature = await crypto.subtle.sign(ECDSA_SIGN_PARAMS, privateKey, stringToBuffer(data));
+  return bufferToHex(signature);
+}
+
+/**
+ * Verify an ECDSA signature
+ * Malformed keys or signatures verify as false rather than throwing
+ */
+export async function verifySignature(
+  data: string,
+  signatureHex: string,
+  publicKeyHex: string
+): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      hexToBuffer(publicKeyHex),
+      ECDSA_KEY_PARAMS,
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      ECDSA_SIGN_PARAMS,
+      publicKey,
+      hexToBuffer(signatureHex),
+      stringToBuffer(data)
+    );
+  } catch {
+    return false;
+  }
+}
+
 /**
  * SHAMIR'S SECRET SHARING
- * Threshold: 3-of-5
+ * Threshold: configurable k-of-n (n <= 255)
  * 
  * Implements polynomial interpolation over GF(256)
  * Each shard is insufficient alone to reconstruct the secret
@@ -125,13 +588,15 @@ const EXP_TABLE = new Uint8Array(256);
 const LOG_TABLE = new Uint8Array(256);
 
 // Initialize lookup tables for GF(256) arithmetic
+// Generator 3 is primitive for the AES polynomial 0x11b (2 is not)
 (function initGF256() {
   let x = 1;
   for (let i = 0; i < 255; i++) {
     EXP_TABLE[i] = x;
     LOG_TABLE[x] = i;
-    x = x << 1;
-    if (x & 0x100) x ^= 0x11b;
+    let doubled = x << 1;
+    if (doubled & 0x100) doubled ^= 0x11b;
+    x = doubled ^ x;
   }
   EXP_TABLE[255] = EXP_TABLE[0];
 })();
@@ -157,6 +622,7 @@ export function shamirSplit(
 ): { x: number; y: Uint8Array }[] {
   if (k > n) throw new Error('Threshold cannot exceed total shares');
   if (k < 2) throw new Error('Threshold must be at least 2');
+  if (n > 255) throw new Error('At most 255 shares are supported');
   
   const shares: { x: number; y: Uint8Array }[] = [];
   
@@ -247,21 +713,41 @@ export function decodeShare(encoded: string): { x: number; y: Uint8Array } {
   return { x, y };
 }
 
+export interface MiningProgress {
+  attempts: number;
+  hashRate: number; // Hashes per second since mining started
+}
+
+export interface MiningOptions {
+  onProgress?: (progress: MiningProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Minimum interval between progress reports
+const PROGRESS_INTERVAL_MS = 250;
+
 /**
  * Proof-of-Work: Find nonce that produces hash with required leading zeros
+ * 
+ * `header` is the canonical block encoding (see encodeBlockHeader);
+ * the block hash is sha256(header + nonce).
+ * Only returns a valid proof; runs until one is found or `signal` is
+ * aborted (AbortError).
  */
 export async function mineBlock(
-  data: string,
-  previousHash: string,
-  difficulty: number = 4
+  header: string,
+  difficulty: number = 4,
+  options: MiningOptions = {}
 ): Promise<{ nonce: string; hash: string; attempts: number }> {
   const target = '0'.repeat(difficulty);
+  const startTime = Date.now();
+  let lastReport = startTime;
   let attempts = 0;
   
   while (true) {
     attempts++;
     const nonce = generateNonce();
-    const hash = await sha256(`${data}${previousHash}${nonce}`);
+    const hash = await sha256(`${header}${nonce}`);
     
     if (hash.startsWith(target)) {
       return { nonce, hash, attempts };
@@ -270,12 +756,19 @@ export async function mineBlock(
     // Yield to prevent blocking (web environment consideration)
     if (attempts % 100 === 0) {
       await new Promise(resolve => setTimeout(resolve, 0));
-    }
-    
-    // Safety limit for demo
-    if (attempts > 10000) {
-      // Return best effort for demo purposes
-      return { nonce, hash, attempts };
+      
+      if (options.signal?.aborted) {
+        throw new DOMException('Mining cancelled', 'AbortError');
+      }
+      
+      const now = Date.now();
+      if (options.onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        options.onProgress({
+          attempts,
+          hashRate: Math.round(attempts / ((now - startTime) / 1000))
+        });
+      }
     }
   }
 }
@@ -286,22 +779,3 @@ export async function mineBlock(
 export function verifyProofOfWork(hash: string, difficulty: number = 4): boolean {
   return hash.startsWith('0'.repeat(difficulty));
 }
-
-/**
- * Generate device-bound encryption key (simulated TPM sealing)
- * 
- * In production: Key is derived from TPM-sealed storage
- * bound to PCR measurements and device identity
- */
-export async function deriveDeviceKey(): Promise<string> {
-  // Simulate device identity
-  const deviceId = 'KIOSK-001';
-  const appIntegrity = 'VERIFIED';
-  const bootState = 'SECURE';
-  
-  const context = `${deviceId}:${appIntegrity}:${bootState}`;
-  const keyMaterial = await sha256(context);
-  
-  // Return 256-bit key
-  return keyMaterial;
-}
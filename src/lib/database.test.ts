@@ -0,0 +1,60 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import {
+  authenticateVoter,
+  createVoterRecord,
+  getVoterKeys,
+  VOTER_RECORD_VERSION,
+  type VoterRecord
+} from './database';
+import { loadVoter, saveVoter } from './storage';
+import { hmacSha256, pbkdf2Sha256 } from './crypto';
+import type { ElectionStatus } from './election';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function openElection(): ElectionStatus {
+  const now = Date.now();
+  return {
+    phase: 'open',
+    schedule: { electionId: 'TEST-2026', opensAt: now - DAY_MS, closesAt: now + DAY_MS },
+    transitions: []
+  };
+}
+
+describe('voter credentials', { timeout: 30_000 }, () => {
+  it('stores PIN hashes keyed by the kiosk PIN key, not by salt and iterations alone', async () => {
+    const keys = await getVoterKeys();
+    const voter = await createVoterRecord('a123456789', '1234', 'north', keys, 1_000);
+    await saveVoter(voter);
+
+    expect(voter.version).toBe(VOTER_RECORD_VERSION);
+    expect(voter.pinHash).not.toBe(await pbkdf2Sha256('1234', voter.pinSalt!, 1_000));
+    expect((await authenticateVoter(' A123456789 ', '1234', openElection())).success).toBe(true);
+    expect(await authenticateVoter('A123456789', '4321', openElection()))
+      .toMatchObject({ success: false, error: 'Invalid credentials', attemptsRemaining: 2 });
+  });
+
+  it('re-hashes an unpeppered version 2 record on successful sign-in', async () => {
+    const { indexKey } = await getVoterKeys();
+    const pinSalt = '00112233445566778899aabbccddeeff';
+    const legacy: VoterRecord = {
+      version: 2,
+      nationalIdHash: await hmacSha256(indexKey, 'B987654321'),
+      pinHash: await pbkdf2Sha256('5678', pinSalt, 1_000),
+      pinSalt,
+      pinIterations: 1_000,
+      constituency: 'south',
+      hasVoted: false,
+      failedAttempts: 0,
+      lockedUntil: null
+    };
+    await saveVoter(legacy);
+
+    expect((await authenticateVoter('B987654321', '5678', openElection())).success).toBe(true);
+
+    const upgraded = await loadVoter(legacy.nationalIdHash);
+    expect(upgraded?.version).toBe(VOTER_RECORD_VERSION);
+    expect(upgraded?.pinSalt).not.toBe(pinSalt);
+  });
+});
@@ -4,20 +4,63 @@
  * TECHNICAL AFFIDAVIT:
  * In production, this would be a SQLite database encrypted with AES-256-GCM.
  * The encryption key would be sealed by TPM, bound to device identity.
- * This simulation uses in-memory storage with hashed credentials.
+ * This simulation keeps the imported voter roll (see voter-roll.ts) in
+ * IndexedDB with hashed credentials.
+ *
+ * A four-digit PIN has only 10,000 values, so no salted hash of it resists
+ * exhaustive search for long: PBKDF2 only multiplies the cost of each of
+ * those guesses. PINs are therefore hashed with PBKDF2-SHA256 under a
+ * random per-voter salt and then with HMAC under a non-extractable
+ * per-kiosk PIN key (a pepper), and National IDs are indexed by HMAC under
+ * a second such key. Both keys live in the kiosk's meta store, never in
+ * the voter records, so a copy of the voter store alone cannot be searched
+ * offline. Records in earlier formats are re-hashed the next time the
+ * voter signs in successfully.
  * 
  * Security Properties:
- * - Credentials stored as SHA-256 hashes (one-way)
- * - No plaintext PINs or IDs stored
- * - Constituency mapping is read-only at runtime
+ * - PINs stored as peppered, salted PBKDF2-SHA256 hashes (one-way, slow)
+ * - National IDs indexed by keyed HMAC (no offline dictionary search)
+ * - No plaintext PINs or IDs stored; they are hashed at import
+ * - Ballot layouts come only from the installed election definition
  * - Failed attempt tracking prevents brute force
  */
 
-import { sha256 } from './crypto';
+import { sha256, pbkdf2Sha256, generateHmacKey, hmacSha256, bufferToHex, generateRandomBytes } from './crypto';
+import { checkVotingOpen, type ElectionStatus } from './election';
+import {
+  loadVoter,
+  saveVoter,
+  replaceVoter,
+  loadVoterRollSummary,
+  loadVoterIndexKey,
+  saveVoterIndexKey,
+  loadVoterPinKey,
+  saveVoterPinKey,
+  loadPseudonymKey
+} from './storage';
+import { derivePseudonym } from './voter-pseudonym';
+
+/**
+ * Voter record formats
+ * 1: nationalIdHash = SHA-256(ID), pinHash = SHA-256(PIN), no salt
+ * 2: nationalIdHash = HMAC-SHA256(index key, ID),
+ *    pinHash = PBKDF2-SHA256(PIN, pinSalt, pinIterations)
+ * 3: as 2, with pinHash = HMAC-SHA256(PIN key, PBKDF2-SHA256(...))
+ */
+export const VOTER_RECORD_VERSION = 3;
+
+// PBKDF2 iterations used when the imported roll does not set its own.
+// Every voter is hashed at import, so the cost is paid once per row there.
+export const DEFAULT_PIN_ITERATIONS = 10_000;
+export const MIN_PIN_ITERATIONS = 1_000;
+export const MAX_PIN_ITERATIONS = 10_000_000;
 
 export interface VoterRecord {
+  version: number;              // Record format (absent on stored version 1 records)
   nationalIdHash: string;
   pinHash: string;
+  pinSalt: string | null;       // Hex, version 2 and later
+  pinIterations: number | null; // Version 2 and later
   constituency: string;
   hasVoted: boolean;
   failedAttempts: number;
@@ -36,105 +79,89 @@ export interface Candidate {
   name: string;
   party: string;
   partyAbbrev: string;
+  partyColour: string; // #RRGGBB
   ballotPosition: number;
 }
 
-// Pre-computed hashes for demo voters
-// In production: these would be loaded from encrypted SQLite
-const MOCK_VOTERS: VoterRecord[] = [];
+// Ballot layouts, installed from the election definition
 const CONSTITUENCIES: Map<string, Constituency> = new Map();
 
-// Initialize mock data
-async function initializeMockData() {
-  // Demo voters with pre-computed hashes
-  const voterData = [
-    { id: 'A123456789', pin: '1234', constituency: 'central-metro' },
-    { id: 'B987654321', pin: '5678', constituency: 'northern-rural' },
-    { id: 'C456789123', pin: '9012', constituency: 'coastal-east' },
-    { id: 'D789123456', pin: '3456', constituency: 'western-highlands' },
-    { id: 'E321654987', pin: '7890', constituency: 'southern-plains' },
-  ];
-  
-  for (const voter of voterData) {
-    MOCK_VOTERS.push({
-      nationalIdHash: await sha256(voter.id),
-      pinHash: await sha256(voter.pin),
-      constituency: voter.constituency,
-      hasVoted: false,
-      failedAttempts: 0,
-      lockedUntil: null
-    });
+/**
+ * Normalise a National ID as typed at the kiosk (trimmed, upper case)
+ */
+export function normaliseNationalId(nationalId: string): string {
+  return nationalId.trim().toUpperCase();
+}
+
+/**
+ * This kiosk's non-extractable credential keys, kept outside the voter store
+ */
+export interface VoterKeys {
+  indexKey: CryptoKey; // National ID index
+  pinKey: CryptoKey;   // PIN pepper
+}
+
+/**
+ * Get this kiosk's voter credential keys, creating them on first use
+ */
+export async function getVoterKeys(): Promise<VoterKeys> {
+  let indexKey = await loadVoterIndexKey();
+  if (!indexKey) {
+    indexKey = await generateHmacKey();
+    await saveVoterIndexKey(indexKey);
   }
-  
-  // Initialize constituencies with candidates
-  CONSTITUENCIES.set('central-metro', {
-    id: 'central-metro',
-    name: 'Central Metropolitan',
-    region: 'Capital Region',
-    candidates: [
-      { id: 'cm1', name: 'Alexandra Chen', party: 'Progressive Alliance', partyAbbrev: 'PA', ballotPosition: 1 },
-      { id: 'cm2', name: 'Marcus Williams', party: 'Unity Coalition', partyAbbrev: 'UC', ballotPosition: 2 },
-      { id: 'cm3', name: 'Sarah Okonkwo', party: 'Civic Reform Party', partyAbbrev: 'CRP', ballotPosition: 3 },
-      { id: 'cm4', name: 'James Rodriguez', party: 'Independent', partyAbbrev: 'IND', ballotPosition: 4 },
-    ]
-  });
-  
-  CONSTITUENCIES.set('northern-rural', {
-    id: 'northern-rural',
-    name: 'Northern Rural District',
-    region: 'Northern Province',
-    candidates: [
-      { id: 'nr1', name: 'Margaret Thompson', party: 'Rural First Party', partyAbbrev: 'RFP', ballotPosition: 1 },
-      { id: 'nr2', name: 'David Nakamura', party: 'Progressive Alliance', partyAbbrev: 'PA', ballotPosition: 2 },
-      { id: 'nr3', name: 'Elena Petrov', party: 'Unity Coalition', partyAbbrev: 'UC', ballotPosition: 3 },
-    ]
-  });
-  
-  CONSTITUENCIES.set('coastal-east', {
-    id: 'coastal-east',
-    name: 'Eastern Coastal Region',
-    region: 'Eastern Seaboard',
-    candidates: [
-      { id: 'ce1', name: 'Michael Oduya', party: 'Maritime Alliance', partyAbbrev: 'MA', ballotPosition: 1 },
-      { id: 'ce2', name: 'Jennifer Walsh', party: 'Progressive Alliance', partyAbbrev: 'PA', ballotPosition: 2 },
-      { id: 'ce3', name: 'Roberto Silva', party: 'Civic Reform Party', partyAbbrev: 'CRP', ballotPosition: 3 },
-      { id: 'ce4', name: 'Hannah Kim', party: 'Unity Coalition', partyAbbrev: 'UC', ballotPosition: 4 },
-      { id: 'ce5', name: 'Thomas Anderson', party: 'Independent', partyAbbrev: 'IND', ballotPosition: 5 },
-    ]
-  });
-  
-  CONSTITUENCIES.set('western-highlands', {
-    id: 'western-highlands',
-    name: 'Western Highlands',
-    region: 'Mountain Region',
-    candidates: [
-      { id: 'wh1', name: 'Patricia Morales', party: 'Highland Heritage Party', partyAbbrev: 'HHP', ballotPosition: 1 },
-      { id: 'wh2', name: 'Andrew Campbell', party: 'Progressive Alliance', partyAbbrev: 'PA', ballotPosition: 2 },
-      { id: 'wh3', name: 'Lisa Yamamoto', party: 'Unity Coalition', partyAbbrev: 'UC', ballotPosition: 3 },
-    ]
-  });
-  
-  CONSTITUENCIES.set('southern-plains', {
-    id: 'southern-plains',
-    name: 'Southern Plains District',
-    region: 'Southern Lowlands',
-    candidates: [
-      { id: 'sp1', name: 'Richard Mensah', party: 'Agricultural Workers Union', partyAbbrev: 'AWU', ballotPosition: 1 },
-      { id: 'sp2', name: 'Catherine Brooks', party: 'Progressive Alliance', partyAbbrev: 'PA', ballotPosition: 2 },
-      { id: 'sp3', name: 'Steven Lee', party: 'Civic Reform Party', partyAbbrev: 'CRP', ballotPosition: 3 },
-      { id: 'sp4', name: 'Amanda Foster', party: 'Unity Coalition', partyAbbrev: 'UC', ballotPosition: 4 },
-    ]
-  });
+
+  let pinKey = await loadVoterPinKey();
+  if (!pinKey) {
+    pinKey = await generateHmacKey();
+    await saveVoterPinKey(pinKey);
+  }
+
+  return { indexKey, pinKey };
 }
 
-// Initialization flag
-let isInitialized = false;
+async function hashPin(pin: string, pinSalt: string, pinIterations: number, pinKey: CryptoKey): Promise<string> {
+  return hmacSha256(pinKey, await pbkdf2Sha256(pin, pinSalt, pinIterations));
+}
 
-async function ensureInitialized() {
-  if (!isInitialized) {
-    await initializeMockData();
-    isInitialized = true;
+/**
+ * Create a current-format voter record from plaintext credentials
+ */
+export async function createVoterRecord(
+  nationalId: string,
+  pin: string,
+  constituency: string,
+  keys: VoterKeys,
+  pinIterations: number = DEFAULT_PIN_ITERATIONS
+): Promise<VoterRecord> {
+  const pinSalt = bufferToHex(generateRandomBytes(16).buffer as ArrayBuffer);
+  return {
+    version: VOTER_RECORD_VERSION,
+    nationalIdHash: await hmacSha256(keys.indexKey, normaliseNationalId(nationalId)),
+    pinHash: await hashPin(pin, pinSalt, pinIterations, keys.pinKey),
+    pinSalt,
+    pinIterations,
+    constituency,
+    hasVoted: false,
+    failedAttempts: 0,
+    lockedUntil: null
+  };
+}
+
+async function verifyVoterPin(voter: VoterRecord, pin: string, pinKey: CryptoKey): Promise<boolean> {
+  if (voter.version < 2 || !voter.pinSalt || !voter.pinIterations) {
+    return voter.pinHash === await sha256(pin);
+  }
+  if (voter.version < 3) {
+    return voter.pinHash === await pbkdf2Sha256(pin, voter.pinSalt, voter.pinIterations);
   }
+  return voter.pinHash === await hashPin(pin, voter.pinSalt, voter.pinIterations, pinKey);
+}
+
+// Look up by keyed index, then by the version 1 plain SHA-256 index
+async function findVoter(nationalId: string, indexKey: CryptoKey): Promise<VoterRecord | null> {
+  return await loadVoter(await hmacSha256(indexKey, nationalId))
+    ?? await loadVoter(await sha256(nationalId));
 }
 
 /**
@@ -142,17 +169,21 @@ async function ensureInitialized() {
  * Returns voter record if successful, null otherwise
  * 
  * Security: 3 failed attempts locks account for 5 minutes
+ * Refused outright (without using an attempt) unless the election is open
  */
 export async function authenticateVoter(
   nationalId: string,
-  pin: string
+  pin: string,
+  election: ElectionStatus
 ): Promise<{ success: boolean; voter?: VoterRecord; error?: string; attemptsRemaining?: number }> {
-  await ensureInitialized();
-  
-  const idHash = await sha256(nationalId);
-  const pinHash = await sha256(pin);
+  const closedReason = checkVotingOpen(election);
+  if (closedReason) {
+    return { success: false, error: closedReason };
+  }
   
-  const voter = MOCK_VOTERS.find(v => v.nationalIdHash === idHash);
+  const normalisedId = normaliseNationalId(nationalId);
+  const keys = await getVoterKeys();
+  let voter = await findVoter(normalisedId, keys.indexKey);
   
   if (!voter) {
     return { success: false, error: 'Invalid credentials' };
@@ -174,11 +205,12 @@ export async function authenticateVoter(
   }
   
   // Verify PIN
-  if (voter.pinHash !== pinHash) {
+  if (!await verifyVoterPin(voter, pin, keys.pinKey)) {
     voter.failedAttempts++;
     
     if (voter.failedAttempts >= 3) {
       voter.lockedUntil = Date.now() + 5 * 60 * 1000; // 5 minutes
+      await saveVoter(voter);
       return { 
         success: false, 
         error: 'Account locked due to too many failed attempts. Try again in 5 minutes.',
@@ -186,6 +218,7 @@ export async function authenticateVoter(
       };
     }
     
+    await saveVoter(voter);
     return { 
       success: false, 
       error: 'Invalid credentials',
@@ -195,25 +228,58 @@ export async function authenticateVoter(
   
   // Success - reset failed attempts
   voter.failedAttempts = 0;
+
+  // Re-hash records older or cheaper than the current policy while the
+  // plaintext PIN is at hand
+  const pinIterations = (await loadVoterRollSummary())?.pinIterations ?? DEFAULT_PIN_ITERATIONS;
+  if (voter.version < VOTER_RECORD_VERSION || (voter.pinIterations ?? 0) < pinIterations) {
+    const upgraded = await createVoterRecord(normalisedId, pin, voter.constituency, keys, pinIterations);
+    upgraded.hasVoted = voter.hasVoted;
+    await replaceVoter(voter.nationalIdHash, upgraded);
+    voter = upgraded;
+  } else {
+    await saveVoter(voter);
+  }
   
   return { success: true, voter };
 }
 
+/**
+ * Install the ballot layouts from the election definition (see
+ * getBallotLayouts); replaces any previously installed layouts
+ */
+export function loadConstituencies(constituencies: Constituency[]): void {
+  CONSTITUENCIES.clear();
+  for (const constituency of constituencies) {
+    CONSTITUENCIES.set(constituency.id, constituency);
+  }
+}
+
 /**
  * Get constituency information for authenticated voter
  */
 export async function getConstituency(constituencyId: string): Promise<Constituency | null> {
-  await ensureInitialized();
   return CONSTITUENCIES.get(constituencyId) || null;
 }
 
 /**
- * Get voter's unique hash for blockchain recording
+ * Get all constituencies (ballot layouts for tallying)
+ */
+export async function getAllConstituencies(): Promise<Constituency[]> {
+  return Array.from(CONSTITUENCIES.values());
+}
+
+/**
+ * Get voter's pseudonym for blockchain recording
+ * Keyed by the election's pseudonym secret, so it differs per election
+ * and cannot be recomputed from a National ID without that secret
  */
 export async function getVoterHash(nationalId: string): Promise<string> {
-  // Double-hash for additional privacy layer
-  const firstHash = await sha256(nationalId);
-  return sha256(firstHash + 'ELECTORAL_SALT_2024');
+  const key = await loadPseudonymKey();
+  if (!key) {
+    throw new Error('This kiosk does not hold the election pseudonym key');
+  }
+  return derivePseudonym(key, normaliseNationalId(nationalId));
 }
 
 /**
@@ -221,15 +287,16 @@ export async function getVoterHash(nationalId: string): Promise<string> {
  * Note: Voter can still vote again - only last vote counts
  */
 export async function markVoterVoted(nationalIdHash: string): Promise<void> {
-  await ensureInitialized();
-  const voter = MOCK_VOTERS.find(v => v.nationalIdHash === nationalIdHash);
+  const voter = await loadVoter(nationalIdHash);
   if (voter) {
     voter.hasVoted = true;
+    await saveVoter(voter);
   }
 }
 
 /**
  * Get demo credentials for testing
+ * Listed in the demonstration voter roll (public/elections/demo-voter-roll.csv)
  */
 export function getDemoCredentials(): { nationalId: string; pin: string }[] {
   return [
@@ -238,20 +305,3 @@ export function getDemoCredentials(): { nationalId: string; pin: string }[] {
     { nationalId: 'C456789123', pin: '9012' },
   ];
 }
-
-/**
- * Admin authentication (separate from voter auth)
- */
-export async function authenticateAdmin(
-  username: string,
-  password: string
-): Promise<boolean> {
-  // Demo admin credentials
-  const adminHash = await sha256('admin');
-  const passHash = await sha256('electoral2024');
-  
-  const inputUserHash = await sha256(username);
-  const inputPassHash = await sha256(password);
-  
-  return inputUserHash === adminHash && inputPassHash === passHash;
-}
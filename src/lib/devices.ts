@@ -0,0 +1,214 @@
+/**
+ * KIOSK DEVICE IDENTITY AND REGISTRY
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Each kiosk is provisioned at setup with its own ECDSA P-256 key pair.
+ * The private key is generated non-extractable and never leaves the
+ * device; the public key is entered in a registry of authorised kiosks,
+ * each bound to the constituencies it may serve. Every block a kiosk
+ * creates carries its device signature (see addVote / validateChain).
+ * Phase blocks are no exception, so a kiosk must be provisioned and
+ * registered before it records anything, and validation always checks
+ * the registry: an empty registry accepts no block after genesis.
+ *
+ * On a Proof-of-Authority ledger the kiosks registered at the key ceremony
+ * are also its validators: each seals its own blocks with its device key,
+ * and the genesis block commits to their public keys.
+ *
+ * If a terminal is stolen or compromised it is revoked in the registry.
+ * Its blocks stay in the chain as evidence but are voided: they are
+ * excluded from the counted set before the last vote per voter is taken,
+ * so a voter's earlier ballot from an honest kiosk counts instead.
+ *
+ * Security Properties:
+ * - Attribution: each block is signed by exactly one registered device
+ * - Isolation: a revoked device's blocks are voided without rewriting the chain
+ * - Least privilege: a device may only serve its assigned constituencies
+ */
+
+import { generateSigningKeyPair, sha256 } from './crypto';
+import { isVoteBlock, type AuthorisedValidator, type Block } from './blockchain';
+
+export interface AuthorisedDevice {
+  deviceId: string;
+  publicKey: string;          // ECDSA P-256 SPKI, hex
+  constituencyIds: string[];
+  registeredAt: number;
+  revokedAt: number | null;
+  revocationReason: string | null;
+}
+
+/**
+ * The provisioned identity of this kiosk
+ */
+export interface DeviceIdentity {
+  deviceId: string;
+  publicKey: string;
+  privateKey: CryptoKey; // Non-extractable
+  provisionedAt: number;
+}
+
+export interface DeviceSigner {
+  deviceId: string;
+  privateKey: CryptoKey;
+}
+
+const DEVICE_ID_PATTERN = /^[A-Z0-9][A-Z0-9-]{2,31}$/;
+
+/**
+ * Provision a kiosk: generate its key pair and the registry entry to publish
+ */
+export async function provisionDevice(
+  deviceId: string,
+  constituencyIds: string[]
+): Promise<{ identity: DeviceIdentity; registration: AuthorisedDevice }> {
+  if (!DEVICE_ID_PATTERN.test(deviceId)) {
+    throw new Error('Device ID must be 3-32 uppercase letters, digits or hyphens');
+  }
+  if (constituencyIds.length === 0) {
+    throw new Error('A device must be assigned at least one constituency');
+  }
+
+  const { publicKey, privateKey } = await generateSigningKeyPair();
+  const now = Date.now();
+
+  return {
+    identity: { deviceId, publicKey, privateKey, provisionedAt: now },
+    registration: {
+      deviceId,
+      publicKey,
+      constituencyIds,
+      registeredAt: now,
+      revokedAt: null,
+      revocationReason: null
+    }
+  };
+}
+
+/**
+ * Add a device to the registry
+ * A device ID can only be registered once, even after revocation.
+ */
+export function registerDevice(
+  registry: AuthorisedDevice[],
+  registration: AuthorisedDevice
+): AuthorisedDevice[] {
+  if (registry.some(d => d.deviceId === registration.deviceId)) {
+    throw new Error(`Device ${registration.deviceId} is already registered`);
+  }
+  if (registry.some(d => d.publicKey === registration.publicKey)) {
+    throw new Error('This public key is already registered to another device');
+  }
+  return [...registry, { ...registration, revokedAt: null, revocationReason: null }];
+}
+
+/**
+ * Parse a registration exported by another kiosk
+ */
+export function parseDeviceRegistration(json: string): AuthorisedDevice {
+  let value: Partial<AuthorisedDevice>;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Registration is not valid JSON');
+  }
+
+  return parseRegistrationEntry(value);
+}
+
+/**
+ * Parse a published device registry for offline verification
+ * Accepts the registry (an array, revocations included) or a single
+ * exported registration.
+ */
+export function parseDeviceRegistry(json: string): AuthorisedDevice[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Device registry is not valid JSON');
+  }
+
+  const entries = (Array.isArray(value) ? value : [value]) as Partial<AuthorisedDevice>[];
+  if (entries.length === 0 || !entries.every(entry => entry && typeof entry === 'object')) {
+    throw new Error('Device registry must be a registration or a list of registrations');
+  }
+  return entries.map(entry => ({
+    ...parseRegistrationEntry(entry),
+    revokedAt: typeof entry.revokedAt === 'number' ? entry.revokedAt : null,
+    revocationReason: typeof entry.revocationReason === 'string' ? entry.revocationReason : null
+  }));
+}
+
+function parseRegistrationEntry(value: Partial<AuthorisedDevice>): AuthorisedDevice {
+  if (
+    typeof value.deviceId !== 'string' || !DEVICE_ID_PATTERN.test(value.deviceId) ||
+    typeof value.publicKey !== 'string' || !/^[a-f0-9]+$/i.test(value.publicKey) ||
+    !Array.isArray(value.constituencyIds) || value.constituencyIds.length === 0 ||
+    !value.constituencyIds.every(id => typeof id === 'string')
+  ) {
+    throw new Error('Registration is missing a device ID, public key or constituencies');
+  }
+
+  return {
+    deviceId: value.deviceId,
+    publicKey: value.publicKey.toLowerCase(),
+    constituencyIds: value.constituencyIds,
+    registeredAt: typeof value.registeredAt === 'number' ? value.registeredAt : Date.now(),
+    revokedAt: null,
+    revocationReason: null
+  };
+}
+
+/**
+ * Revoke a compromised or stolen device
+ */
+export function revokeDevice(
+  registry: AuthorisedDevice[],
+  deviceId: string,
+  reason: string
+): AuthorisedDevice[] {
+  const device = registry.find(d => d.deviceId === deviceId);
+  if (!device) {
+    throw new Error(`Device ${deviceId} is not registered`);
+  }
+  if (device.revokedAt !== null) {
+    throw new Error(`Device ${deviceId} is already revoked`);
+  }
+
+  return registry.map(d =>
+    d.deviceId === deviceId
+      ? { ...d, revokedAt: Date.now(), revocationReason: reason.trim() || 'Revoked' }
+      : d
+  );
+}
+
+/**
+ * Validator set committed by a Proof-of-Authority genesis block
+ */
+export function getDeviceValidators(registry: AuthorisedDevice[]): AuthorisedValidator[] {
+  return registry
+    .filter(d => d.revokedAt === null)
+    .map(d => ({ id: d.deviceId, publicKey: d.publicKey }));
+}
+
+export function getRevokedDeviceIds(registry: AuthorisedDevice[]): string[] {
+  return registry.filter(d => d.revokedAt !== null).map(d => d.deviceId);
+}
+
+/**
+ * Vote blocks created by revoked devices
+ */
+export function getVoidedBlocks(chain: Block[], revokedDeviceIds: string[]): Block[] {
+  if (revokedDeviceIds.length === 0) return [];
+  return chain.filter(isVoteBlock).filter(block =>
+    block.deviceId !== undefined && revokedDeviceIds.includes(block.deviceId)
+  );
+}
+
+/**
+ * Short fingerprint of a device public key for display and comparison
+ */
+export async function deviceKeyFingerprint(publicKey: string): Promise<string> {
+  return (await sha256(publicKey)).substring(0, 16);
+}
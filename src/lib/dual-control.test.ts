@@ -0,0 +1,58 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { approveDualControl, requestDualControl, DUAL_CONTROL_WINDOW_MS } from './dual-control';
+import { createAdminAccount } from './admin-accounts';
+import { loadAdminLog } from './storage';
+
+describe('two-person rule', { timeout: 30_000 }, () => {
+  beforeAll(async () => {
+    const officer = await createAdminAccount('returning-officer', 'officer-password', 'presiding-officer', null);
+    await createAdminAccount('auditor-1', 'auditor-password', 'auditor', officer);
+    await createAdminAccount('technician-1', 'technician-password', 'technician', officer);
+  }, 30_000);
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records an approval by a second official in the admin log', async () => {
+    const request = requestDualControl('export-chain', 'returning-officer');
+
+    const authorisation = await approveDualControl(request, 'Auditor-1', 'auditor-password', { tipIndex: '7' });
+
+    expect(authorisation).toMatchObject({ action: 'export-chain', initiator: 'returning-officer', approver: 'auditor-1' });
+    const entry = (await loadAdminLog()).find(e => e.hash === authorisation.logEntryHash);
+    expect(entry).toMatchObject({
+      type: 'dual-authorisation',
+      actor: 'returning-officer',
+      approver: 'auditor-1',
+      details: { tipIndex: '7', action: 'export-chain' }
+    });
+  });
+
+  it('rejects self-approval, a role that may not approve and wrong credentials', async () => {
+    const request = requestDualControl('close-election', 'returning-officer');
+
+    await expect(approveDualControl(request, ' Returning-Officer ', 'officer-password'))
+      .rejects.toThrow('A second, different official must approve this action');
+    await expect(approveDualControl(request, 'technician-1', 'technician-password'))
+      .rejects.toThrow('Close the election must be approved by a Presiding Officer or Auditor');
+    await expect(approveDualControl(request, 'auditor-1', 'wrong-password'))
+      .rejects.toThrow('Invalid administrator credentials');
+    await expect(approveDualControl(requestDualControl('start-tally', 'returning-officer'), 'auditor-1', 'auditor-password'))
+      .rejects.toThrow('Start the tally must be approved by a Presiding Officer or Trustee');
+  });
+
+  it('rejects an approval after the window has expired', async () => {
+    const request = requestDualControl('export-chain', 'returning-officer');
+    const entries = (await loadAdminLog()).length;
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(request.expiresAt + 1);
+
+    await expect(approveDualControl(request, 'auditor-1', 'auditor-password'))
+      .rejects.toThrow('The approval window has expired. Request the action again.');
+    expect(request.expiresAt - request.requestedAt).toBe(DUAL_CONTROL_WINDOW_MS);
+    expect(await loadAdminLog()).toHaveLength(entries);
+  });
+});
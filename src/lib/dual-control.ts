@@ -0,0 +1,119 @@
+/**
+ * TWO-PERSON RULE FOR SENSITIVE ADMINISTRATIVE ACTIONS
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Exporting the chain, closing the election and starting the tally each
+ * need a second official. The signed-in official requests the action;
+ * within a short window a different official, whose role may approve that
+ * action, enters their own credentials at the console. The approval is
+ * recorded in the hash-chained admin log (see admin-log.ts) naming both
+ * officials before the action runs.
+ *
+ * The approver's password is checked like any sign-in, so failed approvals
+ * count towards that account's lockout.
+ *
+ * Security Properties:
+ * - Dual control: no single official can perform these actions alone
+ * - Freshness: an approval is only accepted within DUAL_CONTROL_WINDOW_MS
+ * - Attribution: both identities are committed to the admin log
+ */
+
+import { authenticateAdmin, ADMIN_ROLE_LABELS, type AdminRole } from './admin-accounts';
+import { recordAdminEvent } from './admin-log';
+
+export type DualControlAction = 'export-chain' | 'close-election' | 'start-tally';
+
+export const DUAL_CONTROL_LABELS: Record<DualControlAction, string> = {
+  'export-chain': 'Export the chain',
+  'close-election': 'Close the election',
+  'start-tally': 'Start the tally'
+};
+
+// Roles whose holders may approve each action
+const APPROVER_ROLES: Record<DualControlAction, AdminRole[]> = {
+  'export-chain': ['presiding-officer', 'auditor'],
+  'close-election': ['presiding-officer', 'auditor'],
+  'start-tally': ['presiding-officer', 'trustee']
+};
+
+export const DUAL_CONTROL_WINDOW_MS = 2 * 60 * 1000;
+
+export interface DualControlRequest {
+  action: DualControlAction;
+  initiator: string;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+export interface DualAuthorisation {
+  action: DualControlAction;
+  initiator: string;
+  approver: string;
+  approvedAt: number;
+  logEntryHash: string; // Admin log entry recording the approval
+}
+
+/**
+ * Open an approval window for `action`
+ */
+export function requestDualControl(action: DualControlAction, initiator: string): DualControlRequest {
+  const requestedAt = Date.now();
+  return { action, initiator, requestedAt, expiresAt: requestedAt + DUAL_CONTROL_WINDOW_MS };
+}
+
+/**
+ * Roles that may approve `action`, for display
+ */
+export function describeApprovers(action: DualControlAction): string {
+  return APPROVER_ROLES[action].map(role => ADMIN_ROLE_LABELS[role]).join(' or ');
+}
+
+/**
+ * Approve a request with a second official's credentials
+ * Throws if the window has passed, the approver is the initiator, the
+ * credentials are wrong or the approver's role may not approve the action.
+ * `details` are recorded with the approval (e.g. the chain tip exported).
+ */
+export async function approveDualControl(
+  request: DualControlRequest,
+  username: string,
+  password: string,
+  details: Record<string, string> = {}
+): Promise<DualAuthorisation> {
+  if (Date.now() > request.expiresAt) {
+    throw new Error('The approval window has expired. Request the action again.');
+  }
+  if (username.trim().toLowerCase() === request.initiator) {
+    throw new Error('A second, different official must approve this action');
+  }
+
+  const result = await authenticateAdmin(username, password, 'approval');
+  if (!result.success || !result.session) {
+    throw new Error(result.error || 'Invalid administrator credentials');
+  }
+  if (!APPROVER_ROLES[request.action].includes(result.session.role)) {
+    await recordAdminEvent('login-failed', result.session.username, {
+      reason: `role may not approve ${request.action}`,
+      purpose: 'approval'
+    });
+    throw new Error(`${DUAL_CONTROL_LABELS[request.action]} must be approved by a ${describeApprovers(request.action)}`);
+  }
+  if (Date.now() > request.expiresAt) {
+    throw new Error('The approval window has expired. Request the action again.');
+  }
+
+  const entry = await recordAdminEvent(
+    'dual-authorisation',
+    request.initiator,
+    { ...details, action: request.action, requestedAt: new Date(request.requestedAt).toISOString() },
+    result.session.username
+  );
+
+  return {
+    action: request.action,
+    initiator: request.initiator,
+    approver: result.session.username,
+    approvedAt: entry.timestamp,
+    logEntryHash: entry.hash
+  };
+}
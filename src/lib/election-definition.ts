@@ -0,0 +1,245 @@
+/**
+ * ELECTION DEFINITION FILE
+ *
+ * TECHNICAL AFFIDAVIT:
+ * The ballot configuration (election metadata, parties, constituencies,
+ * candidates and ballot rules) is supplied by the electoral commission as
+ * a versioned JSON document and installed at kiosk setup. It is validated
+ * against a strict schema, including cross-references (every candidate's
+ * party exists, ballot positions are 1..n, identifiers are unique).
+ *
+ * The definition is hashed over a canonical encoding (object keys sorted,
+ * no insignificant whitespace) and the hash is committed in the genesis
+ * block together with the published election key, so a chain is bound to
+ * the exact ballot configuration it was recorded under. Reformatting the
+ * file does not change the hash; changing any value does.
+ *
+ * Security Properties:
+ * - Strict validation: unknown fields and dangling references are rejected
+ * - Commitment: the genesis block carries the definition hash
+ * - Reproducibility: auditors recompute the hash from the published file
+ */
+
+import { z } from 'zod';
+import { sha256 } from './crypto';
+import type { ElectionConfig, LedgerAuthorities } from './blockchain';
+import type { Constituency, Candidate } from './database';
+import type { Election } from './election';
+import type { PublishedElectionKey } from './key-ceremony';
+
+const DEFINITION_FORMAT = 'SVS-ELECTION';
+const DEFINITION_VERSION = 1;
+
+const SLUG = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// Shown for candidates without a party
+const INDEPENDENT = { name: 'Independent', abbreviation: 'IND', colour: '#7588a3' };
+
+const PartySchema = z.object({
+  id: z.string().regex(SLUG, 'must be a lowercase slug'),
+  name: z.string().min(1),
+  abbreviation: z.string().regex(/^[A-Z0-9]{1,8}$/, 'must be 1-8 capital letters or digits'),
+  colour: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'must be a #RRGGBB colour')
+}).strict();
+
+const CandidateSchema = z.object({
+  id: z.string().regex(SLUG, 'must be a lowercase slug'),
+  name: z.string().min(1),
+  partyId: z.string().nullable(), // null for independents
+  ballotPosition: z.number().int().min(1)
+}).strict();
+
+const ConstituencySchema = z.object({
+  id: z.string().regex(SLUG, 'must be a lowercase slug'),
+  name: z.string().min(1),
+  region: z.string().min(1),
+  candidates: z.array(CandidateSchema).min(2, 'needs at least two candidates')
+}).strict();
+
+// Rules the kiosk implements; anything else is rejected rather than ignored
+const BallotRulesSchema = z.object({
+  selectionsPerBallot: z.literal(1),
+  revoting: z.literal('last-vote-counts')
+}).strict();
+
+const ElectionDefinitionSchema = z.object({
+  format: z.literal(DEFINITION_FORMAT),
+  version: z.literal(DEFINITION_VERSION),
+  election: z.object({
+    electionId: z.string().regex(/^[A-Z0-9][A-Z0-9-]{2,63}$/, 'must be capital letters, digits and hyphens'),
+    name: z.string().min(1),
+    authority: z.string().min(1),
+    publishedAt: z.string().datetime({ offset: true }), // Genesis timestamp
+    opensAt: z.string().datetime({ offset: true }),
+    closesAt: z.string().datetime({ offset: true })
+  }).strict(),
+  parties: z.array(PartySchema),
+  constituencies: z.array(ConstituencySchema).min(1),
+  ballotRules: BallotRulesSchema
+}).strict().superRefine((definition, ctx) => {
+  const { election, parties, constituencies } = definition;
+
+  if (Date.parse(election.publishedAt) > Date.parse(election.opensAt)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['election', 'publishedAt'], message: 'must not be after opensAt' });
+  }
+  if (Date.parse(election.closesAt) <= Date.parse(election.opensAt)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['election', 'closesAt'], message: 'must be after opensAt' });
+  }
+
+  const duplicate = (ids: string[]) => ids.find((id, i) => ids.indexOf(id) !== i);
+  const partyIds = parties.map(p => p.id);
+
+  const duplicateParty = duplicate(partyIds);
+  if (duplicateParty) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['parties'], message: `duplicate party ${duplicateParty}` });
+  }
+
+  const duplicateConstituency = duplicate(constituencies.map(c => c.id));
+  if (duplicateConstituency) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['constituencies'], message: `duplicate constituency ${duplicateConstituency}` });
+  }
+
+  const duplicateCandidate = duplicate(constituencies.flatMap(c => c.candidates.map(candidate => candidate.id)));
+  if (duplicateCandidate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['constituencies'], message: `duplicate candidate ${duplicateCandidate}` });
+  }
+
+  constituencies.forEach((constituency, i) => {
+    const positions = constituency.candidates.map(c => c.ballotPosition).sort((a, b) => a - b);
+    if (positions.some((position, j) => position !== j + 1)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['constituencies', i, 'candidates'],
+        message: 'ballot positions must run 1..n without gaps or repeats'
+      });
+    }
+
+    constituency.candidates.forEach((candidate, j) => {
+      if (candidate.partyId !== null && !partyIds.includes(candidate.partyId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['constituencies', i, 'candidates', j, 'partyId'],
+          message: `unknown party ${candidate.partyId}`
+        });
+      }
+    });
+  });
+});
+
+export type ElectionDefinition = z.infer<typeof ElectionDefinitionSchema>;
+
+/**
+ * Parse and validate an election definition file
+ * Throws with every schema violation, one per line
+ */
+export function parseElectionDefinition(json: string): ElectionDefinition {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Election definition is not valid JSON');
+  }
+
+  const result = ElectionDefinitionSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(
+      result.error.issues
+        .map(issue => `${issue.path.join('.') || 'definition'}: ${issue.message}`)
+        .join('\n')
+    );
+  }
+
+  return result.data;
+}
+
+// JSON with object keys sorted at every level
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 of the canonical encoding, committed in the genesis block
+ */
+export async function hashElectionDefinition(definition: ElectionDefinition): Promise<string> {
+  return sha256(canonicalJson(definition));
+}
+
+/**
+ * Genesis configuration for a ledger recorded under this definition, once
+ * the key ceremony has published the election key and fixed the ledger
+ * authorities (see createBlockchain)
+ */
+export async function getElectionConfig(
+  definition: ElectionDefinition,
+  electionKey: PublishedElectionKey,
+  authorities: LedgerAuthorities
+): Promise<ElectionConfig> {
+  return {
+    electionId: definition.election.electionId,
+    definitionHash: await hashElectionDefinition(definition),
+    publishedAt: Date.parse(definition.election.publishedAt),
+    encryptionKey: {
+      scheme: electionKey.scheme,
+      publicKey: electionKey.publicKey,
+      privateKeyFingerprint: electionKey.privateKeyFingerprint
+    },
+    trustees: {
+      threshold: electionKey.threshold,
+      shardFingerprints: electionKey.shardFingerprints,
+      verificationKeys: electionKey.shareVerificationKeys
+    },
+    consensus: authorities.consensus,
+    difficultyPolicy: authorities.difficultyPolicy,
+    validators: authorities.validators,
+    administrators: authorities.administrators
+  };
+}
+
+/**
+ * Election metadata and voting window for the lifecycle
+ */
+export function getElectionSchedule(definition: ElectionDefinition): Election {
+  return {
+    electionId: definition.election.electionId,
+    name: definition.election.name,
+    opensAt: Date.parse(definition.election.opensAt),
+    closesAt: Date.parse(definition.election.closesAt)
+  };
+}
+
+/**
+ * Ballot layouts, candidates in ballot position order
+ */
+export function getBallotLayouts(definition: ElectionDefinition): Constituency[] {
+  const parties = new Map(definition.parties.map(party => [party.id, party]));
+
+  return definition.constituencies.map(constituency => {
+    const candidates: Candidate[] = constituency.candidates.map(candidate => {
+      const party = candidate.partyId !== null ? parties.get(candidate.partyId) : undefined;
+      return {
+        id: candidate.id,
+        name: candidate.name,
+        party: party?.name ?? INDEPENDENT.name,
+        partyAbbrev: party?.abbreviation ?? INDEPENDENT.abbreviation,
+        partyColour: party?.colour ?? INDEPENDENT.colour,
+        ballotPosition: candidate.ballotPosition
+      };
+    });
+
+    return {
+      id: constituency.id,
+      name: constituency.name,
+      region: constituency.region,
+      candidates: candidates.sort((a, b) => a.ballotPosition - b.ballotPosition)
+    };
+  });
+}
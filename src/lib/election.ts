@@ -0,0 +1,314 @@
+/**
+ * ELECTION LIFECYCLE
+ *
+ * TECHNICAL AFFIDAVIT:
+ * An election moves through five phases in a fixed order:
+ *   setup -> open -> closed -> tallied -> certified
+ * Each transition is recorded on the chain as a phase block carrying a
+ * statement signed by the administrator who made it, with a key committed
+ * in the genesis block at the key ceremony. The current phase is
+ * derived from the chain, not from kiosk settings, so every kiosk and every
+ * external verifier agrees on it.
+ *
+ * The opening transition commits the scheduled voting window. Vote blocks
+ * are only valid while the election is open and inside that window, so no
+ * ballot can be added before opening, after the polls close or after the
+ * count.
+ *
+ * Security Properties:
+ * - Ordering: phases cannot be skipped, repeated or reversed
+ * - Attribution: each transition carries an administrator ECDSA signature
+ * - Authorisation: only administrator keys committed in the genesis block
+ *   may sign; a key carried by the transition itself is not trusted
+ * - Binding: the signature covers the chain tip the transition follows
+ * - Log anchoring: each transition commits the tip of the recording
+ *   kiosk's admin log, so the log cannot be rewritten behind it
+ * - Fixed window: the schedule cannot change once voting has opened
+ */
+
+import { signData, verifySignature } from './crypto';
+import type { Block } from './blockchain';
+
+export type ElectionPhase = 'setup' | 'open' | 'closed' | 'tallied' | 'certified';
+
+export const ELECTION_PHASES: ElectionPhase[] = ['setup', 'open', 'closed', 'tallied', 'certified'];
+
+/**
+ * Election metadata and scheduled voting window (from the installed
+ * election definition until voting opens, then committed on chain)
+ */
+export interface Election {
+  electionId: string;
+  name: string;
+  opensAt: number;
+  closesAt: number;
+}
+
+/**
+ * Signed phase transition, stored in a phase block
+ */
+export interface PhaseTransition {
+  electionId: string;
+  from: ElectionPhase;
+  to: ElectionPhase;
+  opensAt: number;
+  closesAt: number;
+  previousHash: string; // Chain tip the transition follows
+  adminLog: AdminLogAnchor | null; // Recording kiosk's admin log tip, null while empty
+  adminId: string;
+  publicKey: string;    // Administrator ECDSA P-256 SPKI, hex
+  signedAt: number;
+  signature: string;
+}
+
+/**
+ * Admin log entry committed by a phase transition (see admin-log.ts)
+ */
+export interface AdminLogAnchor {
+  index: number;
+  hash: string;
+}
+
+/**
+ * Administrator allowed to sign transitions, committed in the genesis block
+ */
+export interface AuthorisedAdministrator {
+  adminId: string;
+  publicKey: string; // ECDSA P-256 SPKI, hex
+}
+
+/**
+ * Administrator key used to sign transitions (an AuditSigningKey fits)
+ */
+export interface PhaseSigner {
+  adminId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+export interface ElectionStatus {
+  phase: ElectionPhase;
+  schedule: Pick<Election, 'electionId' | 'opensAt' | 'closesAt'> | null; // Committed when voting opened
+  transitions: PhaseTransition[];
+}
+
+const PHASE_BLOCK_PREFIX = 'SVS-PHASE:';
+const ELECTION_ID_PATTERN = /^[A-Z0-9][A-Z0-9-]{2,63}$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Phase that follows `phase`, or null once certified
+ */
+export function nextPhase(phase: ElectionPhase): ElectionPhase | null {
+  return ELECTION_PHASES[ELECTION_PHASES.indexOf(phase) + 1] ?? null;
+}
+
+/**
+ * Validate election metadata before it is saved or opened
+ */
+export function validateElection(election: Election): string | null {
+  if (!ELECTION_ID_PATTERN.test(election.electionId)) {
+    return 'Election ID must be 3-64 characters: capital letters, digits and hyphens';
+  }
+  if (!election.name.trim()) {
+    return 'Election name is required';
+  }
+  if (!Number.isFinite(election.opensAt) || !Number.isFinite(election.closesAt)) {
+    return 'Opening and closing times are required';
+  }
+  if (election.closesAt <= election.opensAt) {
+    return 'Closing time must be after opening time';
+  }
+  return null;
+}
+
+export function isPhaseBlock(block: Pick<Block, 'encryptedVote'>): boolean {
+  return block.encryptedVote.startsWith(PHASE_BLOCK_PREFIX);
+}
+
+export function encodePhaseBlock(transition: PhaseTransition): string {
+  return PHASE_BLOCK_PREFIX + JSON.stringify(transition);
+}
+
+export function parsePhaseBlock(block: Pick<Block, 'encryptedVote'>): PhaseTransition | null {
+  if (!isPhaseBlock(block)) return null;
+  try {
+    const transition = JSON.parse(block.encryptedVote.slice(PHASE_BLOCK_PREFIX.length));
+    return typeof transition?.signature === 'string' ? transition : null;
+  } catch {
+    return null;
+  }
+}
+
+// Canonical statement signed by the administrator
+function encodePhaseStatement(transition: Omit<PhaseTransition, 'signature'>): string {
+  return JSON.stringify([
+    PHASE_BLOCK_PREFIX,
+    transition.electionId,
+    transition.from,
+    transition.to,
+    transition.opensAt,
+    transition.closesAt,
+    transition.previousHash,
+    transition.adminLog ? [transition.adminLog.index, transition.adminLog.hash] : null,
+    transition.adminId,
+    transition.publicKey,
+    transition.signedAt
+  ]);
+}
+
+function applyTransition(status: ElectionStatus, transition: PhaseTransition): ElectionStatus {
+  return {
+    phase: transition.to,
+    schedule: status.schedule ?? {
+      electionId: transition.electionId,
+      opensAt: transition.opensAt,
+      closesAt: transition.closesAt
+    },
+    transitions: [...status.transitions, transition]
+  };
+}
+
+/**
+ * Current phase and committed schedule, derived from the phase blocks
+ * (assumes a validated chain)
+ */
+export function getElectionStatus(chain: Block[]): ElectionStatus {
+  let status: ElectionStatus = { phase: 'setup', schedule: null, transitions: [] };
+  for (const block of chain.slice(1)) {
+    const transition = parsePhaseBlock(block);
+    if (transition) status = applyTransition(status, transition);
+  }
+  return status;
+}
+
+/**
+ * Whether a ballot may be cast at `at`; returns the reason if not
+ */
+export function checkVotingOpen(status: ElectionStatus, at: number = Date.now()): string | null {
+  if (status.phase === 'setup' || !status.schedule) {
+    return 'Voting has not opened yet';
+  }
+  if (status.phase !== 'open') {
+    return 'Voting has closed';
+  }
+  if (at < status.schedule.opensAt) {
+    return `Voting opens at ${new Date(status.schedule.opensAt).toLocaleString()}`;
+  }
+  if (at > status.schedule.closesAt) {
+    return `Voting closed at ${new Date(status.schedule.closesAt).toLocaleString()}`;
+  }
+  return null;
+}
+
+/**
+ * Sign the transition to `to` on top of the current chain tip
+ * Before voting opens the schedule comes from `election`; afterwards the
+ * committed schedule is carried forward unchanged. `adminLog` is the
+ * current tip of this kiosk's admin log.
+ */
+export async function signPhaseTransition(
+  chain: Block[],
+  election: Election | null,
+  to: ElectionPhase,
+  signer: PhaseSigner,
+  adminLog: AdminLogAnchor | null
+): Promise<PhaseTransition> {
+  const status = getElectionStatus(chain);
+  const expected = nextPhase(status.phase);
+
+  if (to !== expected) {
+    throw new Error(
+      expected
+        ? `Cannot move from ${status.phase} to ${to}; the next phase is ${expected}`
+        : 'Election is already certified'
+    );
+  }
+
+  const schedule = status.schedule ?? election;
+  if (!schedule) {
+    throw new Error('Install an election definition before opening voting');
+  }
+  if (election && !status.schedule) {
+    const electionError = validateElection(election);
+    if (electionError) throw new Error(electionError);
+    if (chain.length > 1) {
+      throw new Error('Ledger already contains blocks recorded outside an election');
+    }
+  }
+
+  const statement: Omit<PhaseTransition, 'signature'> = {
+    electionId: schedule.electionId,
+    from: status.phase,
+    to,
+    opensAt: schedule.opensAt,
+    closesAt: schedule.closesAt,
+    previousHash: chain[chain.length - 1].hash,
+    adminLog: adminLog && { index: adminLog.index, hash: adminLog.hash },
+    adminId: signer.adminId,
+    publicKey: signer.publicKey,
+    signedAt: Date.now()
+  };
+
+  return {
+    ...statement,
+    signature: await signData(encodePhaseStatement(statement), signer.privateKey)
+  };
+}
+
+/**
+ * Verify a phase block against the status before it and the
+ * administrators committed in the genesis block
+ * Returns the new status, or the reason the block is invalid
+ */
+export async function verifyPhaseBlock(
+  block: Block,
+  status: ElectionStatus,
+  administrators: AuthorisedAdministrator[]
+): Promise<{ status: ElectionStatus; error: null } | { status: null; error: string }> {
+  const fail = (error: string) => ({ status: null, error });
+
+  const transition = parsePhaseBlock(block);
+  if (!transition) return fail('Malformed phase transition');
+
+  if (block.voterHash !== '0'.repeat(64) || block.ballotProof) {
+    return fail('Phase block carries ballot fields');
+  }
+  if (transition.from !== status.phase || transition.to !== nextPhase(status.phase)) {
+    return fail(`Phase transition ${transition.from} -> ${transition.to} is out of order`);
+  }
+  if (transition.previousHash !== block.previousHash) {
+    return fail('Phase transition was signed for a different chain tip');
+  }
+  if (transition.signedAt > block.timestamp) {
+    return fail('Phase transition signed after its block');
+  }
+  if (transition.adminLog !== null && (
+    !Number.isSafeInteger(transition.adminLog?.index) ||
+    transition.adminLog.index < 0 ||
+    !HASH_PATTERN.test(transition.adminLog.hash)
+  )) {
+    return fail('Malformed admin log anchor');
+  }
+  if (status.schedule && (
+    transition.electionId !== status.schedule.electionId ||
+    transition.opensAt !== status.schedule.opensAt ||
+    transition.closesAt !== status.schedule.closesAt
+  )) {
+    return fail('Phase transition changes the committed election schedule');
+  }
+
+  const authorised = administrators.some(admin =>
+    admin.adminId === transition.adminId && admin.publicKey === transition.publicKey
+  );
+  if (!authorised) {
+    return fail(`Unauthorised administrator key for ${transition.adminId}`);
+  }
+
+  const { signature, ...statement } = transition;
+  if (!await verifySignature(encodePhaseStatement(statement), signature, transition.publicKey)) {
+    return fail(`Invalid phase signature by ${transition.adminId}`);
+  }
+
+  return { status: applyTransition(status, transition), error: null };
+}
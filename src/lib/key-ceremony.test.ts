@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { fingerprintPrivateKey, runKeyCeremony, validateCeremonyConfig } from './key-ceremony';
+import {
+  combinePartialDecryptions,
+  createPartialDecryption,
+  getShareVerificationKey
+} from './threshold-decryption';
+import { decodeShare, decryptVote, elgamalEncrypt, encryptVoteRSA, sha256, shamirCombine } from './crypto';
+
+describe('key ceremony', { timeout: 30_000 }, () => {
+  it('rejects thresholds that are too low or exceed the trustees', () => {
+    expect(validateCeremonyConfig({ scheme: 'elgamal', threshold: 1, totalShares: 3 })).toBe('Threshold must be at least 2');
+    expect(validateCeremonyConfig({ scheme: 'elgamal', threshold: 4, totalShares: 3 }))
+      .toBe('Threshold cannot exceed the number of trustees');
+    expect(validateCeremonyConfig({ scheme: 'rsa-oaep', threshold: 2.5, totalShares: 3 }))
+      .toBe('Threshold and trustee count must be whole numbers');
+    expect(validateCeremonyConfig({ scheme: 'rsa-oaep', threshold: 2, totalShares: 3 })).toBeNull();
+  });
+
+  it('lets any k RSA shards decrypt a ballot, and k-1 shards not', async () => {
+    const { electionKey, shards } = await runKeyCeremony({ scheme: 'rsa-oaep', threshold: 3, totalShares: 4 });
+    const { encryptedVote } = await encryptVoteRSA({ candidateId: 'alice' }, electionKey.publicKey);
+
+    expect(electionKey.shardFingerprints).toEqual(await Promise.all(shards.map(shard => sha256(shard))));
+    expect(electionKey.shareVerificationKeys).toEqual([]);
+
+    const rebuilt = shamirCombine([decodeShare(shards[3]), decodeShare(shards[0]), decodeShare(shards[2])]);
+    expect(await fingerprintPrivateKey(rebuilt)).toBe(electionKey.privateKeyFingerprint);
+    expect(await decryptVote(encryptedVote, rebuilt)).toEqual({ candidateId: 'alice' });
+
+    const partial = shamirCombine([decodeShare(shards[1]), decodeShare(shards[2])]);
+    expect(await fingerprintPrivateKey(partial)).not.toBe(electionKey.privateKeyFingerprint);
+    await expect(decryptVote(encryptedVote, partial)).rejects.toThrow();
+  });
+
+  it('publishes the verification key of every ElGamal shard, and k-1 shards cannot decrypt', async () => {
+    const { electionKey, shards } = await runKeyCeremony({ scheme: 'elgamal', threshold: 3, totalShares: 4 });
+    const shares = shards.map(decodeShare);
+
+    expect(electionKey.shareVerificationKeys).toEqual(shares.map(getShareVerificationKey));
+
+    const { ciphertext } = elgamalEncrypt(1, electionKey.publicKey);
+    const partials = await Promise.all(shares.map(share => createPartialDecryption([ciphertext], share, electionKey.publicKey)));
+
+    expect(combinePartialDecryptions([ciphertext], partials.slice(1), [1])).toEqual([1]);
+    expect(() => combinePartialDecryptions([ciphertext], partials.slice(0, 2), [1])).toThrow('Plaintext outside expected range');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * THRESHOLD KEY CEREMONY
+ *
+ * TECHNICAL AFFIDAVIT:
+ * This module generates the election decryption key and distributes it
+ * to trustees. The private key exists only for the duration of the
+ * ceremony: it is split with Shamir's Secret Sharing, each trustee
+ * receives one encoded shard, and the key material is wiped.
+ *
+ * An ElGamal key is split over Z_q (see threshold-decryption.ts) and each
+ * shard's verification key is published, so trustees later decrypt the
+ * tally jointly without the key ever being rebuilt. An RSA key is split
+ * bytewise and must be reconstructed to decrypt individual ballots.
+ *
+ * The same ceremony creates the election's voter pseudonym secret (see
+ * voter-pseudonym.ts), split among the same trustees; the kiosk keeps
+ * only a non-extractable copy.
+ *
+ * Security Properties:
+ * - No single party ever holds the election private key after setup
+ * - Any k of n shards decrypt; k-1 reveal nothing
+ * - The published fingerprint lets trustees confirm a correct reconstruction
+ * - Published shard fingerprints let each trustee confirm their own shard
+ */
+
+import {
+  generateElectionKeyPair,
+  generateElGamalKeyPair,
+  shamirSplit,
+  encodeShare,
+  sha256,
+  bufferToHex
+} from './crypto';
+import { createPseudonymSecret } from './voter-pseudonym';
+import { splitElGamalKey, getShareVerificationKey } from './threshold-decryption';
+
+/**
+ * Vote encryption scheme
+ * - rsa-oaep: each ballot is decrypted individually at tally time
+ * - elgamal: ballots are aggregated homomorphically; only sums are decrypted
+ */
+export type EncryptionScheme = 'rsa-oaep' | 'elgamal';
+
+export interface KeyCeremonyConfig {
+  scheme: EncryptionScheme;
+  threshold: number;   // k - shards required to decrypt
+  totalShares: number; // n - trustees receiving a shard
+}
+
+export interface PublishedElectionKey {
+  scheme: EncryptionScheme;
+  publicKey: string;              // SPKI hex (rsa-oaep) or h = g^x hex (elgamal)
+  threshold: number;
+  totalShares: number;
+  privateKeyFingerprint: string;  // SHA-256 of the private key bytes
+  shardFingerprints: string[];    // SHA-256 of each encoded shard, in trustee order
+  shareVerificationKeys: string[]; // g^(x_i) per shard, in trustee order (elgamal only)
+  pseudonymKeyFingerprint: string; // SHA-256 of the voter pseudonym secret
+  createdAt: number;
+}
+
+export interface KeyCeremonyResult {
+  electionKey: PublishedElectionKey;
+  shards: string[]; // One encoded shard per trustee, in trustee order
+  pseudonymShards: string[]; // One pseudonym shard per trustee, in trustee order
+  pseudonymKey: CryptoKey;   // Non-extractable, kept by this kiosk
+}
+
+/**
+ * Validate a k-of-n configuration before any key material is generated
+ */
+export function validateCeremonyConfig(config: KeyCeremonyConfig): string | null {
+  const { threshold, totalShares } = config;
+
+  if (!Number.isInteger(threshold) || !Number.isInteger(totalShares)) {
+    return 'Threshold and trustee count must be whole numbers';
+  }
+  if (threshold < 2) return 'Threshold must be at least 2';
+  if (totalShares > 255) return 'At most 255 trustees are supported';
+  if (threshold > totalShares) return 'Threshold cannot exceed the number of trustees';
+
+  return null;
+}
+
+/**
+ * Fingerprint of the election private key
+ * Published with the public key so a reconstructed key can be checked
+ */
+export async function fingerprintPrivateKey(privateKey: Uint8Array): Promise<string> {
+  return sha256(bufferToHex(privateKey.buffer as ArrayBuffer));
+}
+
+/**
+ * Run the key ceremony
+ *
+ * 1. Generate the election key pair
+ * 2. Split the private key into n shards with threshold k (over Z_q for
+ *    ElGamal, publishing each shard's verification key)
+ * 3. Encode one shard per trustee
+ * 4. Generate and split the voter pseudonym secret the same way
+ * 5. Wipe the private key, pseudonym secret and raw shares from memory
+ */
+export async function runKeyCeremony(config: KeyCeremonyConfig): Promise<KeyCeremonyResult> {
+  const configError = validateCeremonyConfig(config);
+  if (configError) throw new Error(configError);
+
+  const keyPair = config.scheme === 'elgamal'
+    ? generateElGamalKeyPair()
+    : await generateElectionKeyPair();
+
+  try {
+    const privateKeyFingerprint = await fingerprintPrivateKey(keyPair.privateKey);
+    const shares = config.scheme === 'elgamal'
+      ? splitElGamalKey(keyPair.privateKey, config.totalShares, config.threshold)
+      : shamirSplit(keyPair.privateKey, config.totalShares, config.threshold);
+    const shards = shares.map(share => encodeShare(share));
+    const shareVerificationKeys = config.scheme === 'elgamal' ? shares.map(getShareVerificationKey) : [];
+
+    shares.forEach(share => share.y.fill(0));
+
+    const pseudonym = await createPseudonymSecret(config.totalShares, config.threshold);
+
+    return {
+      electionKey: {
+        scheme: config.scheme,
+        publicKey: keyPair.publicKey,
+        threshold: config.threshold,
+        totalShares: config.totalShares,
+        privateKeyFingerprint,
+        shardFingerprints: await Promise.all(shards.map(shard => sha256(shard))),
+        shareVerificationKeys,
+        pseudonymKeyFingerprint: pseudonym.fingerprint,
+        createdAt: Date.now()
+      },
+      shards,
+      pseudonymShards: pseudonym.shards,
+      pseudonymKey: pseudonym.key
+    };
+  } finally {
+    keyPair.privateKey.fill(0);
+  }
+}
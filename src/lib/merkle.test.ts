@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMerkleTree,
+  getInclusionProof,
+  publishBallotMerkleRoot,
+  rebuildBallotMerkleTree,
+  verifyInclusionProof
+} from './merkle';
+import { sha256 } from './crypto';
+import { createTestElection, voterHash } from '@/test/election-fixture';
+
+describe('ballot Merkle tree', { timeout: 30_000 }, () => {
+  it('proves every leaf of an odd-sized tree, and nothing else', async () => {
+    const hashes = await Promise.all([1, 2, 3, 4, 5].map(n => sha256(`block ${n}`)));
+    const tree = await buildMerkleTree(hashes);
+
+    for (const hash of hashes) {
+      expect(await verifyInclusionProof(getInclusionProof(tree, hash)!, tree.root)).toBe(true);
+    }
+
+    const proof = getInclusionProof(tree, hashes[2])!;
+    expect(await verifyInclusionProof({ ...proof, blockHash: hashes[3] }, tree.root)).toBe(false);
+    expect(await verifyInclusionProof({ ...proof, blockHash: await sha256('block 6') }, tree.root)).toBe(false);
+    expect(await verifyInclusionProof(proof, (await buildMerkleTree(hashes.slice(0, 4))).root)).toBe(false);
+    expect(getInclusionProof(tree, await sha256('block 6'))).toBeNull();
+  });
+
+  it('counts only a voter\'s last ballot and rejects a chain rewritten after publication', async () => {
+    const election = await createTestElection('rsa-oaep');
+    await election.recordPhase('open');
+    const superseded = await election.castVote(voterHash(1), 'north', 'alice');
+    const other = await election.castVote(voterHash(2), 'south', 'dave');
+    const last = await election.castVote(voterHash(1), 'north', 'bob');
+
+    const { tree, publication } = await publishBallotMerkleRoot(election.state);
+    expect(tree.leaves).toEqual([other.hash, last.hash]);
+    expect(getInclusionProof(tree, superseded.hash)).toBeNull();
+
+    const rebuilt = await rebuildBallotMerkleTree(election.state.chain, publication);
+    expect(rebuilt.root).toBe(publication.root);
+
+    // The same root claimed for an earlier tip, before the last ballot
+    await expect(rebuildBallotMerkleTree(election.state.chain, { ...publication, tipIndex: 3, tipHash: other.hash }))
+      .rejects.toThrow('Recomputed Merkle root does not match the published root');
+    await expect(rebuildBallotMerkleTree(election.state.chain.slice(0, 4), publication))
+      .rejects.toThrow('Chain does not match the published counted set');
+  });
+});
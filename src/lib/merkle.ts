@@ -0,0 +1,183 @@
+/**
+ * COUNTED-BALLOT MERKLE TREE
+ *
+ * TECHNICAL AFFIDAVIT:
+ * At election close a Merkle tree is built over the block hashes of every
+ * counted ballot (the last vote per voter hash, in chain order, ignoring
+ * blocks from revoked devices) and its root is published. A voter holding
+ * a receipt can verify that their ballot is in the counted set with a
+ * short inclusion proof, without downloading the chain.
+ *
+ * Security Properties:
+ * - Domain separation: leaves and inner nodes are hashed with distinct prefixes
+ * - Odd nodes are promoted, never duplicated (no second-preimage ambiguity)
+ * - Proof size is logarithmic in the number of counted ballots
+ */
+
+import { sha256 } from './crypto';
+import { isVoteBlock, type Block, type BlockchainState } from './blockchain';
+
+export interface MerkleTree {
+  levels: string[][]; // levels[0] = leaf hashes, last level = [root]
+  leaves: string[];   // Block hashes, in leaf order
+  root: string;
+}
+
+export interface InclusionStep {
+  hash: string;
+  position: 'left' | 'right'; // Position of the sibling
+}
+
+export interface InclusionProof {
+  blockHash: string;
+  leafIndex: number;
+  leafCount: number;
+  path: InclusionStep[];
+}
+
+export interface MerklePublication {
+  root: string;
+  leafCount: number;
+  tipIndex: number;  // Last block included when the set was closed
+  tipHash: string;
+  voidedDevices: string[]; // Revoked devices whose blocks were excluded
+  closedAt: number;
+}
+
+const EMPTY_ROOT = '0'.repeat(64);
+
+function hashLeaf(blockHash: string): Promise<string> {
+  return sha256(`00${blockHash}`);
+}
+
+function hashNode(left: string, right: string): Promise<string> {
+  return sha256(`01${left}${right}`);
+}
+
+/**
+ * Counted ballots: the most recent block per voter hash, in chain order
+ * Blocks from revoked devices are voided first, so they cannot supersede
+ * a voter's earlier ballot.
+ */
+export function getCountedBallots(chain: Block[], revokedDeviceIds: string[] = []): Block[] {
+  const latest = new Map<string, Block>();
+  for (const block of chain.filter(isVoteBlock)) {
+    if (block.deviceId !== undefined && revokedDeviceIds.includes(block.deviceId)) continue;
+    latest.set(block.voterHash, block);
+  }
+  return Array.from(latest.values()).sort((a, b) => a.index - b.index);
+}
+
+export async function buildMerkleTree(blockHashes: string[]): Promise<MerkleTree> {
+  if (blockHashes.length === 0) {
+    return { levels: [[]], leaves: [], root: EMPTY_ROOT };
+  }
+
+  const levels: string[][] = [await Promise.all(blockHashes.map(hashLeaf))];
+
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? await hashNode(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+
+  return {
+    levels,
+    leaves: blockHashes,
+    root: levels[levels.length - 1][0]
+  };
+}
+
+/**
+ * Close the counted set and compute its Merkle root
+ */
+export async function publishBallotMerkleRoot(
+  state: BlockchainState,
+  revokedDeviceIds: string[] = []
+): Promise<{ tree: MerkleTree; publication: MerklePublication }> {
+  const tip = state.chain[state.chain.length - 1];
+  const tree = await buildMerkleTree(
+    getCountedBallots(state.chain, revokedDeviceIds).map(block => block.hash)
+  );
+
+  return {
+    tree,
+    publication: {
+      root: tree.root,
+      leafCount: tree.leaves.length,
+      tipIndex: tip.index,
+      tipHash: tip.hash,
+      voidedDevices: revokedDeviceIds,
+      closedAt: Date.now()
+    }
+  };
+}
+
+/**
+ * Rebuild the tree for a publication from the chain
+ * Fails if the chain no longer matches what was published
+ */
+export async function rebuildBallotMerkleTree(
+  chain: Block[],
+  publication: MerklePublication
+): Promise<MerkleTree> {
+  const tip = chain[publication.tipIndex];
+  if (!tip || tip.hash !== publication.tipHash) {
+    throw new Error('Chain does not match the published counted set');
+  }
+
+  const tree = await buildMerkleTree(
+    getCountedBallots(
+      chain.slice(0, publication.tipIndex + 1),
+      publication.voidedDevices ?? []
+    ).map(block => block.hash)
+  );
+  if (tree.root !== publication.root) {
+    throw new Error('Recomputed Merkle root does not match the published root');
+  }
+  return tree;
+}
+
+/**
+ * Inclusion proof for a receipt's block hash, or null if it was not counted
+ * (e.g. the voter voted again later and an earlier receipt was superseded)
+ */
+export function getInclusionProof(tree: MerkleTree, blockHash: string): InclusionProof | null {
+  const leafIndex = tree.leaves.indexOf(blockHash);
+  if (leafIndex === -1) return null;
+
+  const path: InclusionStep[] = [];
+  let index = leafIndex;
+
+  for (let level = 0; level < tree.levels.length - 1; level++) {
+    const nodes = tree.levels[level];
+    const isRight = index % 2 === 1;
+    const siblingIndex = isRight ? index - 1 : index + 1;
+
+    // Promoted odd node: no sibling at this level
+    if (siblingIndex < nodes.length) {
+      path.push({ hash: nodes[siblingIndex], position: isRight ? 'left' : 'right' });
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return { blockHash, leafIndex, leafCount: tree.leaves.length, path };
+}
+
+/**
+ * Verify an inclusion proof against a published root
+ */
+export async function verifyInclusionProof(proof: InclusionProof, root: string): Promise<boolean> {
+  let hash = await hashLeaf(proof.blockHash);
+
+  for (const step of proof.path) {
+    hash = step.position === 'left'
+      ? await hashNode(step.hash, hash)
+      : await hashNode(hash, step.hash);
+  }
+
+  return hash === root;
+}
@@ -0,0 +1,98 @@
+/**
+ * OFF-THREAD PROOF-OF-WORK
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Mining runs in a dedicated Web Worker so the confirmation screen stays
+ * responsive on slow kiosk hardware. The worker speaks a small typed
+ * message protocol: the kiosk starts or cancels a job, the worker reports
+ * progress and the final nonce.
+ *
+ * Where Web Workers are unavailable (e.g. command-line tools) mining falls
+ * back to the main thread with the same progress and cancellation API.
+ */
+
+import { mineBlock, type MiningOptions, type MiningProgress } from './crypto';
+
+export type MinerRequest =
+  | { type: 'start'; header: string; difficulty: number }
+  | { type: 'cancel' };
+
+export type MinerResponse =
+  | ({ type: 'progress' } & MiningProgress)
+  | { type: 'found'; nonce: string; hash: string; attempts: number }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+export interface MiningResult {
+  nonce: string;
+  hash: string;
+  attempts: number;
+}
+
+/**
+ * Mine a block header in a Web Worker
+ * Aborting `signal` cancels the job and terminates the worker.
+ */
+export function mineInWorker(
+  header: string,
+  difficulty: number,
+  options: MiningOptions = {}
+): Promise<MiningResult> {
+  if (typeof Worker === 'undefined') {
+    return mineBlock(header, difficulty, options);
+  }
+
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Mining cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(
+      new URL('../workers/miner.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      worker.postMessage({ type: 'cancel' } satisfies MinerRequest);
+      finish();
+      reject(new DOMException('Mining cancelled', 'AbortError'));
+    };
+
+    worker.onmessage = (event: MessageEvent<MinerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.({ attempts: message.attempts, hashRate: message.hashRate });
+          break;
+        case 'found':
+          finish();
+          resolve({ nonce: message.nonce, hash: message.hash, attempts: message.attempts });
+          break;
+        case 'cancelled':
+          finish();
+          reject(new DOMException('Mining cancelled', 'AbortError'));
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Mining worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage({ type: 'start', header, difficulty } satisfies MinerRequest);
+  });
+}
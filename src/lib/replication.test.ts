@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createInProcessHub,
+  createLedgerNode,
+  verifyLedgerMessage,
+  MAX_MESSAGE_AGE_MS,
+  type ChainChange,
+  type InProcessHub,
+  type InProcessTransport,
+  type LedgerMessage,
+  type LedgerNode,
+  type LedgerNodeOptions,
+  type LedgerPeer
+} from './replication';
+import { addVote, createBlockchain, type BlockchainState } from './blockchain';
+import { encryptVoteRSA, generateSigningKeyPair, signData } from './crypto';
+import { provisionDevice, registerDevice, type DeviceSigner } from './devices';
+import { createTestElection, voterHash, type TestElection } from '@/test/election-fixture';
+
+interface NodeKey {
+  peer: LedgerPeer;
+  privateKey: CryptoKey;
+}
+
+async function nodeKey(id: string): Promise<NodeKey> {
+  const { publicKey, privateKey } = await generateSigningKeyPair();
+  return { peer: { id, publicKey }, privateKey };
+}
+
+// Same canonical content as encodeMessage in replication.ts
+function encodeAnnounce(message: Extract<LedgerMessage, { type: 'announce' }>, sentAt: number): string {
+  return JSON.stringify(['SVS-LEDGER-MSG', message.type, message.from, sentAt, message.tipIndex, message.tipHash]);
+}
+
+async function settle(hub: InProcessHub, nodes: LedgerNode[]): Promise<void> {
+  for (let round = 0; round < 5; round++) {
+    await hub.flush();
+    await Promise.all(nodes.map(node => node.idle()));
+  }
+  await hub.flush();
+}
+
+describe('ledger replication between nodes', { timeout: 30_000 }, () => {
+  const nodes: LedgerNode[] = [];
+
+  afterEach(() => {
+    nodes.splice(0).forEach(node => node.close());
+  });
+
+  async function network(
+    election: TestElection,
+    keys: NodeKey[],
+    nodeOptions: (key: NodeKey) => Partial<LedgerNodeOptions> = () => ({})
+  ) {
+    const hub = createInProcessHub();
+    const genesis: BlockchainState = await createBlockchain(election.config);
+    const peers = keys.map(k => k.peer);
+    for (const key of keys) {
+      nodes.push(createLedgerNode({
+        nodeId: key.peer.id,
+        privateKey: key.privateKey,
+        transport: hub.connect(),
+        state: genesis,
+        validation: { devices: election.devices, definitionHash: election.definitionHash },
+        peers,
+        ...nodeOptions(key)
+      }));
+    }
+    await settle(hub, nodes);
+    return hub;
+  }
+
+  it('replicates blocks published by one node to every registered peer', async () => {
+    const election = await createTestElection('rsa-oaep');
+    const kiosk = { peer: { id: 'KIOSK-01', publicKey: election.devices[0].publicKey }, privateKey: election.device.privateKey };
+    const hub = await network(election, [kiosk, await nodeKey('COMMISSION'), await nodeKey('OBSERVER')]);
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'alice');
+
+    for (const block of election.state.chain.slice(1)) {
+      await nodes[0].publishBlock(block);
+    }
+    await settle(hub, nodes);
+
+    for (const node of nodes) {
+      expect(node.getState().chain.map(block => block.hash)).toEqual(election.state.chain.map(block => block.hash));
+    }
+  });
+
+  it('ignores a node that signs as a registered peer with its own key', async () => {
+    const election = await createTestElection('rsa-oaep');
+    const commission = await nodeKey('COMMISSION');
+    const onRejected = vi.fn();
+    const hub = await network(election, [commission, await nodeKey('OBSERVER')], key => (
+      key.peer.id === 'OBSERVER' ? { onRejected } : {}
+    ));
+    await election.recordPhase('open');
+
+    // Claims to be the commission, but holds a key the network never registered
+    const impostor = await nodeKey('COMMISSION');
+    const rogue = createLedgerNode({
+      nodeId: 'COMMISSION',
+      privateKey: impostor.privateKey,
+      transport: hub.connect(),
+      state: await createBlockchain(election.config),
+      validation: { devices: election.devices, definitionHash: election.definitionHash },
+      peers: [commission.peer]
+    });
+    nodes.push(rogue);
+    // A valid block, so only the message signature keeps it out
+    await rogue.publishBlock(election.state.chain[1]);
+    await settle(hub, nodes);
+
+    expect(nodes[1].getState().chain).toHaveLength(1);
+    expect(onRejected).toHaveBeenCalledWith({ from: 'COMMISSION', reason: 'Invalid signature on message from COMMISSION' });
+  });
+
+  it('re-appends a kiosk\'s votes from a losing fork onto the winning chain', async () => {
+    const election = await createTestElection('rsa-oaep');
+    await election.recordPhase('open');
+    const second = await provisionDevice('KIOSK-02', ['north', 'south']);
+    const devices = registerDevice(election.devices, second.registration);
+    const kiosks: { key: NodeKey; device: DeviceSigner }[] = [
+      { key: { peer: { id: 'KIOSK-01', publicKey: devices[0].publicKey }, privateKey: election.device.privateKey }, device: election.device },
+      { key: { peer: { id: 'KIOSK-02', publicKey: devices[1].publicKey }, privateKey: second.identity.privateKey }, device: second.identity }
+    ];
+
+    const hub = createInProcessHub();
+    const transports: InProcessTransport[] = [];
+    const changes: ChainChange[] = [];
+    for (const { key, device } of kiosks) {
+      const transport = hub.connect();
+      transports.push(transport);
+      nodes.push(createLedgerNode({
+        nodeId: key.peer.id,
+        privateKey: key.privateKey,
+        transport,
+        state: election.state,
+        validation: { devices, definitionHash: election.definitionHash },
+        peers: kiosks.map(k => k.key.peer),
+        device,
+        sealer: election.sealer,
+        onChainChanged: change => key.peer.id === 'KIOSK-01' && changes.push(change)
+      }));
+    }
+    await settle(hub, nodes);
+
+    const vote = async (node: LedgerNode, device: DeviceSigner, voter: number, candidateId: string) => {
+      const payload = { candidateId, constituencyId: 'north' };
+      const { encryptedVote } = await encryptVoteRSA(payload, election.electionKey.publicKey);
+      const { block } = await addVote(node.getState(), encryptedVote, voterHash(voter), { sealer: election.sealer, device });
+      await node.publishBlock(block);
+      return block;
+    };
+
+    // Partitioned: KIOSK-01 records one vote, KIOSK-02 a longer fork of two
+    transports[0].setOnline(false);
+    const orphan = await vote(nodes[0], kiosks[0].device, 1, 'alice');
+    await vote(nodes[1], kiosks[1].device, 2, 'bob');
+    await vote(nodes[1], kiosks[1].device, 3, 'carol');
+    await settle(hub, nodes);
+
+    transports[0].setOnline(true);
+    nodes[0].sync();
+    nodes[1].sync();
+    await settle(hub, nodes);
+
+    const reorganization = changes.find(change => change.reorganized)!;
+    expect(reorganization.orphanedBlocks.map(block => block.hash)).toEqual([orphan.hash]);
+    expect(reorganization.resubmittedBlocks).toHaveLength(1);
+
+    const chains = nodes.map(node => node.getState().chain);
+    expect(chains[0].map(block => block.hash)).toEqual(chains[1].map(block => block.hash));
+    expect(chains[0]).toHaveLength(5);
+    expect(chains[0][4]).toMatchObject({ voterHash: voterHash(1), encryptedVote: orphan.encryptedVote, deviceId: 'KIOSK-01' });
+  });
+});
+
+describe('verifyLedgerMessage', () => {
+  it('accepts a fresh message signed by the registered key only', async () => {
+    const node = await nodeKey('COMMISSION');
+    const message: LedgerMessage = { type: 'announce', from: 'COMMISSION', tipIndex: 0, tipHash: 'ab' };
+    const sentAt = Date.now();
+    const signed = { message, sentAt, signature: await signData(encodeAnnounce(message, sentAt), node.privateKey) };
+
+    expect(await verifyLedgerMessage(signed, [node.peer])).toBeNull();
+    expect(await verifyLedgerMessage(signed, [])).toBe('Unregistered peer COMMISSION');
+    expect(await verifyLedgerMessage({ ...signed, message: { ...message, tipIndex: 1 } }, [node.peer]))
+      .toBe('Invalid signature on message from COMMISSION');
+    expect(await verifyLedgerMessage(signed, [node.peer], sentAt + MAX_MESSAGE_AGE_MS + 1))
+      .toBe('Stale message from COMMISSION');
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * PERMISSIONED LEDGER REPLICATION
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Kiosks and validator nodes (commission, parties, observers) each hold a
+ * full copy of the chain and exchange blocks over a pluggable transport.
+ * A node only accepts blocks that validate against its own rules, so a
+ * faulty or malicious peer can delay replication but cannot inject an
+ * invalid block.
+ *
+ * When two kiosks extend the same tip concurrently the network forks.
+ * Forks are resolved by a deterministic fork-choice rule that every node
+ * evaluates identically: the longest valid chain wins, and equal lengths
+ * are broken by the lexicographically lowest tip hash. A kiosk whose own
+ * vote blocks lose the fork choice signs them again and appends them to
+ * the winning chain, so an accepted ballot is never silently dropped.
+ *
+ * Every message is signed with the sending node's ECDSA P-256 key (a
+ * kiosk's device key, or a validator node's key) and carries its send
+ * time. Receivers verify the signature against the registered key of the
+ * node the message claims to come from, so a peer cannot speak for
+ * another node.
+ *
+ * Security Properties:
+ * - Validation before acceptance: every received block is fully checked
+ * - Permissioned: only messages signed by a registered peer key are accepted
+ * - Freshness: messages older than MAX_MESSAGE_AGE_MS are dropped
+ * - Deterministic convergence: all honest nodes pick the same fork
+ * - Orphan recovery: a kiosk's votes on an abandoned fork are re-appended,
+ *   unless the same voter has a later vote on the winning chain
+ */
+
+import { signData, verifySignature } from './crypto';
+import {
+  addVote,
+  isVoteBlock,
+  restoreBlockchain,
+  validateChain,
+  MAX_CLOCK_DRIFT_MS,
+  type Block,
+  type BlockchainState,
+  type BlockSealer,
+  type ChainValidationOptions
+} from './blockchain';
+import type { DeviceSigner } from './devices';
+
+const MESSAGE_DOMAIN = 'SVS-LEDGER-MSG';
+export const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Wire protocol
+ * `announce` advertises a node's tip, `block` gossips a newly accepted
+ * block, `request-chain`/`chain` transfer a full chain to one peer.
+ */
+export type LedgerMessage =
+  | { type: 'announce'; from: string; tipIndex: number; tipHash: string }
+  | { type: 'block'; from: string; block: Block }
+  | { type: 'request-chain'; from: string; to: string }
+  | { type: 'chain'; from: string; to: string; chain: Block[] };
+
+/**
+ * A message as it travels: signed by `message.from` over encodeMessage
+ */
+export interface SignedLedgerMessage {
+  message: LedgerMessage;
+  sentAt: number;
+  signature: string; // ECDSA signature by the sending node's key
+}
+
+/**
+ * Registered key of a node that may take part in replication
+ */
+export interface LedgerPeer {
+  id: string;
+  publicKey: string; // ECDSA P-256 SPKI, hex
+}
+
+/**
+ * Broadcast transport between ledger nodes
+ * Messages are delivered to every other connected node; addressed messages
+ * are filtered by the receiver.
+ */
+export interface LedgerTransport {
+  send(message: SignedLedgerMessage): void;
+  subscribe(handler: (message: SignedLedgerMessage) => void): () => void;
+  close(): void;
+}
+
+export interface ForkEvent {
+  peerId: string;
+  forkIndex: number;    // First index where the chains differ
+  localTip: Block;
+  remoteTip: Block;
+  adopted: boolean;     // Whether the remote fork won the fork choice
+}
+
+export interface ChainChange {
+  state: BlockchainState;
+  reorganized: boolean;
+  orphanedBlocks: Block[];    // Local blocks dropped by a reorganization
+  resubmittedBlocks: Block[]; // Orphaned votes of this kiosk, re-signed on the new tip (new hashes)
+}
+
+/**
+ * A message, block or chain a node refused
+ */
+export interface LedgerRejection {
+  from: string;   // Claimed sending node
+  reason: string;
+}
+
+export interface LedgerNodeOptions {
+  nodeId: string;
+  privateKey: CryptoKey;    // This node's registered signing key
+  transport: LedgerTransport;
+  state: BlockchainState;
+  validation: ChainValidationOptions;
+  peers: LedgerPeer[];      // Messages are only accepted from these keys
+  device?: DeviceSigner;    // Kiosk nodes: re-signs this kiosk's orphaned votes
+  sealer?: BlockSealer;     // Proof-of-Authority kiosk nodes: seals them
+  onChainChanged?: (change: ChainChange) => void;
+  onFork?: (fork: ForkEvent) => void;
+  onRejected?: (rejection: LedgerRejection) => void;
+  onError?: (error: Error) => void; // Send failures, orphaned votes that could not be re-appended
+}
+
+export interface LedgerNode {
+  nodeId: string;
+  getState(): BlockchainState;
+  publishBlock(block: Block): Promise<BlockchainState>;
+  sync(): void;
+  idle(): Promise<void>;
+  close(): void;
+}
+
+/**
+ * Canonical signed content of a message
+ * Block hashes are sufficient: every received block is re-validated,
+ * which recomputes its hash from its fields.
+ */
+function encodeMessage(message: LedgerMessage, sentAt: number): string {
+  const header = [MESSAGE_DOMAIN, message.type, message.from, sentAt];
+  switch (message.type) {
+    case 'announce':
+      return JSON.stringify([...header, message.tipIndex, message.tipHash]);
+    case 'block':
+      return JSON.stringify([...header, message.block.hash]);
+    case 'request-chain':
+      return JSON.stringify([...header, message.to]);
+    case 'chain':
+      return JSON.stringify([...header, message.to, message.chain.map(block => block.hash)]);
+  }
+}
+
+/**
+ * Check a received message: returns null when it is authentic and fresh,
+ * otherwise the reason to drop it
+ */
+export async function verifyLedgerMessage(
+  signed: SignedLedgerMessage,
+  peers: LedgerPeer[],
+  now: number = Date.now()
+): Promise<string | null> {
+  const { message, sentAt, signature } = signed;
+  const peer = peers.find(p => p.id === message.from);
+  if (!peer) {
+    return `Unregistered peer ${message.from}`;
+  }
+  if (sentAt < now - MAX_MESSAGE_AGE_MS || sentAt > now + MAX_CLOCK_DRIFT_MS) {
+    return `Stale message from ${message.from}`;
+  }
+  if (!await verifySignature(encodeMessage(message, sentAt), signature, peer.publicKey)) {
+    return `Invalid signature on message from ${message.from}`;
+  }
+  return null;
+}
+
+/**
+ * Deterministic fork choice
+ * Returns true if `candidate` should replace `current`.
+ */
+export function preferChain(current: Block[], candidate: Block[]): boolean {
+  if (candidate.length !== current.length) {
+    return candidate.length > current.length;
+  }
+  return candidate[candidate.length - 1].hash < current[current.length - 1].hash;
+}
+
+/**
+ * Index of the first block where two chains differ
+ */
+export function findForkIndex(a: Block[], b: Block[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i].hash !== b[i].hash) return i;
+  }
+  return length;
+}
+
+/**
+ * Create a replicating ledger node
+ *
+ * Incoming messages are processed one at a time so validation and chain
+ * updates never interleave. The node announces its tip on creation; peers
+ * that are behind or on another fork request the full chain.
+ */
+export function createLedgerNode(options: LedgerNodeOptions): LedgerNode {
+  const { nodeId, privateKey, transport, validation, peers, device, sealer } = options;
+  const { onChainChanged, onFork, onRejected, onError } = options;
+  let state = options.state;
+  let queue: Promise<void> = Promise.resolve();
+  let outbox: Promise<void> = Promise.resolve();
+
+  const validationOptions = (): ChainValidationOptions => ({
+    ...validation,
+    consensus: validation.consensus ?? state.consensus
+  });
+
+  const tip = () => state.chain[state.chain.length - 1];
+
+  // Sign in order, so peers receive messages in the order they were sent
+  const send = (message: LedgerMessage) => {
+    outbox = outbox
+      .then(async () => {
+        const sentAt = Date.now();
+        const signature = await signData(encodeMessage(message, sentAt), privateKey);
+        transport.send({ message, sentAt, signature });
+      })
+      .catch((error) => onError?.(error instanceof Error ? error : new Error(String(error))));
+  };
+
+  const announce = () => {
+    send({ type: 'announce', from: nodeId, tipIndex: tip().index, tipHash: tip().hash });
+  };
+
+  const setChain = (chain: Block[], orphanedBlocks: Block[], resubmittedBlocks: Block[] = []) => {
+    state = restoreBlockchain(chain, true);
+    onChainChanged?.({ state, reorganized: orphanedBlocks.length > 0, orphanedBlocks, resubmittedBlocks });
+  };
+
+  // Sign this kiosk's orphaned votes again on top of the winning chain
+  const reappendOrphans = async (
+    chain: Block[],
+    orphanedBlocks: Block[]
+  ): Promise<{ chain: Block[]; resubmitted: Block[] }> => {
+    const resubmitted: Block[] = [];
+    if (!device) return { chain, resubmitted };
+
+    for (const orphan of orphanedBlocks) {
+      if (!isVoteBlock(orphan) || orphan.deviceId !== device.deviceId) continue;
+      // Already on the winning chain, or superseded there by a later vote
+      if (chain.some(block => isVoteBlock(block) && block.voterHash === orphan.voterHash && block.timestamp >= orphan.timestamp)) {
+        continue;
+      }
+
+      try {
+        const { block } = await addVote(restoreBlockchain(chain, true), orphan.encryptedVote, orphan.voterHash, {
+          ballotProof: orphan.ballotProof,
+          device,
+          sealer
+        });
+        const candidate = [...chain, block];
+        const result = await validateChain(candidate, validationOptions(), candidate.length - 1);
+        if (!result.isValid) throw new Error(result.error ?? 'Invalid block');
+        chain = candidate;
+        resubmitted.push(block);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        onError?.(new Error(`Orphaned vote block ${orphan.index} could not be re-appended: ${reason}`));
+      }
+    }
+
+    return { chain, resubmitted };
+  };
+
+  // Accept a block that extends the current tip, after validating it
+  const extendChain = async (block: Block): Promise<string | null> => {
+    const candidate = [...state.chain, block];
+    const result = await validateChain(candidate, validationOptions(), candidate.length - 1);
+    if (!result.isValid) return result.error;
+    setChain(candidate, []);
+    return null;
+  };
+
+  const handleBlock = async (from: string, block: Block) => {
+    const current = tip();
+
+    if (block.index === current.index + 1 && block.previousHash === current.hash) {
+      const error = await extendChain(block);
+      if (error) {
+        onRejected?.({ from, reason: `Block ${block.index}: ${error}` });
+        return;
+      }
+      // Gossip onwards so nodes not directly connected to the sender receive it
+      send({ type: 'block', from: nodeId, block });
+      return;
+    }
+
+    // Already have it
+    if (state.chain[block.index]?.hash === block.hash) return;
+
+    // Competing block at or below our tip, or a gap: fetch the peer's chain
+    send({ type: 'request-chain', from: nodeId, to: from });
+  };
+
+  const handleChain = async (from: string, chain: Block[]) => {
+    if (chain.length === 0 || chain[0].hash !== state.chain[0].hash) {
+      onRejected?.({ from, reason: 'Chain has a different genesis block' });
+      return;
+    }
+
+    const forkIndex = findForkIndex(state.chain, chain);
+    // Remote chain is a prefix of ours: nothing to do
+    if (forkIndex === chain.length) return;
+
+    const isFork = forkIndex < state.chain.length;
+    const adopted = preferChain(state.chain, chain);
+
+    if (adopted) {
+      const result = await validateChain(chain, validationOptions(), forkIndex);
+      if (!result.isValid) {
+        onRejected?.({ from, reason: `Chain: ${result.error}` });
+        return;
+      }
+    }
+
+    if (isFork) {
+      onFork?.({
+        peerId: from,
+        forkIndex,
+        localTip: tip(),
+        remoteTip: chain[chain.length - 1],
+        adopted
+      });
+    }
+
+    if (adopted) {
+      const orphanedBlocks = state.chain.slice(forkIndex);
+      const reappended = await reappendOrphans(chain, orphanedBlocks);
+      setChain(reappended.chain, orphanedBlocks, reappended.resubmitted);
+      for (const block of reappended.resubmitted) {
+        send({ type: 'block', from: nodeId, block });
+      }
+      announce();
+    } else if (isFork) {
+      // Tell the losing peer about our tip so it converges too
+      announce();
+    }
+  };
+
+  const handleMessage = async (signed: SignedLedgerMessage) => {
+    const { message } = signed;
+    if (message.from === nodeId) return;
+    const rejection = await verifyLedgerMessage(signed, peers);
+    if (rejection) {
+      onRejected?.({ from: message.from, reason: rejection });
+      return;
+    }
+
+    switch (message.type) {
+      case 'announce': {
+        const current = tip();
+        const known = state.chain[message.tipIndex]?.hash === message.tipHash;
+        if (known) {
+          // Peer is behind or level with us on the same chain
+          if (message.tipIndex < current.index) announce();
+          return;
+        }
+        send({ type: 'request-chain', from: nodeId, to: message.from });
+        return;
+      }
+      case 'block':
+        await handleBlock(message.from, message.block);
+        return;
+      case 'request-chain':
+        if (message.to !== nodeId) return;
+        send({ type: 'chain', from: nodeId, to: message.from, chain: state.chain });
+        return;
+      case 'chain':
+        if (message.to !== nodeId) return;
+        await handleChain(message.from, message.chain);
+        return;
+    }
+  };
+
+  const unsubscribe = transport.subscribe((message) => {
+    queue = queue
+      .then(() => handleMessage(message))
+      .catch((error) => onError?.(error instanceof Error ? error : new Error(String(error))));
+  });
+
+  announce();
+
+  return {
+    nodeId,
+
+    getState: () => state,
+
+    /**
+     * Accept a block mined locally (see addVote) and gossip it to peers
+     * Throws if the chain moved on while the block was being mined.
+     */
+    publishBlock(block: Block) {
+      const result = queue.then(async () => {
+        const current = tip();
+        if (block.index !== current.index + 1 || block.previousHash !== current.hash) {
+          throw new Error(`Block ${block.index} does not extend the current tip`);
+        }
+        const error = await extendChain(block);
+        if (error) throw new Error(error);
+        send({ type: 'block', from: nodeId, block });
+        return state;
+      });
+      queue = result.then(() => undefined, () => undefined);
+      return result;
+    },
+
+    sync: announce,
+
+    /**
+     * Resolves once every message received so far has been processed and
+     * every reply handed to the transport
+     */
+    async idle() {
+      let pending: Promise<void>;
+      let sending: Promise<void>;
+      do {
+        pending = queue;
+        sending = outbox;
+        await pending;
+        await sending;
+      } while (pending !== queue || sending !== outbox);
+    },
+
+    close() {
+      unsubscribe();
+      transport.close();
+    }
+  };
+}
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+export interface InProcessTransport extends LedgerTransport {
+  setOnline(online: boolean): void; // Simulate a network partition
+}
+
+export interface InProcessHub {
+  connect(): InProcessTransport;
+  flush(): Promise<void>;
+}
+
+/**
+ * In-process hub connecting several nodes in one JavaScript context
+ * Delivery is asynchronous, like a real network. Messages to or from an
+ * offline transport are dropped.
+ */
+export function createInProcessHub(): InProcessHub {
+  const members = new Set<{ handlers: Set<(message: SignedLedgerMessage) => void>; online: boolean }>();
+  let inFlight = 0;
+
+  return {
+    connect() {
+      const member = { handlers: new Set<(message: SignedLedgerMessage) => void>(), online: true };
+      members.add(member);
+
+      return {
+        send(message) {
+          if (!member.online) return;
+          // Structured clone: peers must never share block objects
+          const copy = structuredClone(message);
+          for (const other of members) {
+            if (other === member || !other.online) continue;
+            inFlight++;
+            setTimeout(() => {
+              inFlight--;
+              if (other.online) other.handlers.forEach(handler => handler(copy));
+            }, 0);
+          }
+        },
+        subscribe(handler) {
+          member.handlers.add(handler);
+          return () => member.handlers.delete(handler);
+        },
+        close() {
+          members.delete(member);
+        },
+        setOnline(online) {
+          member.online = online;
+        }
+      };
+    },
+
+    /**
+     * Wait until no messages are in flight (handlers may still be validating)
+     */
+    async flush() {
+      while (inFlight > 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  };
+}
+
+/**
+ * BroadcastChannel transport between tabs or workers of the same origin
+ */
+export function createBroadcastChannelTransport(channelName = 'svs-ledger'): LedgerTransport {
+  const channel = new BroadcastChannel(channelName);
+
+  return {
+    send(message) {
+      channel.postMessage(message);
+    },
+    subscribe(handler) {
+      const listener = (event: MessageEvent<SignedLedgerMessage>) => {
+        if (isSignedLedgerMessage(event.data)) handler(event.data);
+      };
+      channel.addEventListener('message', listener);
+      return () => channel.removeEventListener('message', listener);
+    },
+    close() {
+      channel.close();
+    }
+  };
+}
+
+/**
+ * WebSocket transport via a local relay that rebroadcasts every frame
+ * Messages sent before the socket opens are queued.
+ */
+export function createWebSocketTransport(url: string): LedgerTransport {
+  const socket = new WebSocket(url);
+  const outbox: string[] = [];
+
+  socket.addEventListener('open', () => {
+    for (const frame of outbox.splice(0)) socket.send(frame);
+  });
+
+  return {
+    send(message) {
+      const frame = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(frame);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        outbox.push(frame);
+      }
+    },
+    subscribe(handler) {
+      const listener = (event: MessageEvent) => {
+        try {
+          const message = JSON.parse(String(event.data));
+          if (isSignedLedgerMessage(message)) handler(message);
+        } catch {
+          // Ignore malformed frames
+        }
+      };
+      socket.addEventListener('message', listener);
+      return () => socket.removeEventListener('message', listener);
+    },
+    close() {
+      socket.close();
+    }
+  };
+}
+
+/**
+ * Shape check for messages arriving from outside the process
+ * Signatures are checked by the node and block contents by validateChain,
+ * not here.
+ */
+function isSignedLedgerMessage(value: unknown): value is SignedLedgerMessage {
+  if (!value || typeof value !== 'object') return false;
+  const envelope = value as Record<string, unknown>;
+  if (typeof envelope.sentAt !== 'number' || typeof envelope.signature !== 'string') return false;
+  if (!envelope.message || typeof envelope.message !== 'object') return false;
+  const message = envelope.message as Record<string, unknown>;
+  if (typeof message.from !== 'string') return false;
+
+  switch (message.type) {
+    case 'announce':
+      return typeof message.tipIndex === 'number' && typeof message.tipHash === 'string';
+    case 'block':
+      return !!message.block && typeof message.block === 'object';
+    case 'request-chain':
+      return typeof message.to === 'string';
+    case 'chain':
+      return typeof message.to === 'string' && Array.isArray(message.chain);
+    default:
+      return false;
+  }
+}
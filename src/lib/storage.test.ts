@@ -0,0 +1,48 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { appendBlock, loadBlockchain } from './storage';
+import type { Block } from './blockchain';
+import { createTestElection, voterHash } from '@/test/election-fixture';
+
+// Overwrite a stored block behind the ledger's back
+function overwriteBlock(block: Block): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('svs-ledger');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const tx = request.result.transaction('blocks', 'readwrite');
+      tx.objectStore('blocks').put(block);
+      tx.oncomplete = () => {
+        request.result.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+  });
+}
+
+describe('loadBlockchain', { timeout: 30_000 }, () => {
+  it('keeps an altered tip block and reports the ledger invalid', async () => {
+    const election = await createTestElection('rsa-oaep');
+    const options = { devices: election.devices, definitionHash: election.definitionHash };
+    await loadBlockchain(election.config, options);
+    await election.recordPhase('open');
+    await election.castVote(voterHash(1), 'north', 'alice');
+    for (const block of election.state.chain.slice(1)) {
+      await appendBlock(block);
+    }
+
+    const tip = election.state.chain[2];
+    await overwriteBlock({ ...tip, encryptedVote: 'altered' });
+    const { state, recovery } = await loadBlockchain(election.config, options);
+
+    expect(recovery).toEqual({
+      recoveredBlocks: 3,
+      discardedBlocks: 0,
+      chainValid: false,
+      error: 'Hash mismatch at block 2'
+    });
+    expect(state.isValid).toBe(false);
+    expect(state.chain[2].encryptedVote).toBe('altered');
+  });
+});
@@ -0,0 +1,518 @@
+/**
+ * PERSISTENT LEDGER STORAGE (IndexedDB)
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Blocks are appended to IndexedDB one transaction per block. Each
+ * transaction writes the block and the committed tip pointer together,
+ * so after a power cut the tip always names the last fully written block.
+ * On startup the chain is reloaded and re-validated before the kiosk
+ * accepts new votes; records past the committed tip are discarded.
+ *
+ * Security Properties:
+ * - Atomic append: block and tip pointer commit together (strict durability)
+ * - Append-only: a block is rejected unless it extends the committed tip
+ * - Crash recovery: uncommitted tail records are discarded on load
+ * - Tamper evidence: invalid blocks are kept and reported, never deleted,
+ *   including a tip block that does not match the committed tip pointer
+ *
+ * The voter roll is kept in the same database, keyed by National ID hash
+ * (an HMAC under the kiosk's non-extractable index key); it holds
+ * credential hashes only, never plaintext IDs or PINs. Administrator
+ * accounts (see admin-accounts.ts) are kept alongside, with hashed
+ * passwords, as is the hash-chained admin event log (see admin-log.ts).
+ */
+
+import {
+  createBlockchain,
+  restoreBlockchain,
+  validateChain,
+  createGenesisBlock,
+  type Block,
+  type BlockchainState,
+  type ChainValidationOptions,
+  type ElectionConfig,
+  type LedgerAuthorities
+} from './blockchain';
+import type { PublishedElectionKey } from './key-ceremony';
+import type { MerklePublication } from './merkle';
+import type { AuthorisedDevice, DeviceIdentity } from './devices';
+import type { AuditSigningKey } from './audit';
+import type { ElectionDefinition } from './election-definition';
+import type { VoterRecord } from './database';
+import type { VoterRollSummary } from './voter-roll';
+import type { AdminAccount } from './admin-accounts';
+import type { AdminLogEntry } from './admin-log';
+
+const DB_NAME = 'svs-ledger';
+const DB_VERSION = 4;
+const BLOCK_STORE = 'blocks';
+const META_STORE = 'meta';
+const VOTER_STORE = 'voters'; // Added in version 2
+const ADMIN_STORE = 'admins'; // Added in version 3
+const ADMIN_LOG_STORE = 'admin-log'; // Added in version 4
+
+interface TipRecord {
+  key: 'tip';
+  index: number;
+  hash: string;
+}
+
+// Election-level records kept next to the chain
+interface MetaValues {
+  'election-key': PublishedElectionKey;
+  'ledger-authorities': LedgerAuthorities;
+  'merkle-publication': MerklePublication;
+  'device-identity': DeviceIdentity;     // CryptoKey is stored as a non-extractable key
+  'device-registry': AuthorisedDevice[];
+  'audit-signing-keys': AuditSigningKey[];
+  'election-definition': ElectionDefinition;
+  'voter-roll': VoterRollSummary;
+  'voter-index-key': CryptoKey;          // Non-extractable HMAC key for the voter index
+  'voter-pin-key': CryptoKey;            // Non-extractable HMAC key peppering PIN hashes
+  'pseudonym-key': CryptoKey;            // Non-extractable election pseudonym key
+}
+
+interface MetaRecord<K extends keyof MetaValues> {
+  key: K;
+  value: MetaValues[K];
+}
+
+export interface RecoveryReport {
+  recoveredBlocks: number;   // Blocks loaded, including genesis
+  discardedBlocks: number;   // Uncommitted records past the tip removed
+  chainValid: boolean;
+  error: string | null;      // Validation error left in the chain, if any
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openLedgerDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOCK_STORE)) {
+          db.createObjectStore(BLOCK_STORE, { keyPath: 'index' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(VOTER_STORE)) {
+          db.createObjectStore(VOTER_STORE, { keyPath: 'nationalIdHash' });
+        }
+        if (!db.objectStoreNames.contains(ADMIN_STORE)) {
+          db.createObjectStore(ADMIN_STORE, { keyPath: 'username' });
+        }
+        if (!db.objectStoreNames.contains(ADMIN_LOG_STORE)) {
+          db.createObjectStore(ADMIN_LOG_STORE, { keyPath: 'index' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Append a block atomically
+ * The block must extend the committed tip; otherwise nothing is written.
+ */
+export async function appendBlock(block: Block): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction([BLOCK_STORE, META_STORE], 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  const blocks = tx.objectStore(BLOCK_STORE);
+  const meta = tx.objectStore(META_STORE);
+
+  const tip = await requestToPromise(meta.get('tip')) as TipRecord | undefined;
+  const extendsTip = tip
+    ? block.index === tip.index + 1 && block.previousHash === tip.hash
+    : block.index === 0;
+
+  if (!extendsTip) {
+    tx.abort();
+    await done.catch(() => undefined);
+    throw new Error(`Block ${block.index} does not extend the stored chain`);
+  }
+
+  blocks.put(block);
+  meta.put({ key: 'tip', index: block.index, hash: block.hash } satisfies TipRecord);
+
+  await done;
+}
+
+/**
+ * Delete every stored block from `fromIndex` onwards and move the tip back
+ */
+async function truncateFrom(fromIndex: number, newTip: Block): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction([BLOCK_STORE, META_STORE], 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+
+  tx.objectStore(BLOCK_STORE).delete(IDBKeyRange.lowerBound(fromIndex));
+  tx.objectStore(META_STORE).put({ key: 'tip', index: newTip.index, hash: newTip.hash } satisfies TipRecord);
+
+  await done;
+}
+
+/**
+ * Replace whatever is stored with a chain containing only `genesis`
+ */
+async function resetLedger(genesis: Block): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction([BLOCK_STORE, META_STORE], 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+
+  tx.objectStore(BLOCK_STORE).clear();
+  tx.objectStore(BLOCK_STORE).put(genesis);
+  tx.objectStore(META_STORE).put({ key: 'tip', index: genesis.index, hash: genesis.hash } satisfies TipRecord);
+
+  await done;
+}
+
+/**
+ * Load the ledger for `config`, recovering from an interrupted write
+ * A fresh kiosk starts from the config's genesis block; a stored ledger
+ * minted for any other config is refused.
+ *
+ * 1. Keep the contiguous run of blocks from genesis up to the committed tip
+ * 2. Discard records after the tip or after a gap (never committed)
+ * 3. Validate; any failure is reported and the blocks kept as evidence.
+ *    Block and tip pointer commit together, so a tip block that does not
+ *    match the pointer was altered after it was written.
+ */
+export async function loadBlockchain(
+  config: ElectionConfig,
+  options: ChainValidationOptions
+): Promise<{ state: BlockchainState; recovery: RecoveryReport }> {
+  const db = await openLedgerDB();
+  const tx = db.transaction([BLOCK_STORE, META_STORE], 'readonly');
+  const [stored, tip] = await Promise.all([
+    requestToPromise(tx.objectStore(BLOCK_STORE).getAll()) as Promise<Block[]>,
+    requestToPromise(tx.objectStore(META_STORE).get('tip')) as Promise<TipRecord | undefined>
+  ]);
+
+  // Fresh kiosk: start from genesis
+  if (stored.length === 0) {
+    const state = await createBlockchain(config);
+    await resetLedger(state.chain[0]);
+    return {
+      state,
+      recovery: { recoveredBlocks: 1, discardedBlocks: 0, chainValid: true, error: null }
+    };
+  }
+
+  if (stored[0].index !== 0) {
+    throw new Error('Stored ledger has no genesis block');
+  }
+
+  if (stored[0].hash !== (await createGenesisBlock(config)).hash) {
+    throw new Error('Stored ledger was created for a different election configuration');
+  }
+
+  // getAll returns records in key (index) order
+  const tipIndex = tip?.index ?? Infinity;
+  const chain: Block[] = [];
+  for (const block of stored) {
+    if (block.index !== chain.length || block.index > tipIndex) break;
+    chain.push(block);
+  }
+
+  const discardedBlocks = stored.length - chain.length;
+  let validation = await validateChain(chain, options);
+
+  const last = chain[chain.length - 1];
+  if (validation.isValid && tip && last.index === tip.index && last.hash !== tip.hash) {
+    validation = {
+      isValid: false,
+      invalidBlockIndex: last.index,
+      error: `Block ${last.index} does not match the committed tip`
+    };
+  }
+
+  if (discardedBlocks > 0) {
+    await truncateFrom(chain.length, chain[chain.length - 1]);
+  }
+
+  const state = restoreBlockchain(chain, validation.isValid);
+
+  return {
+    state,
+    recovery: {
+      recoveredBlocks: chain.length,
+      discardedBlocks,
+      chainValid: validation.isValid,
+      error: validation.error
+    }
+  };
+}
+
+async function saveMeta<K extends keyof MetaValues>(key: K, value: MetaValues[K]): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(META_STORE, 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  tx.objectStore(META_STORE).put({ key, value } satisfies MetaRecord<K>);
+  await done;
+}
+
+async function loadMeta<K extends keyof MetaValues>(key: K): Promise<MetaValues[K] | null> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const record = await requestToPromise(tx.objectStore(META_STORE).get(key)) as MetaRecord<K> | undefined;
+  return record?.value ?? null;
+}
+
+/**
+ * Persist the published election key so a restarted kiosk can keep voting
+ */
+export function saveElectionKey(electionKey: PublishedElectionKey): Promise<void> {
+  return saveMeta('election-key', electionKey);
+}
+
+export function loadElectionKey(): Promise<PublishedElectionKey | null> {
+  return loadMeta('election-key');
+}
+
+/**
+ * Persist the consensus, validators and administrators fixed at the key
+ * ceremony; the genesis block is re-minted from them on every load
+ */
+export function saveLedgerAuthorities(authorities: LedgerAuthorities): Promise<void> {
+  return saveMeta('ledger-authorities', authorities);
+}
+
+export function loadLedgerAuthorities(): Promise<LedgerAuthorities | null> {
+  return loadMeta('ledger-authorities');
+}
+
+/**
+ * Persist the election definition installed at kiosk setup
+ */
+export function saveElectionDefinition(definition: ElectionDefinition): Promise<void> {
+  return saveMeta('election-definition', definition);
+}
+
+export function loadElectionDefinition(): Promise<ElectionDefinition | null> {
+  return loadMeta('election-definition');
+}
+
+/**
+ * Persist the counted-ballot Merkle root published at election close
+ */
+export function saveMerklePublication(publication: MerklePublication): Promise<void> {
+  return saveMeta('merkle-publication', publication);
+}
+
+export function loadMerklePublication(): Promise<MerklePublication | null> {
+  return loadMeta('merkle-publication');
+}
+
+/**
+ * Persist this kiosk's provisioned identity
+ * The private key is a non-extractable CryptoKey; IndexedDB stores it
+ * without ever exposing the key bytes.
+ */
+export function saveDeviceIdentity(identity: DeviceIdentity): Promise<void> {
+  return saveMeta('device-identity', identity);
+}
+
+export function loadDeviceIdentity(): Promise<DeviceIdentity | null> {
+  return loadMeta('device-identity');
+}
+
+export function saveDeviceRegistry(registry: AuthorisedDevice[]): Promise<void> {
+  return saveMeta('device-registry', registry);
+}
+
+export async function loadDeviceRegistry(): Promise<AuthorisedDevice[]> {
+  return (await loadMeta('device-registry')) ?? [];
+}
+
+/**
+ * Administrators' audit signing keys (non-extractable CryptoKeys)
+ */
+export async function loadAuditSigningKey(adminId: string): Promise<AuditSigningKey | null> {
+  const keys = (await loadMeta('audit-signing-keys')) ?? [];
+  return keys.find(key => key.adminId === adminId) ?? null;
+}
+
+export async function saveAuditSigningKey(signingKey: AuditSigningKey): Promise<void> {
+  const keys = (await loadMeta('audit-signing-keys')) ?? [];
+  await saveMeta('audit-signing-keys', [
+    ...keys.filter(key => key.adminId !== signingKey.adminId),
+    signingKey
+  ]);
+}
+
+/**
+ * Replace the voter roll in one transaction, so a failed or interrupted
+ * import leaves the previous roll in place
+ */
+export async function replaceVoterRoll(voters: VoterRecord[], summary: VoterRollSummary): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction([VOTER_STORE, META_STORE], 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  const store = tx.objectStore(VOTER_STORE);
+
+  store.clear();
+  for (const voter of voters) {
+    store.put(voter);
+  }
+  tx.objectStore(META_STORE).put({ key: 'voter-roll', value: summary } satisfies MetaRecord<'voter-roll'>);
+
+  await done;
+}
+
+export async function loadVoter(nationalIdHash: string): Promise<VoterRecord | null> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(VOTER_STORE, 'readonly');
+  const voter = await requestToPromise(tx.objectStore(VOTER_STORE).get(nationalIdHash)) as VoterRecord | undefined;
+  if (!voter) return null;
+  // Version 1 records were written without a format version or salt
+  return { version: 1, pinSalt: null, pinIterations: null, ...voter };
+}
+
+/**
+ * Persist a voter's lockout and participation state
+ */
+export async function saveVoter(voter: VoterRecord): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(VOTER_STORE, 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  tx.objectStore(VOTER_STORE).put(voter);
+  await done;
+}
+
+/**
+ * Swap a voter's record for one under a new index key in one transaction
+ * (used when a record is re-hashed to the current format)
+ */
+export async function replaceVoter(previousIdHash: string, voter: VoterRecord): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(VOTER_STORE, 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  const store = tx.objectStore(VOTER_STORE);
+  store.delete(previousIdHash);
+  store.put(voter);
+  await done;
+}
+
+export function loadVoterRollSummary(): Promise<VoterRollSummary | null> {
+  return loadMeta('voter-roll');
+}
+
+export function saveVoterIndexKey(key: CryptoKey): Promise<void> {
+  return saveMeta('voter-index-key', key);
+}
+
+export function loadVoterIndexKey(): Promise<CryptoKey | null> {
+  return loadMeta('voter-index-key');
+}
+
+export function saveVoterPinKey(key: CryptoKey): Promise<void> {
+  return saveMeta('voter-pin-key', key);
+}
+
+export function loadVoterPinKey(): Promise<CryptoKey | null> {
+  return loadMeta('voter-pin-key');
+}
+
+export function savePseudonymKey(key: CryptoKey): Promise<void> {
+  return saveMeta('pseudonym-key', key);
+}
+
+export function loadPseudonymKey(): Promise<CryptoKey | null> {
+  return loadMeta('pseudonym-key');
+}
+
+export async function loadAdminAccount(username: string): Promise<AdminAccount | null> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_STORE, 'readonly');
+  const account = await requestToPromise(tx.objectStore(ADMIN_STORE).get(username)) as AdminAccount | undefined;
+  return account ?? null;
+}
+
+export async function loadAdminAccounts(): Promise<AdminAccount[]> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_STORE, 'readonly');
+  return await requestToPromise(tx.objectStore(ADMIN_STORE).getAll()) as AdminAccount[];
+}
+
+/**
+ * Persist an account, including its lockout state
+ */
+export async function saveAdminAccount(account: AdminAccount): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_STORE, 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  tx.objectStore(ADMIN_STORE).put(account);
+  await done;
+}
+
+export async function deleteAdminAccount(username: string): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_STORE, 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  tx.objectStore(ADMIN_STORE).delete(username);
+  await done;
+}
+
+/**
+ * Append an admin log entry atomically
+ * The entry must extend the stored tip; otherwise nothing is written.
+ */
+export async function appendAdminLogEntry(entry: AdminLogEntry): Promise<void> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_LOG_STORE, 'readwrite', { durability: 'strict' });
+  const done = transactionDone(tx);
+  const store = tx.objectStore(ADMIN_LOG_STORE);
+
+  const cursor = await requestToPromise(store.openCursor(null, 'prev'));
+  const tip = cursor?.value as AdminLogEntry | undefined;
+  const extendsTip = tip
+    ? entry.index === tip.index + 1 && entry.previousHash === tip.hash
+    : entry.index === 0;
+
+  if (!extendsTip) {
+    tx.abort();
+    await done.catch(() => undefined);
+    throw new Error(`Admin log entry ${entry.index} does not extend the stored log`);
+  }
+
+  store.add(entry);
+  await done;
+}
+
+export async function loadAdminLogTip(): Promise<AdminLogEntry | null> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_LOG_STORE, 'readonly');
+  const cursor = await requestToPromise(tx.objectStore(ADMIN_LOG_STORE).openCursor(null, 'prev'));
+  return (cursor?.value as AdminLogEntry | undefined) ?? null;
+}
+
+export async function loadAdminLog(): Promise<AdminLogEntry[]> {
+  const db = await openLedgerDB();
+  const tx = db.transaction(ADMIN_LOG_STORE, 'readonly');
+  // getAll returns records in key (index) order
+  return await requestToPromise(tx.objectStore(ADMIN_LOG_STORE).getAll()) as AdminLogEntry[];
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  completeHomomorphicTally,
+  createTrusteeDecryption,
+  prepareHomomorphicTally,
+  runQuorumTally
+} from './tally';
+import { addVote } from './blockchain';
+import { encryptVoteElGamal, encryptVoteRSA } from './crypto';
+import { createTestElection, voterHash, type TestElection } from '@/test/election-fixture';
+
+async function votedElection(scheme: 'elgamal' | 'rsa-oaep' = 'elgamal'): Promise<TestElection> {
+  const election = await createTestElection(scheme);
+  await election.recordPhase('open');
+  await election.castVote(voterHash(1), 'north', 'alice');
+  await election.castVote(voterHash(2), 'north', 'bob');
+  await election.castVote(voterHash(3), 'north', 'alice');
+  await election.castVote(voterHash(2), 'north', 'carol'); // Re-vote: only the last counts
+  await election.castVote(voterHash(4), 'south', 'erin');
+  await election.recordPhase('closed');
+  return election;
+}
+
+function tallyContext(election: TestElection) {
+  return {
+    constituencies: election.constituencies,
+    devices: election.devices,
+    definitionHash: election.definitionHash
+  };
+}
+
+function votesFor(result: Awaited<ReturnType<typeof runQuorumTally>>, constituencyId: string) {
+  const constituency = result.constituencies.find(c => c.constituencyId === constituencyId);
+  return Object.fromEntries(constituency?.candidates.map(c => [c.candidateId, c.votes]) ?? []);
+}
+
+// Decrypt with the given key holders (shard indexes), one partial each
+async function homomorphicTally(
+  election: TestElection,
+  trustees: number[],
+  context = tallyContext(election),
+  state = election.state
+) {
+  const tally = await prepareHomomorphicTally(state, election.electionKey, context);
+  const partials = [];
+  for (const i of trustees) {
+    partials.push(await createTrusteeDecryption(tally, election.electionKey, election.ceremony.shards[i]));
+  }
+  return completeHomomorphicTally(tally, election.electionKey, partials, context);
+}
+
+// ElGamal proofs in a 2048-bit group take a few seconds per chain
+describe('homomorphic tally by threshold decryption', { timeout: 30_000 }, () => {
+  let election: TestElection;
+
+  beforeAll(async () => {
+    election = await votedElection('elgamal');
+  }, 60_000);
+
+  it('counts the last homomorphic ballot of each voter', async () => {
+    const result = await homomorphicTally(election, [0, 2]);
+
+    expect(result.countedBallots).toBe(4);
+    expect(result.rejectedBallots).toBe(0);
+    expect(result.participants).toEqual([1, 3]);
+    expect(votesFor(result, 'north')).toEqual({ alice: 2, bob: 0, carol: 1 });
+    expect(votesFor(result, 'south')).toEqual({ dave: 0, erin: 1 });
+  });
+
+  it('refuses without a quorum of partial decryptions', async () => {
+
+    await expect(homomorphicTally(election, [1])).rejects.toThrow('Quorum not met: 1 of 2 required partial decryptions provided');
+  });
+
+  it('never reconstructs the key from pasted shards', async () => {
+
+    await expect(runQuorumTally(election.state, election.electionKey, election.ceremony.shards, tallyContext(election)))
+      .rejects.toThrow('the key is never reconstructed');
+  });
+
+  it('rejects a shard that does not match its committed verification key', async () => {
+    const tally = await prepareHomomorphicTally(election.state, election.electionKey, tallyContext(election));
+    const shard = election.ceremony.shards[0];
+    const altered = shard.slice(0, -1) + (shard.endsWith('0') ? '1' : '0');
+
+    await expect(createTrusteeDecryption(tally, election.electionKey, altered))
+      .rejects.toThrow('Shard does not match the verification key of key holder 1');
+  });
+
+  it('rejects a partial decryption presented as another key holder\'s', async () => {
+    const tally = await prepareHomomorphicTally(election.state, election.electionKey, tallyContext(election));
+    const first = await createTrusteeDecryption(tally, election.electionKey, election.ceremony.shards[0]);
+
+    await expect(completeHomomorphicTally(tally, election.electionKey, [first, { ...first, trustee: 2 }], tallyContext(election)))
+      .rejects.toThrow('Invalid decryption proof from key holder 2');
+  });
+
+  it('refuses a chain holding a ballot without a validity proof', async () => {
+    // Signed and sealed by the authorised kiosk and validator, but unproven
+    const north = election.constituencies[0].candidates.map(c => c.id);
+    const { encryptedVote } = encryptVoteElGamal('north', north, 'alice', election.electionKey.publicKey);
+    const reopened = { ...election.state, chain: election.state.chain.slice(0, -1) };
+    const { state } = await addVote(reopened, encryptedVote, voterHash(5), {
+      sealer: election.sealer,
+      device: election.device
+    });
+
+    await expect(prepareHomomorphicTally(state, election.electionKey, tallyContext(election)))
+      .rejects.toThrow('Ledger failed validation, tally refused: Missing ballot validity proof at block 7');
+  });
+
+  it('refuses a ledger that was flagged invalid when loaded', async () => {
+
+    await expect(prepareHomomorphicTally({ ...election.state, isValid: false }, election.electionKey, tallyContext(election)))
+      .rejects.toThrow('failed validation when it was loaded');
+  });
+
+  it('refuses ballot definitions other than those the chain was recorded under', async () => {
+    const constituencies = election.constituencies.map(c => ({ ...c, candidates: c.candidates.slice(0, 2) }));
+
+    await expect(prepareHomomorphicTally(election.state, election.electionKey, {
+      ...tallyContext(election),
+      constituencies
+    })).rejects.toThrow('Ballot layout does not match the constituency ballot');
+  });
+
+  it('voids the blocks of a revoked device', async () => {
+    const devices = election.devices.map(d => ({ ...d, revokedAt: Date.now() + 60_000, revocationReason: 'Stolen' }));
+
+    const result = await homomorphicTally(election, [0, 1], { ...tallyContext(election), devices });
+
+    expect(result.countedBallots).toBe(0);
+    expect(result.voidedBlocks).toBe(5);
+  });
+});
+
+describe('quorum tally of per-ballot encryption', { timeout: 30_000 }, () => {
+  it('counts official candidates only, with their official names', async () => {
+    const election = await votedElection('rsa-oaep');
+    const { electionKey, sealer, device } = election;
+    const offBallot = [
+      { candidateId: 'mallory', candidateName: 'Mallory', party: 'Red Party', constituencyId: 'north' },
+      { candidateId: 'alice', candidateName: 'Alice', party: 'Blue Party', constituencyId: 'north' },
+      { candidateId: 'dave', candidateName: 'Dave', party: 'Red Party', constituencyId: 'north' }
+    ];
+
+    let state = { ...election.state, chain: election.state.chain.slice(0, -1) };
+    for (const [i, payload] of offBallot.entries()) {
+      const { encryptedVote } = await encryptVoteRSA(payload, electionKey.publicKey);
+      state = (await addVote(state, encryptedVote, voterHash(10 + i), { sealer, device })).state;
+    }
+
+    const result = await runQuorumTally(state, electionKey, election.ceremony.shards, tallyContext(election));
+
+    expect(result.countedBallots).toBe(4);
+    expect(result.rejectedBallots).toBe(3);
+    expect(votesFor(result, 'north')).toEqual({ alice: 2, carol: 1 });
+    expect(result.constituencies.find(c => c.constituencyId === 'north')?.candidates[0])
+      .toMatchObject({ candidateName: 'Alice', party: 'Red Party' });
+  });
+});
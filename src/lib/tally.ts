@@ -0,0 +1,492 @@
+/**
+ * QUORUM DECRYPTION AND FINAL TALLY
+ *
+ * TECHNICAL AFFIDAVIT:
+ * - rsa-oaep elections: the election private key is reconstructed from at
+ *   least k trustee shards, checked against the fingerprint published at
+ *   the key ceremony, and wiped immediately after use. The last ballot of
+ *   each voter is decrypted and checked against the official ballot layout.
+ * - elgamal elections: ballots are multiplied per candidate first
+ *   (prepareHomomorphicTally). Each trustee then publishes a partial
+ *   decryption of those sums only (createTrusteeDecryption), and k
+ *   verified partials are combined (completeHomomorphicTally). The key is
+ *   never reconstructed and no individual ballot is opened.
+ *
+ * Security Properties:
+ * - Refuses to run unless the whole chain validates against the election
+ *   key, the official ballot layouts and the device registry, so every
+ *   ElGamal ballot counted carries a verified validity proof
+ * - Refuses to run with fewer than k valid, distinct shards
+ * - Detects incorrect shards via the published key fingerprint, or for
+ *   elgamal via the verification keys committed in the genesis block
+ * - Only the most recent ballot per voter hash is counted
+ * - Ballots from revoked devices are voided before counting
+ * - Participating trustees are recorded with the result
+ */
+
+import {
+  decodeShare,
+  shamirCombine,
+  decryptVote,
+  parseElGamalBallot,
+  elgamalAdd,
+  elgamalIdentity,
+  type ElGamalCiphertext
+} from './crypto';
+import {
+  combinePartialDecryptions,
+  createPartialDecryption,
+  getShareVerificationKey,
+  verifyPartialDecryption,
+  type PartialDecryption
+} from './threshold-decryption';
+import { fingerprintPrivateKey, type PublishedElectionKey, type EncryptionScheme } from './key-ceremony';
+import { validateChain, getGenesisConfig, type Block, type BlockchainState, type ElectionConfig } from './blockchain';
+import type { Candidate, Constituency } from './database';
+import { getCountedBallots } from './merkle';
+import { getRevokedDeviceIds, getVoidedBlocks, type AuthorisedDevice } from './devices';
+
+export interface ShardCheck {
+  shard: string;
+  valid: boolean;
+  trustee: number | null; // Shard index (Key Holder number)
+  error: string | null;
+}
+
+export interface CandidateTally {
+  candidateId: string;
+  candidateName: string;
+  party: string;
+  votes: number;
+}
+
+export interface ConstituencyTally {
+  constituencyId: string;
+  totalVotes: number;
+  candidates: CandidateTally[]; // Sorted by votes, descending
+}
+
+export interface TallyResult {
+  scheme: EncryptionScheme;
+  constituencies: ConstituencyTally[];
+  countedBallots: number;
+  rejectedBallots: number; // Undecryptable, malformed or off-ballot ballots
+  voidedBlocks: number;    // Blocks from revoked devices, never counted
+  participants: number[]; // Trustees whose shards or partial decryptions were used
+  keyFingerprint: string;
+  talliedAt: number;
+}
+
+/**
+ * Official context the ledger is validated against before counting
+ */
+export interface TallyContext {
+  constituencies: Constituency[]; // Ballot layouts from the installed election definition
+  devices: AuthorisedDevice[];    // Device registry; blocks from revoked devices are voided
+  definitionHash: string;         // The genesis block must commit to this definition
+}
+
+interface VotePayload {
+  candidateId: string;
+  candidateName: string;
+  party: string;
+  constituencyId: string;
+}
+
+/**
+ * Check pasted shards against the published key parameters
+ * Duplicates and out-of-range trustee numbers are rejected
+ */
+export function checkShards(shards: string[], electionKey: PublishedElectionKey): ShardCheck[] {
+  const seen = new Set<number>();
+  let expectedLength: number | null = null;
+
+  return shards.map(raw => {
+    const shard = raw.trim();
+    try {
+      const { x, y } = decodeShare(shard);
+
+      if (x < 1 || x > electionKey.totalShares) {
+        return { shard, valid: false, trustee: x, error: `Unknown key holder ${x}` };
+      }
+      if (seen.has(x)) {
+        return { shard, valid: false, trustee: x, error: `Duplicate shard for key holder ${x}` };
+      }
+      if (expectedLength !== null && y.length !== expectedLength) {
+        return { shard, valid: false, trustee: x, error: 'Shard length mismatch' };
+      }
+
+      seen.add(x);
+      expectedLength = y.length;
+      return { shard, valid: true, trustee: x, error: null };
+    } catch {
+      return { shard, valid: false, trustee: null, error: 'Invalid shard format' };
+    }
+  });
+}
+
+type CandidateTotals = Map<string, Map<string, CandidateTally>>;
+
+interface HomomorphicAggregate {
+  candidateIds: string[];
+  sums: ElGamalCiphertext[];
+  ballots: number;
+}
+
+/**
+ * Per-candidate encrypted sums awaiting the trustees' partial decryptions
+ */
+export interface HomomorphicTally {
+  aggregates: ({ constituencyId: string } & HomomorphicAggregate)[];
+  rejectedBallots: number;
+  voidedBlocks: number;
+  threshold: number;          // From the genesis block
+  verificationKeys: string[]; // From the genesis block, in trustee order
+  tipHash: string;
+}
+
+/**
+ * Match a decrypted payload to a candidate on the official ballot
+ * The payload's names are only a cross-check; a payload naming an unknown
+ * constituency or candidate, or disagreeing with the official name or
+ * party, is not counted.
+ */
+function findOfficialCandidate(payload: VotePayload, constituencies: Constituency[]): Candidate | null {
+  const candidate = constituencies
+    .find(c => c.id === payload.constituencyId)
+    ?.candidates.find(c => c.id === payload.candidateId);
+
+  if (!candidate || candidate.name !== payload.candidateName || candidate.party !== payload.party) {
+    return null;
+  }
+  return candidate;
+}
+
+/**
+ * Decrypt each counted ballot and add it to the totals (rsa-oaep)
+ */
+async function tallyByDecryption(
+  ballots: Block[],
+  privateKey: Uint8Array,
+  constituencies: Constituency[],
+  totals: CandidateTotals
+): Promise<{ counted: number; rejected: number }> {
+  let counted = 0;
+  let rejected = 0;
+
+  for (const block of ballots) {
+    let payload: VotePayload;
+    try {
+      payload = await decryptVote(block.encryptedVote, privateKey) as VotePayload;
+    } catch {
+      rejected++;
+      continue;
+    }
+
+    const candidate = typeof payload === 'object' && payload !== null
+      ? findOfficialCandidate(payload, constituencies)
+      : null;
+    if (!candidate) {
+      rejected++;
+      continue;
+    }
+
+    const candidates = totals.get(payload.constituencyId) ?? new Map<string, CandidateTally>();
+    const entry = candidates.get(candidate.id) ?? {
+      candidateId: candidate.id,
+      candidateName: candidate.name,
+      party: candidate.party,
+      votes: 0
+    };
+    entry.votes++;
+    candidates.set(candidate.id, entry);
+    totals.set(payload.constituencyId, candidates);
+    counted++;
+  }
+
+  return { counted, rejected };
+}
+
+/**
+ * Multiply ElGamal ballots per constituency and candidate (elgamal)
+ * Needs no key material. Ballots for an unknown constituency or whose
+ * layout differs from the official ballot are rejected.
+ */
+function aggregateBallots(
+  ballots: Block[],
+  constituencies: Constituency[]
+): { aggregates: Map<string, HomomorphicAggregate>; rejected: number } {
+  const aggregates = new Map<string, HomomorphicAggregate>();
+  let rejected = 0;
+
+  for (const block of ballots) {
+    const ballot = parseElGamalBallot(block.encryptedVote);
+    if (!ballot) {
+      rejected++;
+      continue;
+    }
+
+    const official = constituencies.find(c => c.id === ballot.constituencyId);
+    const layout = official?.candidates.map(c => c.id);
+
+    if (!layout || layout.join('|') !== ballot.candidateIds.join('|')) {
+      rejected++;
+      continue;
+    }
+
+    const aggregate = aggregates.get(ballot.constituencyId) ?? {
+      candidateIds: layout,
+      sums: layout.map(() => elgamalIdentity()),
+      ballots: 0
+    };
+    aggregate.sums = aggregate.sums.map((sum, i) => elgamalAdd(sum, ballot.ciphertexts[i]));
+    aggregate.ballots++;
+    aggregates.set(ballot.constituencyId, aggregate);
+  }
+
+  return { aggregates, rejected };
+}
+
+/**
+ * Validate the whole chain against the official context before counting
+ * Throws with the validation error; nothing is decrypted from a chain
+ * that fails, or that already failed when it was loaded.
+ * Returns the election configuration the genesis block commits to.
+ */
+async function checkLedger(
+  state: BlockchainState,
+  electionKey: PublishedElectionKey,
+  context: TallyContext
+): Promise<ElectionConfig> {
+  if (!state.isValid) {
+    throw new Error('The ledger failed validation when it was loaded. Resolve the integrity alert before tallying.');
+  }
+
+  const genesis = getGenesisConfig(state.chain[0]);
+  if (!genesis || genesis.encryptionKey.privateKeyFingerprint !== electionKey.privateKeyFingerprint) {
+    throw new Error('The election key does not match the key committed in the genesis block');
+  }
+
+  const validation = await validateChain(state.chain, {
+    elgamalPublicKey: electionKey.scheme === 'elgamal' ? electionKey.publicKey : undefined,
+    constituencies: context.constituencies,
+    difficultyPolicy: state.difficultyPolicy,
+    consensus: state.consensus,
+    devices: context.devices,
+    definitionHash: context.definitionHash
+  });
+  if (!validation.isValid) {
+    throw new Error(`Ledger failed validation, tally refused: ${validation.error}`);
+  }
+
+  return genesis;
+}
+
+function sortTallies(totals: CandidateTotals): ConstituencyTally[] {
+  return Array.from(totals.entries())
+    .map(([constituencyId, candidates]) => {
+      const list = Array.from(candidates.values()).sort((a, b) => b.votes - a.votes);
+      return {
+        constituencyId,
+        totalVotes: list.reduce((sum, c) => sum + c.votes, 0),
+        candidates: list
+      };
+    })
+    .sort((a, b) => a.constituencyId.localeCompare(b.constituencyId));
+}
+
+/**
+ * Reconstruct the election key from a quorum of shards and tally
+ * the last vote of every voter (rsa-oaep)
+ *
+ * The chain is first validated against `context` (see checkLedger). Its
+ * constituencies supply the official ballot layouts and candidate names;
+ * blocks from devices revoked in its registry are voided.
+ */
+export async function runQuorumTally(
+  state: BlockchainState,
+  electionKey: PublishedElectionKey,
+  shards: string[],
+  context: TallyContext
+): Promise<TallyResult> {
+  if (electionKey.scheme === 'elgamal') {
+    throw new Error('Homomorphic elections are tallied from trustee partial decryptions; the key is never reconstructed');
+  }
+
+  const { constituencies } = context;
+  const validShards = checkShards(shards, electionKey).filter(check => check.valid);
+
+  if (validShards.length < electionKey.threshold) {
+    throw new Error(
+      `Quorum not met: ${validShards.length} of ${electionKey.threshold} required shards provided`
+    );
+  }
+
+  await checkLedger(state, electionKey, context);
+
+  // Only the most recent non-voided block per voter hash
+  const revokedDeviceIds = getRevokedDeviceIds(context.devices);
+  const ballots = getCountedBallots(state.chain, revokedDeviceIds);
+  const voidedBlocks = getVoidedBlocks(state.chain, revokedDeviceIds).length;
+
+  const shares = validShards.map(check => decodeShare(check.shard));
+  const privateKey = shamirCombine(shares);
+  shares.forEach(share => share.y.fill(0));
+
+  try {
+    const keyFingerprint = await fingerprintPrivateKey(privateKey);
+    if (keyFingerprint !== electionKey.privateKeyFingerprint) {
+      throw new Error('Reconstructed key does not match the published fingerprint. One or more shards are incorrect.');
+    }
+
+    const totals: CandidateTotals = new Map();
+    const { counted, rejected } = await tallyByDecryption(ballots, privateKey, constituencies, totals);
+
+    return {
+      scheme: electionKey.scheme,
+      constituencies: sortTallies(totals),
+      countedBallots: counted,
+      rejectedBallots: rejected,
+      voidedBlocks,
+      participants: validShards.map(check => check.trustee!).sort((a, b) => a - b),
+      keyFingerprint,
+      talliedAt: Date.now()
+    };
+  } finally {
+    privateKey.fill(0);
+  }
+}
+
+// Every encrypted sum, constituency by constituency
+function getSums(tally: HomomorphicTally): ElGamalCiphertext[] {
+  return tally.aggregates.flatMap(aggregate => aggregate.sums);
+}
+
+/**
+ * Validate the chain and multiply the last ballot of every voter into
+ * per-candidate sums (elgamal)
+ * Needs no key material; the result is what the trustees decrypt.
+ */
+export async function prepareHomomorphicTally(
+  state: BlockchainState,
+  electionKey: PublishedElectionKey,
+  context: TallyContext
+): Promise<HomomorphicTally> {
+  if (electionKey.scheme !== 'elgamal') {
+    throw new Error('Only homomorphic (elgamal) elections are tallied from partial decryptions');
+  }
+
+  const genesis = await checkLedger(state, electionKey, context);
+
+  // Only the most recent non-voided block per voter hash
+  const revokedDeviceIds = getRevokedDeviceIds(context.devices);
+  const ballots = getCountedBallots(state.chain, revokedDeviceIds);
+  const { aggregates, rejected } = aggregateBallots(ballots, context.constituencies);
+
+  return {
+    aggregates: Array.from(aggregates.entries())
+      .map(([constituencyId, aggregate]) => ({ constituencyId, ...aggregate }))
+      .sort((a, b) => a.constituencyId.localeCompare(b.constituencyId)),
+    rejectedBallots: rejected,
+    voidedBlocks: getVoidedBlocks(state.chain, revokedDeviceIds).length,
+    threshold: genesis.trustees.threshold,
+    verificationKeys: genesis.trustees.verificationKeys,
+    tipHash: state.chain[state.chain.length - 1].hash
+  };
+}
+
+/**
+ * One trustee's partial decryption of the aggregated sums
+ * The shard is checked against the trustee's committed verification key,
+ * used for this trustee's partial only, and wiped.
+ */
+export async function createTrusteeDecryption(
+  tally: HomomorphicTally,
+  electionKey: PublishedElectionKey,
+  shard: string
+): Promise<PartialDecryption> {
+  const [check] = checkShards([shard], electionKey);
+  if (!check.valid) {
+    throw new Error(check.error ?? 'Invalid shard');
+  }
+
+  const share = decodeShare(check.shard);
+  try {
+    if (getShareVerificationKey(share) !== tally.verificationKeys[share.x - 1]) {
+      throw new Error(`Shard does not match the verification key of key holder ${share.x}`);
+    }
+    return await createPartialDecryption(getSums(tally), share, electionKey.publicKey);
+  } finally {
+    share.y.fill(0);
+  }
+}
+
+/**
+ * Verify the trustees' partial decryptions and combine a quorum of them
+ * into the per-candidate totals (elgamal)
+ */
+export async function completeHomomorphicTally(
+  tally: HomomorphicTally,
+  electionKey: PublishedElectionKey,
+  partials: PartialDecryption[],
+  context: Pick<TallyContext, 'constituencies'>
+): Promise<TallyResult> {
+  const sums = getSums(tally);
+  const accepted: PartialDecryption[] = [];
+
+  for (const partial of partials) {
+    const verificationKey = tally.verificationKeys[partial.trustee - 1];
+    if (!verificationKey) {
+      throw new Error(`Unknown key holder ${partial.trustee}`);
+    }
+    if (accepted.some(other => other.trustee === partial.trustee)) {
+      throw new Error(`Duplicate partial decryption for key holder ${partial.trustee}`);
+    }
+    const error = await verifyPartialDecryption(sums, partial, verificationKey, electionKey.publicKey);
+    if (error) throw new Error(error);
+    accepted.push(partial);
+  }
+
+  if (accepted.length < tally.threshold) {
+    throw new Error(
+      `Quorum not met: ${accepted.length} of ${tally.threshold} required partial decryptions provided`
+    );
+  }
+
+  const quorum = accepted.slice(0, tally.threshold);
+  const maxValues = tally.aggregates.flatMap(aggregate => aggregate.sums.map(() => aggregate.ballots));
+  const votes = combinePartialDecryptions(sums, quorum, maxValues);
+
+  const totals: CandidateTotals = new Map();
+  let countedBallots = 0;
+  let offset = 0;
+  for (const aggregate of tally.aggregates) {
+    const official = context.constituencies.find(c => c.id === aggregate.constituencyId);
+    const candidates = new Map<string, CandidateTally>();
+
+    aggregate.candidateIds.forEach((candidateId, i) => {
+      const candidate = official?.candidates.find(c => c.id === candidateId);
+      candidates.set(candidateId, {
+        candidateId,
+        candidateName: candidate?.name ?? candidateId,
+        party: candidate?.party ?? '',
+        votes: votes[offset + i]
+      });
+    });
+
+    totals.set(aggregate.constituencyId, candidates);
+    countedBallots += aggregate.ballots;
+    offset += aggregate.candidateIds.length;
+  }
+
+  return {
+    scheme: electionKey.scheme,
+    constituencies: sortTallies(totals),
+    countedBallots,
+    rejectedBallots: tally.rejectedBallots,
+    voidedBlocks: tally.voidedBlocks,
+    participants: quorum.map(partial => partial.trustee).sort((a, b) => a - b),
+    keyFingerprint: electionKey.privateKeyFingerprint,
+    talliedAt: Date.now()
+  };
+}
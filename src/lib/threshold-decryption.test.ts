@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+  combinePartialDecryptions,
+  createPartialDecryption,
+  getShareVerificationKey,
+  splitElGamalKey,
+  verifyPartialDecryption
+} from './threshold-decryption';
+import { elgamalAdd, elgamalEncrypt, elgamalIdentity, generateElGamalKeyPair } from './crypto';
+
+describe('threshold ElGamal decryption', { timeout: 30_000 }, () => {
+  const keys = generateElGamalKeyPair();
+  const shares = splitElGamalKey(keys.privateKey, 4, 3);
+  const sum = [1, 1, 0, 1].map(m => elgamalEncrypt(m, keys.publicKey).ciphertext).reduce(elgamalAdd, elgamalIdentity());
+
+  it('decrypts a sum from any k partial decryptions without the key', async () => {
+    const partials = await Promise.all(shares.map(share => createPartialDecryption([sum], share, keys.publicKey)));
+
+    expect(combinePartialDecryptions([sum], [partials[0], partials[1], partials[2]], [4])).toEqual([3]);
+    expect(combinePartialDecryptions([sum], [partials[3], partials[0], partials[2]], [4])).toEqual([3]);
+    expect(() => combinePartialDecryptions([sum], [partials[0], partials[1]], [4])).toThrow('Plaintext outside expected range');
+  });
+
+  it('verifies a partial decryption only against its own share\'s verification key', async () => {
+    const partial = await createPartialDecryption([sum], shares[0], keys.publicKey);
+
+    expect(await verifyPartialDecryption([sum], partial, getShareVerificationKey(shares[0]), keys.publicKey)).toBeNull();
+    expect(await verifyPartialDecryption([sum], partial, getShareVerificationKey(shares[1]), keys.publicKey))
+      .toBe('Invalid decryption proof from key holder 1');
+    expect(await verifyPartialDecryption([sum], { ...partial, factors: [sum.c1] }, getShareVerificationKey(shares[0]), keys.publicKey))
+      .toBe('Invalid decryption proof from key holder 1');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * THRESHOLD ELGAMAL DECRYPTION
+ *
+ * TECHNICAL AFFIDAVIT:
+ * The ElGamal election key x is split with Shamir's Secret Sharing over
+ * Z_q, the exponent group, so key holder i holds a share x_i of a
+ * polynomial with constant term x. Its verification key g^(x_i) is
+ * published at the key ceremony and committed in the genesis block.
+ *
+ * At tally time each key holder publishes, for every aggregated
+ * ciphertext (c1, c2), only the partial decryption d_i = c1^(x_i) and a
+ * Chaum-Pedersen proof that it used the share behind its verification
+ * key. Any k partials are combined with Lagrange coefficients in the
+ * exponent: prod d_i^(l_i) = c1^x, so g^m = c2 / c1^x. The key x itself
+ * is never rebuilt, and partials reveal nothing about individual ballots
+ * because only the aggregates are ever partially decrypted.
+ *
+ * Security Properties:
+ * - No reconstruction: x never exists after the key ceremony
+ * - Verifiability: a wrong or substituted partial fails its proof against
+ *   the committed verification key and is not counted
+ * - Threshold: k-1 partials give no information about the plaintext
+ * - Binding: proofs commit to the key holder, the ciphertext and the
+ *   election public key
+ */
+
+import {
+  ELGAMAL_GROUP,
+  modPow,
+  bigIntToHex,
+  hexToBigInt,
+  hexToBuffer,
+  bufferToHex,
+  randomExponent,
+  isGroupElement,
+  elgamalDiscreteLog,
+  sha256,
+  type ElGamalCiphertext
+} from './crypto';
+
+// Challenges live in [0, 2^256), as for ballot proofs
+const CHALLENGE_MODULUS = 1n << 256n;
+
+export interface KeyShare {
+  x: number;      // Key holder number
+  y: Uint8Array;  // Share of the secret exponent, fixed width
+}
+
+interface DecryptionProof {
+  c: string;
+  f: string;
+}
+
+/**
+ * One key holder's contribution to decrypting a list of aggregates
+ */
+export interface PartialDecryption {
+  trustee: number;
+  factors: string[];          // c1^(x_i), one per ciphertext, hex
+  proofs: DecryptionProof[];  // Same order as factors
+}
+
+function shareValue(share: KeyShare): bigint {
+  return hexToBigInt(bufferToHex(share.y.buffer as ArrayBuffer));
+}
+
+// Modular inverse in Z_q (q is prime)
+function inverseModQ(value: bigint): bigint {
+  const { q } = ELGAMAL_GROUP;
+  return modPow(((value % q) + q) % q, q - 2n, q);
+}
+
+/**
+ * Split the ElGamal secret exponent into n shares with threshold k
+ * Polynomial evaluation over Z_q, so shares combine in the exponent
+ */
+export function splitElGamalKey(privateKey: Uint8Array, n: number, k: number): KeyShare[] {
+  if (k > n) throw new Error('Threshold cannot exceed total shares');
+  if (k < 2) throw new Error('Threshold must be at least 2');
+  if (n > 255) throw new Error('At most 255 shares are supported');
+
+  const { q } = ELGAMAL_GROUP;
+  const coefficients = [hexToBigInt(bufferToHex(privateKey.buffer as ArrayBuffer))];
+  for (let i = 1; i < k; i++) {
+    coefficients.push(randomExponent());
+  }
+
+  const shares: KeyShare[] = [];
+  for (let x = 1; x <= n; x++) {
+    let y = 0n;
+    for (let i = k - 1; i >= 0; i--) {
+      y = (y * BigInt(x) + coefficients[i]) % q;
+    }
+    shares.push({ x, y: hexToBuffer(bigIntToHex(y)) });
+  }
+
+  return shares;
+}
+
+/**
+ * Public verification key g^(x_i) of a key share
+ */
+export function getShareVerificationKey(share: KeyShare): string {
+  const { p, g } = ELGAMAL_GROUP;
+  return bigIntToHex(modPow(g, shareValue(share), p));
+}
+
+function proofContext(trustee: number, ciphertext: ElGamalCiphertext, publicKeyHex: string): string {
+  return ['SVS-PARTIAL-DECRYPTION', trustee, publicKeyHex, ciphertext.c1, ciphertext.c2].join('|');
+}
+
+async function hashChallenge(parts: (string | bigint)[]): Promise<bigint> {
+  const encoded = parts.map(part => typeof part === 'bigint' ? bigIntToHex(part) : part).join('|');
+  return hexToBigInt(await sha256(encoded));
+}
+
+/**
+ * Partially decrypt each ciphertext with one key share
+ * Proves log_g(g^(x_i)) = log_c1(c1^(x_i)) for every factor
+ */
+export async function createPartialDecryption(
+  ciphertexts: ElGamalCiphertext[],
+  share: KeyShare,
+  publicKeyHex: string
+): Promise<PartialDecryption> {
+  const { p, q, g } = ELGAMAL_GROUP;
+  const secret = shareValue(share);
+  const verificationKey = modPow(g, secret, p);
+  const factors: string[] = [];
+  const proofs: DecryptionProof[] = [];
+
+  for (const ciphertext of ciphertexts) {
+    const c1 = hexToBigInt(ciphertext.c1);
+    const factor = modPow(c1, secret, p);
+
+    const w = randomExponent();
+    const a = modPow(g, w, p);
+    const b = modPow(c1, w, p);
+    const c = await hashChallenge([proofContext(share.x, ciphertext, publicKeyHex), verificationKey, factor, a, b]);
+    const f = (w + c * secret) % q;
+
+    factors.push(bigIntToHex(factor));
+    proofs.push({ c: c.toString(16), f: f.toString(16) });
+  }
+
+  return { trustee: share.x, factors, proofs };
+}
+
+/**
+ * Check a partial decryption against the key holder's verification key
+ * Returns null if valid, otherwise the reason
+ */
+export async function verifyPartialDecryption(
+  ciphertexts: ElGamalCiphertext[],
+  partial: PartialDecryption,
+  verificationKeyHex: string,
+  publicKeyHex: string
+): Promise<string | null> {
+  const { p, q, g } = ELGAMAL_GROUP;
+
+  if (partial.factors.length !== ciphertexts.length || partial.proofs.length !== ciphertexts.length) {
+    return 'Partial decryption does not cover every aggregate';
+  }
+
+  const verificationKey = hexToBigInt(verificationKeyHex);
+  for (let i = 0; i < ciphertexts.length; i++) {
+    let factor: bigint;
+    let c: bigint;
+    let f: bigint;
+    try {
+      factor = hexToBigInt(partial.factors[i]);
+      c = hexToBigInt(partial.proofs[i].c);
+      f = hexToBigInt(partial.proofs[i].f);
+    } catch {
+      return 'Malformed partial decryption';
+    }
+    if (!isGroupElement(factor) || c >= CHALLENGE_MODULUS || f >= q) {
+      return 'Malformed partial decryption';
+    }
+
+    // a = g^f * vk^-c, b = c1^f * d^-c
+    const c1 = hexToBigInt(ciphertexts[i].c1);
+    const a = (modPow(g, f, p) * modPow(verificationKey, q - (c % q), p)) % p;
+    const b = (modPow(c1, f, p) * modPow(factor, q - (c % q), p)) % p;
+    const expected = await hashChallenge([proofContext(partial.trustee, ciphertexts[i], publicKeyHex), verificationKey, factor, a, b]);
+    if (expected !== c) {
+      return `Invalid decryption proof from key holder ${partial.trustee}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Combine k verified partial decryptions and recover each plaintext
+ * `maxValues` bounds each plaintext (the number of ballots aggregated).
+ */
+export function combinePartialDecryptions(
+  ciphertexts: ElGamalCiphertext[],
+  partials: PartialDecryption[],
+  maxValues: number[]
+): number[] {
+  const { p, q } = ELGAMAL_GROUP;
+  const trustees = partials.map(partial => BigInt(partial.trustee));
+
+  // Lagrange coefficients at 0: l_i = prod_{j != i} x_j / (x_j - x_i)
+  const coefficients = trustees.map((xi, i) => trustees.reduce(
+    (lambda, xj, j) => i === j ? lambda : (lambda * xj % q) * inverseModQ(xj - xi) % q,
+    1n
+  ));
+
+  return ciphertexts.map((ciphertext, i) => {
+    // c1^x = prod d_i^(l_i)
+    const mask = partials.reduce(
+      (product, partial, j) => (product * modPow(hexToBigInt(partial.factors[i]), coefficients[j], p)) % p,
+      1n
+    );
+    const gm = (hexToBigInt(ciphertext.c2) * modPow(mask, q - 1n, p)) % p;
+    return elgamalDiscreteLog(gm, maxValues[i]);
+  });
+}
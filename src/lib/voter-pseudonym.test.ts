@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createPseudonymSecret, derivePseudonym, recoverPseudonymKey } from './voter-pseudonym';
+
+describe('voter pseudonyms', () => {
+  it('gives the same voter unrelated pseudonyms in different elections', async () => {
+    const first = await createPseudonymSecret(3, 2);
+    const second = await createPseudonymSecret(3, 2);
+
+    const pseudonym = await derivePseudonym(first.key, 'A123456789');
+    expect(pseudonym).toMatch(/^[0-9a-f]{64}$/);
+    expect(await derivePseudonym(first.key, 'A123456789')).toBe(pseudonym);
+    expect(await derivePseudonym(second.key, 'A123456789')).not.toBe(pseudonym);
+    expect(await derivePseudonym(first.key, 'A123456780')).not.toBe(pseudonym);
+  });
+
+  it('recovers the key from k shards only', async () => {
+    const { key, fingerprint, shards } = await createPseudonymSecret(4, 3);
+
+    const recovered = await recoverPseudonymKey([shards[3], shards[0], shards[2]], 3, 4, fingerprint);
+    expect(await derivePseudonym(recovered, 'A123456789')).toBe(await derivePseudonym(key, 'A123456789'));
+
+    await expect(recoverPseudonymKey([shards[0], shards[1]], 3, 4, fingerprint))
+      .rejects.toThrow('Quorum not met: 2 of 3 required shards provided');
+    await expect(recoverPseudonymKey([shards[0], shards[0], shards[1]], 3, 4, fingerprint))
+      .rejects.toThrow('Duplicate shard for key holder 1');
+  });
+
+  it('rejects shards from another election or of another kind', async () => {
+    const { fingerprint, shards } = await createPseudonymSecret(3, 2);
+    const other = await createPseudonymSecret(3, 2);
+
+    await expect(recoverPseudonymKey([shards[0], other.shards[1]], 2, 3, fingerprint))
+      .rejects.toThrow('Reconstructed pseudonym key does not match the published fingerprint');
+    await expect(recoverPseudonymKey([shards[0], shards[1].replace('PSEUDONYM-', '')], 2, 3, fingerprint))
+      .rejects.toThrow('Not a pseudonym shard');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * ELECTION-SCOPED VOTER PSEUDONYMS
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Each ballot block records a voter pseudonym (Block.voterHash) so that a
+ * later ballot from the same voter supersedes the earlier one. The
+ * pseudonym is HMAC-SHA256 of the National ID under a 256-bit secret
+ * generated fresh for each election at the key ceremony.
+ *
+ * The secret is split among the trustees with the same k-of-n threshold as
+ * the election key and then wiped. The kiosk keeps it only as a
+ * non-extractable Web Crypto key, so it can compute pseudonyms but cannot
+ * disclose the secret. A kiosk that lacks the key (a replacement, or one
+ * set up before this scheme) receives it when k trustees present their
+ * pseudonym shards; the result is checked against the published fingerprint.
+ *
+ * Security Properties:
+ * - Unlinkable: the same voter has unrelated pseudonyms in different elections
+ * - Irreversible: without the secret, the National ID space cannot be
+ *   searched to recover who cast a ballot
+ * - Threshold escrow: no single party holds the secret after the ceremony
+ */
+
+import {
+  generateRandomBytes,
+  hmacSha256,
+  shamirSplit,
+  shamirCombine,
+  encodeShare,
+  decodeShare,
+  sha256,
+  bufferToHex
+} from './crypto';
+
+export const PSEUDONYM_SECRET_BYTES = 32;
+
+// Distinguishes pseudonym shards from election key shards
+const PSEUDONYM_SHARD_PREFIX = 'PSEUDONYM-';
+
+export interface PseudonymSecretSplit {
+  key: CryptoKey;       // Non-extractable, for this kiosk
+  fingerprint: string;  // SHA-256 of the secret, published with the election key
+  shards: string[];     // One encoded shard per trustee, in trustee order
+}
+
+/**
+ * Fingerprint of a pseudonym secret
+ * Safe to publish: the secret is 256 random bits, not a guessable value
+ */
+export async function fingerprintPseudonymSecret(secret: Uint8Array): Promise<string> {
+  return sha256(bufferToHex(secret.buffer as ArrayBuffer));
+}
+
+function importPseudonymKey(secret: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+}
+
+/**
+ * Generate a pseudonym secret, split it k-of-n and wipe it
+ */
+export async function createPseudonymSecret(totalShares: number, threshold: number): Promise<PseudonymSecretSplit> {
+  const secret = generateRandomBytes(PSEUDONYM_SECRET_BYTES);
+  try {
+    const shares = shamirSplit(secret, totalShares, threshold);
+    const shards = shares.map(share => PSEUDONYM_SHARD_PREFIX + encodeShare(share));
+    shares.forEach(share => share.y.fill(0));
+
+    return {
+      key: await importPseudonymKey(secret),
+      fingerprint: await fingerprintPseudonymSecret(secret),
+      shards
+    };
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Reconstruct the pseudonym key from k trustee shards
+ * Throws unless the shards are distinct, in range and reproduce `fingerprint`.
+ */
+export async function recoverPseudonymKey(
+  shards: string[],
+  threshold: number,
+  totalShares: number,
+  fingerprint: string
+): Promise<CryptoKey> {
+  const shares: { x: number; y: Uint8Array }[] = [];
+  for (const raw of shards) {
+    const shard = raw.trim();
+    if (!shard.startsWith(PSEUDONYM_SHARD_PREFIX)) {
+      throw new Error('Not a pseudonym shard (expected PSEUDONYM-SHARD-NN:...)');
+    }
+    const share = decodeShare(shard.slice(PSEUDONYM_SHARD_PREFIX.length));
+    if (share.x < 1 || share.x > totalShares) {
+      throw new Error(`Unknown key holder ${share.x}`);
+    }
+    if (shares.some(existing => existing.x === share.x)) {
+      throw new Error(`Duplicate shard for key holder ${share.x}`);
+    }
+    if (share.y.length !== PSEUDONYM_SECRET_BYTES) {
+      throw new Error(`Shard for key holder ${share.x} has the wrong length`);
+    }
+    shares.push(share);
+  }
+
+  if (shares.length < threshold) {
+    throw new Error(`Quorum not met: ${shares.length} of ${threshold} required shards provided`);
+  }
+
+  const secret = shamirCombine(shares);
+  shares.forEach(share => share.y.fill(0));
+  try {
+    if (await fingerprintPseudonymSecret(secret) !== fingerprint) {
+      throw new Error('Reconstructed pseudonym key does not match the published fingerprint. One or more shards are incorrect.');
+    }
+    return await importPseudonymKey(secret);
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Derive a voter's pseudonym for this election (see getVoterHash)
+ */
+export function derivePseudonym(key: CryptoKey, nationalId: string): Promise<string> {
+  return hmacSha256(key, nationalId);
+}
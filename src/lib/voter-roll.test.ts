@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { importVoterRoll } from './voter-roll';
+import { authenticateVoter } from './database';
+import { loadVoterRollSummary } from './storage';
+import { sha256 } from './crypto';
+import type { ElectionStatus } from './election';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONSTITUENCIES = [
+  { id: 'north', name: 'North Ward' },
+  { id: 'south', name: 'South Ward' }
+];
+
+function openElection(): ElectionStatus {
+  const now = Date.now();
+  return {
+    phase: 'open',
+    schedule: { electionId: 'TEST-2026', opensAt: now - DAY_MS, closesAt: now + DAY_MS },
+    transitions: []
+  };
+}
+
+describe('voter roll import', { timeout: 30_000 }, () => {
+  it('imports valid rows and reports malformed and duplicate ones', async () => {
+    const csv = [
+      'National ID,PIN,Constituency',
+      'A1001,1111,north',
+      '"A1002",2222,"South Ward"',
+      'a1001,3333,south',
+      'A1003,12345,north',
+      'A1004,4444,east',
+      'A1005,5555'
+    ].join('\r\n');
+
+    const report = await importVoterRoll(csv, 'csv', CONSTITUENCIES, { pinIterations: 1_000 });
+
+    expect(report.totalRows).toBe(6);
+    expect(report.summary).toMatchObject({
+      voterCount: 2,
+      perConstituency: { north: 1, south: 1 },
+      pinIterations: 1_000,
+      sourceHash: await sha256(csv)
+    });
+    expect(report.duplicates).toEqual([{ row: 4, reason: 'National ID already listed at row 2' }]);
+    expect(report.malformed).toEqual([
+      { row: 5, reason: 'PIN must be 4 digits' },
+      { row: 6, reason: 'Unknown constituency "east"' },
+      { row: 7, reason: 'Missing or extra fields' }
+    ]);
+    expect(await loadVoterRollSummary()).toEqual(report.summary);
+
+    // The first listing of a duplicated ID is the one imported
+    expect((await authenticateVoter('A1001', '1111', openElection())).voter?.constituency).toBe('north');
+    expect((await authenticateVoter('A1001', '3333', openElection())).success).toBe(false);
+  });
+
+  it('keeps the previous roll when an import has no valid rows', async () => {
+    await importVoterRoll(JSON.stringify([{ nationalId: 'B2001', pin: '1234', constituency: 'south' }]), 'json', CONSTITUENCIES, {
+      pinIterations: 1_000
+    });
+
+    await expect(importVoterRoll(JSON.stringify({ voters: [{ nationalId: 'B2002', pin: 'abcd', constituency: 'north' }] }), 'json', CONSTITUENCIES))
+      .rejects.toThrow('No valid voters in the roll (1 malformed, 0 duplicate rows)');
+    await expect(importVoterRoll('PIN,Constituency\n1234,north', 'csv', CONSTITUENCIES))
+      .rejects.toThrow('Voter roll has no nationalId column');
+
+    expect((await authenticateVoter('B2001', '1234', openElection())).success).toBe(true);
+  });
+
+  it('writes nothing when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(importVoterRoll('id,pin,constituency\nC3001,1234,north', 'csv', CONSTITUENCIES, { signal: controller.signal }))
+      .rejects.toThrow('Import cancelled');
+    expect(await authenticateVoter('C3001', '1234', openElection())).toMatchObject({ success: false, error: 'Invalid credentials' });
+  });
+});
@@ -0,0 +1,408 @@
+/**
+ * VOTER ROLL IMPORT
+ *
+ * TECHNICAL AFFIDAVIT:
+ * Registrars deliver the voter roll as CSV or JSON. Each row carries a
+ * National ID, a PIN and a constituency (by id or name from the installed
+ * election definition). The import validates every row, reports malformed
+ * and duplicate rows, hashes the credentials and writes the roll to the
+ * persistent voter store in a single transaction.
+ *
+ * Plaintext National IDs and PINs exist only in the worker's memory while
+ * the file is processed; only their hashes are written (salted PBKDF2 for
+ * PINs, keyed HMAC for IDs; see database.ts). The PBKDF2 iteration count
+ * is chosen per import and recorded with the roll. Rolls with
+ * hundreds of thousands of rows are processed in a Web Worker so the
+ * admin console stays responsive.
+ *
+ * Security Properties:
+ * - Hashing at ingest: no plaintext credentials reach storage
+ * - Atomic replacement: a failed import leaves the previous roll intact
+ * - Accountability: the SHA-256 of the source file is recorded
+ * - Unambiguous identity: a National ID listed twice is never imported twice
+ */
+
+import { sha256 } from './crypto';
+import { replaceVoterRoll } from './storage';
+import {
+  createVoterRecord,
+  getVoterKeys,
+  normaliseNationalId,
+  DEFAULT_PIN_ITERATIONS,
+  MIN_PIN_ITERATIONS,
+  MAX_PIN_ITERATIONS,
+  type VoterRecord,
+  type Constituency
+} from './database';
+
+export type VoterRollFormat = 'csv' | 'json';
+
+export interface VoterRollIssue {
+  row: number; // CSV line number, or JSON array position (1-based)
+  reason: string;
+}
+
+export interface VoterRollProgress {
+  stage: 'validating' | 'hashing' | 'writing';
+  processed: number;
+  total: number;
+}
+
+/**
+ * Recorded with the roll (see loadVoterRollSummary)
+ */
+export interface VoterRollSummary {
+  importedAt: number;
+  sourceHash: string; // SHA-256 of the imported file
+  voterCount: number;
+  perConstituency: Record<string, number>;
+  pinIterations: number; // PBKDF2 iterations; older records are re-hashed to this at sign-in
+}
+
+export interface VoterRollReport {
+  summary: VoterRollSummary;
+  totalRows: number;
+  duplicateCount: number;
+  malformedCount: number;
+  duplicates: VoterRollIssue[]; // At most MAX_REPORTED_ISSUES of each
+  malformed: VoterRollIssue[];
+}
+
+export interface VoterRollOptions {
+  pinIterations?: number; // Defaults to DEFAULT_PIN_ITERATIONS
+  onProgress?: (progress: VoterRollProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Ballot constituencies a row may name (id or display name)
+ */
+export type RollConstituency = Pick<Constituency, 'id' | 'name'>;
+
+export type VoterRollRequest =
+  | { type: 'start'; text: string; format: VoterRollFormat; constituencies: RollConstituency[]; pinIterations?: number }
+  | { type: 'cancel' };
+
+export type VoterRollResponse =
+  | ({ type: 'progress' } & VoterRollProgress)
+  | { type: 'done'; report: VoterRollReport }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+const NATIONAL_ID_PATTERN = /^[A-Z0-9]{3,12}$/;
+const PIN_PATTERN = /^\d{4}$/;
+const HASH_BATCH_SIZE = 200;
+const MAX_REPORTED_ISSUES = 1000;
+
+// Accepted column headings, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<keyof RawVoterRow, string[]> = {
+  nationalId: ['nationalid', 'nationalidnumber', 'id'],
+  pin: ['pin'],
+  constituency: ['constituency', 'constituencyid', 'constituencyname']
+};
+
+interface RawVoterRow {
+  nationalId: string;
+  pin: string;
+  constituency: string;
+}
+
+function normaliseHeading(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// RFC 4180 records with their starting line numbers
+function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  return records;
+}
+
+function readCsvRows(text: string): { row: number; value: RawVoterRow | null }[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('Voter roll is empty');
+
+  const headings = header.fields.map(normaliseHeading);
+  const columns = {} as Record<keyof RawVoterRow, number>;
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [keyof RawVoterRow, string[]][]) {
+    const index = headings.findIndex(heading => aliases.includes(heading));
+    if (index === -1) {
+      throw new Error(`Voter roll has no ${column} column (header: ${header.fields.join(', ')})`);
+    }
+    columns[column] = index;
+  }
+
+  return records.map(record => ({
+    row: record.line,
+    value: record.fields.length === header.fields.length
+      ? {
+          nationalId: record.fields[columns.nationalId],
+          pin: record.fields[columns.pin],
+          constituency: record.fields[columns.constituency]
+        }
+      : null
+  }));
+}
+
+function readJsonRows(text: string): { row: number; value: RawVoterRow | null }[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Voter roll is not valid JSON');
+  }
+
+  // Either an array of voters or { "voters": [...] }
+  const voters = Array.isArray(value) ? value : (value as { voters?: unknown })?.voters;
+  if (!Array.isArray(voters)) {
+    throw new Error('Voter roll JSON must be an array of voters');
+  }
+
+  return voters.map((voter, i) => {
+    const fields = voter as Record<string, unknown> | null;
+    const read = (column: keyof RawVoterRow) => {
+      const key = Object.keys(fields ?? {}).find(k => COLUMN_ALIASES[column].includes(normaliseHeading(k)));
+      const field = key ? fields?.[key] : undefined;
+      return typeof field === 'string' || typeof field === 'number' ? String(field) : null;
+    };
+    const nationalId = read('nationalId');
+    const pin = read('pin');
+    const constituency = read('constituency');
+    return {
+      row: i + 1,
+      value: nationalId !== null && pin !== null && constituency !== null
+        ? { nationalId, pin, constituency }
+        : null
+    };
+  });
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new DOMException('Import cancelled', 'AbortError');
+}
+
+/**
+ * Validate, hash and store a voter roll, replacing the current roll
+ * Valid rows are imported; malformed and duplicate rows are reported.
+ * Nothing is written if no row is valid.
+ */
+export async function importVoterRoll(
+  text: string,
+  format: VoterRollFormat,
+  constituencies: RollConstituency[],
+  options: VoterRollOptions = {}
+): Promise<VoterRollReport> {
+  const { pinIterations = DEFAULT_PIN_ITERATIONS, onProgress, signal } = options;
+  if (!Number.isInteger(pinIterations) || pinIterations < MIN_PIN_ITERATIONS || pinIterations > MAX_PIN_ITERATIONS) {
+    throw new Error(`PIN iterations must be a whole number from ${MIN_PIN_ITERATIONS} to ${MAX_PIN_ITERATIONS}`);
+  }
+  const rows = format === 'csv' ? readCsvRows(text) : readJsonRows(text);
+
+  const byKey = new Map<string, string>();
+  for (const constituency of constituencies) {
+    byKey.set(constituency.id.toLowerCase(), constituency.id);
+    byKey.set(constituency.name.trim().toLowerCase(), constituency.id);
+  }
+
+  const malformed: VoterRollIssue[] = [];
+  const duplicates: VoterRollIssue[] = [];
+  let malformedCount = 0;
+  let duplicateCount = 0;
+  const report = (list: VoterRollIssue[], issue: VoterRollIssue) => {
+    if (list.length < MAX_REPORTED_ISSUES) list.push(issue);
+  };
+
+  // Validate and de-duplicate on the normalised plaintext ID
+  const firstRow = new Map<string, number>();
+  const accepted: { nationalId: string; pin: string; constituency: string }[] = [];
+
+  for (const { row, value } of rows) {
+    let reason: string | null = null;
+    const nationalId = value ? normaliseNationalId(value.nationalId) : '';
+    const pin = value?.pin.trim() ?? '';
+    const constituency = value ? byKey.get(value.constituency.trim().toLowerCase()) : undefined;
+
+    if (!value) reason = 'Missing or extra fields';
+    else if (!NATIONAL_ID_PATTERN.test(nationalId)) reason = 'National ID must be 3-12 letters or digits';
+    else if (!PIN_PATTERN.test(pin)) reason = 'PIN must be 4 digits';
+    else if (!constituency) reason = `Unknown constituency "${value.constituency.trim()}"`;
+
+    if (reason || !constituency) {
+      malformedCount++;
+      report(malformed, { row, reason: reason ?? 'Invalid row' });
+      continue;
+    }
+
+    const first = firstRow.get(nationalId);
+    if (first !== undefined) {
+      duplicateCount++;
+      report(duplicates, { row, reason: `National ID already listed at row ${first}` });
+      continue;
+    }
+
+    firstRow.set(nationalId, row);
+    accepted.push({ nationalId, pin, constituency });
+  }
+
+  onProgress?.({ stage: 'validating', processed: rows.length, total: rows.length });
+  throwIfAborted(signal);
+
+  if (accepted.length === 0) {
+    throw new Error(`No valid voters in the roll (${malformedCount} malformed, ${duplicateCount} duplicate rows)`);
+  }
+
+  // Hash in batches, reporting progress between them
+  const keys = await getVoterKeys();
+  const voters: VoterRecord[] = [];
+  const perConstituency: Record<string, number> = {};
+  for (let start = 0; start < accepted.length; start += HASH_BATCH_SIZE) {
+    throwIfAborted(signal);
+    const batch = accepted.slice(start, start + HASH_BATCH_SIZE);
+    const hashed = await Promise.all(batch.map(voter =>
+      createVoterRecord(voter.nationalId, voter.pin, voter.constituency, keys, pinIterations)
+    ));
+    for (const voter of hashed) {
+      voters.push(voter);
+      perConstituency[voter.constituency] = (perConstituency[voter.constituency] ?? 0) + 1;
+    }
+    onProgress?.({ stage: 'hashing', processed: voters.length, total: accepted.length });
+  }
+  accepted.length = 0; // Drop the plaintext credentials
+
+  const summary: VoterRollSummary = {
+    importedAt: Date.now(),
+    sourceHash: await sha256(text),
+    voterCount: voters.length,
+    perConstituency,
+    pinIterations
+  };
+
+  throwIfAborted(signal);
+  onProgress?.({ stage: 'writing', processed: 0, total: voters.length });
+  await replaceVoterRoll(voters, summary);
+  onProgress?.({ stage: 'writing', processed: voters.length, total: voters.length });
+
+  return {
+    summary,
+    totalRows: rows.length,
+    duplicateCount,
+    malformedCount,
+    duplicates,
+    malformed
+  };
+}
+
+/**
+ * Import a voter roll in a Web Worker
+ * Aborting `signal` cancels the job and terminates the worker; the write
+ * is a single transaction, so a cancelled import never leaves a partial roll.
+ */
+export async function importVoterRollInWorker(
+  text: string,
+  format: VoterRollFormat,
+  constituencies: RollConstituency[],
+  options: VoterRollOptions = {}
+): Promise<VoterRollReport> {
+  if (typeof Worker === 'undefined') {
+    return importVoterRoll(text, format, constituencies, options);
+  }
+
+  const { pinIterations, onProgress, signal } = options;
+
+  // Create the credential keys here so the worker never races the kiosk to create them
+  await getVoterKeys();
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Import cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(
+      new URL('../workers/voter-roll.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      worker.postMessage({ type: 'cancel' } satisfies VoterRollRequest);
+      finish();
+      reject(new DOMException('Import cancelled', 'AbortError'));
+    };
+
+    worker.onmessage = (event: MessageEvent<VoterRollResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.({ stage: message.stage, processed: message.processed, total: message.total });
+          break;
+        case 'done':
+          finish();
+          resolve(message.report);
+          break;
+        case 'cancelled':
+          finish();
+          reject(new DOMException('Import cancelled', 'AbortError'));
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Voter roll worker failed'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.postMessage({ type: 'start', text, format, constituencies, pinIterations } satisfies VoterRollRequest);
+  });
+}
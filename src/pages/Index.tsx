@@ -10,11 +10,11 @@
  * - TPM/Secure Boot integration
  * - Air-gap enforcement via network module exclusion
  * 
- * This prototype uses Web Crypto API and in-memory storage to demonstrate
+ * This prototype uses Web Crypto API and IndexedDB storage to demonstrate
  * the security flows without hardware dependencies.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { ElectoralHeader } from '@/components/ElectoralHeader';
 import { VoterLogin } from '@/components/VoterLogin';
 import { BallotScreen } from '@/components/BallotScreen';
@@ -23,16 +23,49 @@ import { VoteReceipt } from '@/components/VoteReceipt';
 import { AIAssistant, AIAssistantTrigger } from '@/components/AIAssistant';
 import { AdminLogin } from '@/components/AdminLogin';
 import { AdminDashboard } from '@/components/AdminDashboard';
-import { createBlockchain, addVote, type BlockchainState, type Block } from '@/lib/blockchain';
-import { encryptVoteRSA, sha256 } from '@/lib/crypto';
-import type { VoterRecord, Constituency, Candidate } from '@/lib/database';
-import { Settings } from 'lucide-react';
+import { ReceiptVerifier } from '@/components/ReceiptVerifier';
+import { KioskSetup } from '@/components/KioskSetup';
+import { addVote, type BlockchainState, type Block, type LedgerAuthorities } from '@/lib/blockchain';
+import { 
+  loadBlockchain, 
+  appendBlock, 
+  loadElectionKey, 
+  saveElectionKey, 
+  loadLedgerAuthorities,
+  saveLedgerAuthorities,
+  loadMerklePublication,
+  saveMerklePublication,
+  loadDeviceIdentity,
+  saveDeviceIdentity,
+  loadDeviceRegistry,
+  saveDeviceRegistry,
+  loadElectionDefinition,
+  saveElectionDefinition,
+  type RecoveryReport 
+} from '@/lib/storage';
+import { encryptVoteRSA, encryptVoteElGamal, type MiningProgress } from '@/lib/crypto';
+import { proveBallot, serializeBallotProof } from '@/lib/ballot-proofs';
+import type { PublishedElectionKey } from '@/lib/key-ceremony';
+import type { MerklePublication } from '@/lib/merkle';
+import type { AuthorisedDevice, DeviceIdentity } from '@/lib/devices';
+import type { AdminSession } from '@/lib/admin-accounts';
+import { recordAdminEvent } from '@/lib/admin-log';
+import { getElectionStatus, checkVotingOpen } from '@/lib/election';
+import {
+  hashElectionDefinition,
+  getElectionConfig,
+  getBallotLayouts,
+  type ElectionDefinition
+} from '@/lib/election-definition';
+import { loadConstituencies, type VoterRecord, type Constituency, type Candidate } from '@/lib/database';
+import { Settings, Loader2, AlertTriangle, GitBranch } from 'lucide-react';
 
 type Screen = 
   | 'login' 
   | 'ballot' 
   | 'confirmation' 
   | 'receipt' 
+  | 'verify-receipt' 
   | 'admin-login' 
   | 'admin-dashboard';
 
@@ -46,12 +79,84 @@ interface VotingSession {
 export default function Index() {
   const [screen, setScreen] = useState<Screen>('login');
   const [session, setSession] = useState<VotingSession | null>(null);
-  const [blockchainState, setBlockchainState] = useState<BlockchainState>(createBlockchain);
+  const [blockchainState, setBlockchainState] = useState<BlockchainState | null>(null); // Minted once the election key is published
   const [lastBlock, setLastBlock] = useState<Block | null>(null);
   const [lastMiningTime, setLastMiningTime] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showAIAssistant, setShowAIAssistant] = useState(false);
   const [adminKeyPressed, setAdminKeyPressed] = useState(0);
+  const [electionKey, setElectionKey] = useState<PublishedElectionKey | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [recordedNotice, setRecordedNotice] = useState<string | null>(null);
+  const [isLedgerReady, setIsLedgerReady] = useState(false);
+  const [ledgerError, setLedgerError] = useState<string | null>(null);
+  const [recoveryReport, setRecoveryReport] = useState<RecoveryReport | null>(null);
+  const [merklePublication, setMerklePublication] = useState<MerklePublication | null>(null);
+  const [deviceIdentity, setDeviceIdentity] = useState<DeviceIdentity | null>(null);
+  const [deviceRegistry, setDeviceRegistry] = useState<AuthorisedDevice[]>([]);
+  const [admin, setAdmin] = useState<AdminSession | null>(null);
+  const [electionDefinition, setElectionDefinition] = useState<ElectionDefinition | null>(null);
+  const [definitionHash, setDefinitionHash] = useState('');
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [miningProgress, setMiningProgress] = useState<MiningProgress | null>(null);
+  const submitAbortRef = useRef<AbortController | null>(null);
+  const submitCancelledRef = useRef(false); // Voter went back during submission
+
+  // Install the ballots from the election definition, then restore the
+  // persisted ledger (or mint its genesis block once the key is published)
+  const restoreLedger = useCallback(async (definition: ElectionDefinition, isCancelled: () => boolean) => {
+    const constituencies = getBallotLayouts(definition);
+    const hash = await hashElectionDefinition(definition);
+    const storedKey = await loadElectionKey();
+    const storedAuthorities = await loadLedgerAuthorities();
+    const storedPublication = await loadMerklePublication();
+    const storedIdentity = await loadDeviceIdentity();
+    const storedRegistry = await loadDeviceRegistry();
+    if (storedKey && !storedAuthorities) {
+      throw new Error('Ledger authorities from the key ceremony are missing');
+    }
+    const ledger = storedKey && storedAuthorities
+      ? await loadBlockchain(await getElectionConfig(definition, storedKey, storedAuthorities), {
+          constituencies,
+          devices: storedRegistry,
+          definitionHash: hash
+        })
+      : null;
+    if (isCancelled()) return;
+    loadConstituencies(constituencies);
+    setElectionDefinition(definition);
+    setDefinitionHash(hash);
+    setElectionKey(storedKey);
+    setMerklePublication(storedPublication);
+    setDeviceIdentity(storedIdentity);
+    setDeviceRegistry(storedRegistry);
+    setBlockchainState(ledger?.state ?? null);
+    setRecoveryReport(ledger?.recovery ?? null);
+    setNeedsSetup(false);
+    setIsLedgerReady(true);
+  }, []);
+
+  // Restore the persisted ledger before accepting any votes
+  useEffect(() => {
+    let cancelled = false;
+    
+    (async () => {
+      try {
+        const storedDefinition = await loadElectionDefinition();
+        if (cancelled) return;
+        if (!storedDefinition) {
+          setNeedsSetup(true);
+          return;
+        }
+        await restoreLedger(storedDefinition, () => cancelled);
+      } catch (error) {
+        console.error('Ledger restore error:', error);
+        if (!cancelled) setLedgerError('The vote ledger could not be loaded. Please contact a polling officer.');
+      }
+    })();
+    
+    return () => { cancelled = true; };
+  }, [restoreLedger]);
 
   // Admin access via secret key combo (Ctrl+Shift+A 3 times)
   useEffect(() => {
@@ -99,6 +204,8 @@ export default function Index() {
   const handleVoteSelected = useCallback((candidate: Candidate) => {
     if (session) {
       setSession({ ...session, selectedCandidate: candidate });
+      setSubmitError(null);
+      setRecordedNotice(null);
       setScreen('confirmation');
     }
   }, [session]);
@@ -106,7 +213,44 @@ export default function Index() {
   const handleConfirmVote = useCallback(async () => {
     if (!session?.selectedCandidate) return;
     
+    setSubmitError(null);
+    
+    // Votes can only be cast once the key ceremony has published a key
+    if (!electionKey || !blockchainState) {
+      setSubmitError('The election encryption key has not been published. Please contact a polling officer.');
+      return;
+    }
+    
+    // Never extend a ledger that failed its integrity check
+    if (!blockchainState.isValid || recoveryReport?.chainValid === false) {
+      setSubmitError('The vote ledger failed its integrity check. Your vote was not recorded. Please contact a polling officer.');
+      return;
+    }
+    
+    // The polls may have closed while the voter was at the ballot screen
+    const closedReason = checkVotingOpen(getElectionStatus(blockchainState.chain));
+    if (closedReason) {
+      setSubmitError(`${closedReason}. Your vote was not recorded.`);
+      return;
+    }
+    
+    // Every block must be attributable to an authorised, unrevoked kiosk
+    const registration = deviceRegistry.find(d => d.deviceId === deviceIdentity?.deviceId);
+    if (
+      !deviceIdentity ||
+      !registration ||
+      registration.revokedAt !== null ||
+      !registration.constituencyIds.includes(session.constituency.id)
+    ) {
+      setSubmitError('This kiosk is not authorised to record votes for your constituency. Please contact a polling officer.');
+      return;
+    }
+    
     setIsSubmitting(true);
+    setMiningProgress(null);
+    const controller = new AbortController();
+    submitAbortRef.current = controller;
+    submitCancelledRef.current = false;
 
     try {
       // Encrypt the vote
@@ -117,31 +261,85 @@ export default function Index() {
         constituencyId: session.constituency.id
       };
       
-      const { encryptedVote } = await encryptVoteRSA(votePayload);
+      let encryptedVote: string;
+      let ballotProof: string | undefined;
+      
+      if (electionKey.scheme === 'elgamal') {
+        // Homomorphic ballot with a proof that it selects exactly one listed candidate
+        const encrypted = encryptVoteElGamal(
+          session.constituency.id,
+          session.constituency.candidates.map(c => c.id),
+          session.selectedCandidate.id,
+          electionKey.publicKey
+        );
+        const proof = await proveBallot(
+          encrypted.ballot,
+          session.selectedCandidate.id,
+          encrypted.randomness,
+          electionKey.publicKey,
+          session.voterHash
+        );
+        encryptedVote = encrypted.encryptedVote;
+        ballotProof = serializeBallotProof(proof);
+      } else {
+        encryptedVote = (await encryptVoteRSA(votePayload, electionKey.publicKey)).encryptedVote;
+      }
       
       // Add to blockchain
       const result = await addVote(
         blockchainState,
         encryptedVote,
         session.voterHash,
-        4 // Difficulty
+        {
+          ballotProof,
+          device: { deviceId: deviceIdentity.deviceId, privateKey: deviceIdentity.privateKey },
+          sealer: { id: deviceIdentity.deviceId, privateKey: deviceIdentity.privateKey }, // Proof-of-Authority only
+          onProgress: setMiningProgress,
+          signal: controller.signal
+        }
       );
       
+      if (submitCancelledRef.current) return;
+      
+      // The vote is only final once it is durably stored
+      await appendBlock(result.block);
+      
       setBlockchainState(result.state);
       setLastBlock(result.block);
       setLastMiningTime(result.miningTime);
+      
+      // Too late to cancel: the voter is back at the ballot, so tell them
+      // there instead of taking them to the receipt
+      if (submitCancelledRef.current) {
+        setRecordedNotice(
+          `Your vote for ${session.selectedCandidate.name} was recorded before you went back. ` +
+          'Only your last vote counts, so you may vote again or exit.'
+        );
+        return;
+      }
       setScreen('receipt');
     } catch (error) {
+      // Voter backed out while the block was being mined
+      if (submitCancelledRef.current) return;
       console.error('Vote submission error:', error);
-      // In production, show error UI
+      setSubmitError('Your vote could not be recorded. Please try again or contact a polling officer.');
     } finally {
+      submitAbortRef.current = null;
       setIsSubmitting(false);
+      setMiningProgress(null);
     }
-  }, [session, blockchainState]);
+  }, [session, blockchainState, electionKey, deviceIdentity, deviceRegistry, recoveryReport]);
+
+  const handleCancelSubmit = useCallback(() => {
+    submitCancelledRef.current = true;
+    submitAbortRef.current?.abort();
+    setScreen('ballot');
+  }, []);
 
   const handleNewVote = useCallback(() => {
     if (session) {
       setSession({ ...session, selectedCandidate: null });
+      setRecordedNotice(null);
       setScreen('ballot');
     }
   }, [session]);
@@ -150,21 +348,92 @@ export default function Index() {
     setSession(null);
     setLastBlock(null);
     setLastMiningTime(0);
+    setRecordedNotice(null);
     setScreen('login');
   }, []);
 
+  const handleKeyPublished = useCallback(async (key: PublishedElectionKey, authorities: LedgerAuthorities) => {
+    if (!electionDefinition) return;
+    await saveLedgerAuthorities(authorities);
+    await saveElectionKey(key);
+    // The genesis block commits to the key, so the ledger starts now
+    await restoreLedger(electionDefinition, () => false);
+  }, [electionDefinition, restoreLedger]);
+
+  const handleMerklePublished = useCallback(async (publication: MerklePublication) => {
+    await saveMerklePublication(publication);
+    setMerklePublication(publication);
+  }, []);
+
+  const handleDefinitionInstalled = useCallback(async (definition: ElectionDefinition) => {
+    await saveElectionDefinition(definition);
+    await restoreLedger(definition, () => false);
+  }, [restoreLedger]);
+
+  const handlePhaseRecorded = useCallback(async (state: BlockchainState, block: Block) => {
+    // Phase changes are final only once durably stored, like votes
+    await appendBlock(block);
+    setBlockchainState(state);
+  }, []);
+
+  const handleDeviceProvisioned = useCallback(async (
+    identity: DeviceIdentity, 
+    registry: AuthorisedDevice[]
+  ) => {
+    await saveDeviceRegistry(registry);
+    await saveDeviceIdentity(identity);
+    setDeviceRegistry(registry);
+    setDeviceIdentity(identity);
+  }, []);
+
+  const handleRegistryChanged = useCallback(async (registry: AuthorisedDevice[]) => {
+    await saveDeviceRegistry(registry);
+    setDeviceRegistry(registry);
+  }, []);
+
   const handleAdminLogout = useCallback(() => {
+    if (admin) {
+      recordAdminEvent('logout', admin.username).catch(error => {
+        console.error('Admin log error:', error);
+      });
+    }
+    setAdmin(null);
     setScreen('login');
-  }, []);
+  }, [admin]);
 
   // Render appropriate screen
   const renderScreen = () => {
+    if (ledgerError) {
+      return (
+        <div className="flex min-h-[calc(100vh-88px)] items-center justify-center p-8">
+          <div className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-6">
+            <AlertTriangle className="h-6 w-6 text-destructive" />
+            <p className="font-medium text-destructive">{ledgerError}</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (needsSetup) {
+      return <KioskSetup onInstalled={handleDefinitionInstalled} />;
+    }
+
+    if (!isLedgerReady) {
+      return (
+        <div className="flex min-h-[calc(100vh-88px)] items-center justify-center gap-3 p-8 text-muted-foreground">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          Restoring vote ledger...
+        </div>
+      );
+    }
+
     switch (screen) {
       case 'login':
         return (
           <VoterLogin 
             onAuthenticated={handleAuthenticated}
             onHelpRequest={() => setShowAIAssistant(true)}
+            electionStatus={getElectionStatus(blockchainState?.chain ?? [])}
           />
         );
       
@@ -175,6 +444,8 @@ export default function Index() {
             constituency={session.constituency}
             onVoteSelected={handleVoteSelected}
             onCancel={handleExit}
+            recordedNotice={recordedNotice}
+            onViewReceipt={lastBlock ? () => setScreen('receipt') : undefined}
           />
         );
       
@@ -185,8 +456,10 @@ export default function Index() {
             candidate={session.selectedCandidate}
             constituency={session.constituency}
             onConfirm={handleConfirmVote}
-            onBack={() => setScreen('ballot')}
+            onBack={handleCancelSubmit}
             isSubmitting={isSubmitting}
+            miningProgress={miningProgress}
+            error={submitError}
           />
         );
       
@@ -202,18 +475,44 @@ export default function Index() {
           />
         );
       
+      case 'verify-receipt':
+        return (
+          <ReceiptVerifier
+            chain={blockchainState?.chain ?? []}
+            publication={merklePublication}
+            onBack={handleExit}
+          />
+        );
+      
       case 'admin-login':
         return (
           <AdminLogin
-            onAuthenticated={() => setScreen('admin-dashboard')}
+            onAuthenticated={(session) => {
+              setAdmin(session);
+              setScreen('admin-dashboard');
+            }}
             onCancel={handleExit}
           />
         );
       
       case 'admin-dashboard':
+        if (!admin || !electionDefinition) return null;
         return (
           <AdminDashboard
             blockchainState={blockchainState}
+            electionKey={electionKey}
+            onKeyPublished={handleKeyPublished}
+            merklePublication={merklePublication}
+            onMerklePublished={handleMerklePublished}
+            electionDefinition={electionDefinition}
+            definitionHash={definitionHash}
+            onPhaseRecorded={handlePhaseRecorded}
+            deviceIdentity={deviceIdentity}
+            deviceRegistry={deviceRegistry}
+            onDeviceProvisioned={handleDeviceProvisioned}
+            onRegistryChanged={handleRegistryChanged}
+            recoveryReport={recoveryReport}
+            admin={admin}
             onLogout={handleAdminLogout}
           />
         );
@@ -244,14 +543,23 @@ export default function Index() {
       )}
       
       {/* Admin Access Hint (visible in demo) */}
-      {screen === 'login' && (
-        <button
-          onClick={() => setScreen('admin-login')}
-          className="fixed bottom-6 left-6 flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors opacity-50 hover:opacity-100"
-        >
-          <Settings className="h-4 w-4" />
-          Admin Access
-        </button>
+      {screen === 'login' && isLedgerReady && (
+        <div className="fixed bottom-6 left-6 flex items-center gap-6">
+          <button
+            onClick={() => setScreen('admin-login')}
+            className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors opacity-50 hover:opacity-100"
+          >
+            <Settings className="h-4 w-4" />
+            Admin Access
+          </button>
+          <button
+            onClick={() => setScreen('verify-receipt')}
+            className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors opacity-50 hover:opacity-100"
+          >
+            <GitBranch className="h-4 w-4" />
+            Verify Receipt
+          </button>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,157 @@
+/**
+ * Test election: a two-constituency definition, a key ceremony, one
+ * registered kiosk and a Proof-of-Authority ledger (so no block is mined)
+ */
+
+import { encryptVoteElGamal, encryptVoteRSA, generateSigningKeyPair } from '@/lib/crypto';
+import { proveBallot, serializeBallotProof } from '@/lib/ballot-proofs';
+import {
+  addPhaseBlock,
+  addVote,
+  createBlockchain,
+  DEFAULT_DIFFICULTY_POLICY,
+  type BlockchainState
+} from '@/lib/blockchain';
+import {
+  getBallotLayouts,
+  getElectionConfig,
+  getElectionSchedule,
+  hashElectionDefinition,
+  type ElectionDefinition
+} from '@/lib/election-definition';
+import { signPhaseTransition, type AdminLogAnchor, type ElectionPhase } from '@/lib/election';
+import { runKeyCeremony, type EncryptionScheme } from '@/lib/key-ceremony';
+import { provisionDevice, registerDevice } from '@/lib/devices';
+import { createAuditSigningKey } from '@/lib/audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createTestDefinition(): ElectionDefinition {
+  const now = Date.now();
+  return {
+    format: 'SVS-ELECTION',
+    version: 1,
+    election: {
+      electionId: 'TEST-2026',
+      name: 'Test Election',
+      authority: 'Test Commission',
+      publishedAt: new Date(now - 2 * DAY_MS).toISOString(),
+      opensAt: new Date(now - DAY_MS).toISOString(),
+      closesAt: new Date(now + DAY_MS).toISOString()
+    },
+    parties: [
+      { id: 'red', name: 'Red Party', abbreviation: 'RED', colour: '#ff0000' },
+      { id: 'blue', name: 'Blue Party', abbreviation: 'BLU', colour: '#0000ff' }
+    ],
+    constituencies: [
+      {
+        id: 'north',
+        name: 'North',
+        region: 'Test Region',
+        candidates: [
+          { id: 'alice', name: 'Alice', partyId: 'red', ballotPosition: 1 },
+          { id: 'bob', name: 'Bob', partyId: 'blue', ballotPosition: 2 },
+          { id: 'carol', name: 'Carol', partyId: null, ballotPosition: 3 }
+        ]
+      },
+      {
+        id: 'south',
+        name: 'South',
+        region: 'Test Region',
+        candidates: [
+          { id: 'dave', name: 'Dave', partyId: 'red', ballotPosition: 1 },
+          { id: 'erin', name: 'Erin', partyId: 'blue', ballotPosition: 2 }
+        ]
+      }
+    ],
+    ballotRules: { selectionsPerBallot: 1, revoting: 'last-vote-counts' }
+  };
+}
+
+export async function createTestElection(scheme: EncryptionScheme = 'elgamal') {
+  const definition = createTestDefinition();
+  const constituencies = getBallotLayouts(definition);
+  const definitionHash = await hashElectionDefinition(definition);
+  const ceremony = await runKeyCeremony({ scheme, threshold: 2, totalShares: 3 });
+  const { electionKey } = ceremony;
+
+  const validatorKeys = await generateSigningKeyPair();
+  const sealer = { id: 'VALIDATOR-1', privateKey: validatorKeys.privateKey };
+  const validators = [{ id: sealer.id, publicKey: validatorKeys.publicKey }];
+
+  const kiosk = await provisionDevice('KIOSK-01', ['north', 'south']);
+  const devices = registerDevice([], kiosk.registration);
+  const device = { deviceId: kiosk.identity.deviceId, privateKey: kiosk.identity.privateKey };
+  const admin = await createAuditSigningKey('returning-officer');
+
+  const administrators = [{ adminId: admin.adminId, publicKey: admin.publicKey }];
+  const config = await getElectionConfig(definition, electionKey, {
+    consensus: 'poa',
+    difficultyPolicy: DEFAULT_DIFFICULTY_POLICY,
+    validators,
+    administrators
+  });
+  let state: BlockchainState = await createBlockchain(config);
+
+  const election = {
+    definition,
+    constituencies,
+    definitionHash,
+    ceremony,
+    electionKey,
+    config,
+    validators,
+    sealer,
+    devices,
+    device,
+    admin,
+    get state() {
+      return state;
+    },
+    set state(next: BlockchainState) {
+      state = next;
+    },
+
+    async recordPhase(to: ElectionPhase, adminLog: AdminLogAnchor | null = null) {
+      const transition = await signPhaseTransition(state.chain, getElectionSchedule(definition), to, admin, adminLog);
+      state = (await addPhaseBlock(state, transition, { sealer, device })).state;
+    },
+
+    async castVote(voterHash: string, constituencyId: string, candidateId: string) {
+      const constituency = constituencies.find(c => c.id === constituencyId)!;
+      const candidate = constituency.candidates.find(c => c.id === candidateId)!;
+
+      let encryptedVote: string;
+      let ballotProof: string | undefined;
+      if (scheme === 'elgamal') {
+        const encrypted = encryptVoteElGamal(
+          constituencyId,
+          constituency.candidates.map(c => c.id),
+          candidateId,
+          electionKey.publicKey
+        );
+        const proof = await proveBallot(encrypted.ballot, candidateId, encrypted.randomness, electionKey.publicKey, voterHash);
+        encryptedVote = encrypted.encryptedVote;
+        ballotProof = serializeBallotProof(proof);
+      } else {
+        const payload = { candidateId, candidateName: candidate.name, party: candidate.party, constituencyId };
+        encryptedVote = (await encryptVoteRSA(payload, electionKey.publicKey)).encryptedVote;
+      }
+
+      const result = await addVote(state, encryptedVote, voterHash, { ballotProof, sealer, device });
+      state = result.state;
+      return result.block;
+    }
+  };
+
+  return election;
+}
+
+export type TestElection = Awaited<ReturnType<typeof createTestElection>>;
+
+/**
+ * 64-hex voter hash for test voter `n`
+ */
+export function voterHash(n: number): string {
+  return n.toString(16).padStart(64, '0');
+}
@@ -0,0 +1,42 @@
+/**
+ * PROOF-OF-WORK WORKER
+ *
+ * Runs mineBlock off the main thread. See src/lib/mining.ts for the
+ * message protocol.
+ */
+
+import { mineBlock } from '@/lib/crypto';
+import type { MinerRequest, MinerResponse } from '@/lib/mining';
+
+let controller: AbortController | null = null;
+
+function reply(message: MinerResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', async (event: MessageEvent<MinerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  controller?.abort();
+  controller = new AbortController();
+  const { signal } = controller;
+
+  try {
+    const result = await mineBlock(request.header, request.difficulty, {
+      signal,
+      onProgress: (progress) => reply({ type: 'progress', ...progress })
+    });
+    reply({ type: 'found', ...result });
+  } catch (error) {
+    if (signal.aborted) {
+      reply({ type: 'cancelled' });
+    } else {
+      reply({ type: 'error', message: error instanceof Error ? error.message : 'Mining failed' });
+    }
+  }
+});
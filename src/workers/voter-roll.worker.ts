@@ -0,0 +1,42 @@
+/**
+ * VOTER ROLL IMPORT WORKER
+ *
+ * Runs importVoterRoll off the main thread. See src/lib/voter-roll.ts for
+ * the message protocol.
+ */
+
+import { importVoterRoll, type VoterRollRequest, type VoterRollResponse } from '@/lib/voter-roll';
+
+let controller: AbortController | null = null;
+
+function reply(message: VoterRollResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', async (event: MessageEvent<VoterRollRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  controller?.abort();
+  controller = new AbortController();
+  const { signal } = controller;
+
+  try {
+    const report = await importVoterRoll(request.text, request.format, request.constituencies, {
+      pinIterations: request.pinIterations,
+      signal,
+      onProgress: (progress) => reply({ type: 'progress', ...progress })
+    });
+    reply({ type: 'done', report });
+  } catch (error) {
+    if (signal.aborted) {
+      reply({ type: 'cancelled' });
+    } else {
+      reply({ type: 'error', message: error instanceof Error ? error.message : 'Voter roll import failed' });
+    }
+  }
+});
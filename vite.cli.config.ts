@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Node.js build of the command-line chain verifier (src/cli)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  publicDir: false,
+  build: {
+    ssr: "src/cli/verify-chain.ts",
+    outDir: "dist/cli",
+    target: "node18",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        format: "es",
+        entryFileNames: "verify-chain.js",
+      },
+    },
+  },
+});